@@ -1,110 +1,609 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint16, euint32, externalEuint8, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract ReviewerRecFHE is SepoliaConfig {
+    /// @notice Upper bound on the number of ranked candidates an editor can ask for
+    uint256 public constant MAX_TOP_K = 5;
+    /// @notice Vector buckets compared per matching transaction; a batch takes reviewers until their
+    ///         vectors would exceed it, but always at least one. Sized with MAX_TOP_K for the per-tx HCU limits.
+    uint256 public constant MATCH_BATCH_BUCKETS = 32;
+    /// @notice Points for a reviewer in the paper's discipline
+    uint32 public constant DISCIPLINE_WEIGHT = 40;
+    /// @notice Points when one discipline is the top-level field of the other
+    uint32 public constant PARENT_DISCIPLINE_WEIGHT = 25;
+    /// @notice Points when the disciplines are different subfields of the same field
+    uint32 public constant SIBLING_DISCIPLINE_WEIGHT = 15;
+    /// @notice Discipline codes keep their top-level field in these bits and the subfield number above them,
+    ///         so a code below 2^16 is a field itself
+    uint32 public constant DISCIPLINE_FIELD_MASK = 0xFFFF;
+    /// @notice Cap on the points from the dot product of the paper's keyword and the reviewer's expertise vectors
+    uint32 public constant SIMILARITY_CAP = 30;
+    /// @notice Cap on publication points, only awarded when the vectors overlap
+    uint32 public constant PUBLICATION_CAP = 30;
+    /// @notice Bucket weights are clamped to this on submission, so a bucket product always fits in 8 bits
+    uint8 public constant MAX_BUCKET_WEIGHT = 15;
+    /// @notice Shortest vector a profile version may define; bounds how many buckets a fold adds up
+    uint8 public constant MIN_PROFILE_DIMENSIONS = 8;
+    /// @notice Longest vector a profile version may define; a longer one could not be scored within one transaction
+    uint8 public constant MAX_PROFILE_DIMENSIONS = 32;
+    /// @notice Points deducted per review a reviewer currently has in progress
+    uint32 public constant LOAD_PENALTY = 10;
+    /// @notice Most author affiliations a paper can declare for conflict-of-interest exclusion
+    uint256 public constant MAX_AUTHOR_AFFILIATIONS = 3;
+    /// @notice Most co-author and advisor identifiers a paper can declare for exclusion
+    uint256 public constant MAX_CONFLICT_IDS = 5;
+
+    /// @notice Manages roles and reassigns papers between editors
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    /// @notice Runs matching and reveals candidates for the papers they handle
+    bytes32 public constant EDITOR_ROLE = keccak256("EDITOR_ROLE");
+    /// @notice Scholar allowed to contribute a reviewer profile
+    bytes32 public constant REVIEWER_ROLE = keccak256("REVIEWER_ROLE");
+    /// @notice Allowed to submit manuscripts
+    bytes32 public constant AUTHOR_ROLE = keccak256("AUTHOR_ROLE");
+
+    /// @dev Submitted -> Matching -> ReviewersAssigned -> UnderReview -> Decided; the author may
+    ///      withdraw at any point before the decision.
+    enum PaperStatus {
+        Submitted,
+        Matching,
+        ReviewersAssigned,
+        UnderReview,
+        Decided,
+        Withdrawn
+    }
+
     struct EncryptedPaper {
         uint256 id;
         euint32 encryptedTitle;
         euint32 encryptedAbstract;
-        euint32 encryptedKeywords;
         euint32 encryptedDiscipline;
+        /// @dev Profile version the keyword vector was encoded with; the vector is in paperVectors
+        uint16 profileVersion;
         uint256 timestamp;
+        address author;
+        /// @dev Handling editor; set by the first editor to request matching, changed only by an admin
+        address editor;
+        PaperStatus status;
+        uint256 statusUpdatedAt;
+    }
+
+    /// @dev Active -> Paused -> Active at the owner's wish; Deregistered is final. Only active
+    ///      profiles are scored and invited.
+    enum ReviewerStatus {
+        Active,
+        Paused,
+        Deregistered
     }
 
     struct EncryptedReviewer {
         uint256 id;
-        euint32 encryptedExpertise;
+        /// @dev Profile version the expertise vector was encoded with; the vector is in reviewerVectors
+        uint16 profileVersion;
+        euint32 encryptedDiscipline;
         euint32 encryptedAffiliation;
+        /// @dev Scholar identifier (e.g. a hashed ORCID) checked against papers' conflict lists
+        euint32 encryptedScholarId;
         euint32 encryptedPublicationCount;
+        /// @dev Completed reviews; grows when an editor marks one of this reviewer's reviews complete
         euint32 encryptedReviewCount;
+        /// @dev Reviews accepted but not yet completed, used for the load penalty and the concurrency cap
+        euint32 encryptedActiveReviews;
+        /// @dev Wallet that answers invitations and maintains the profile; zero for profiles curated by an editor
+        address account;
+        ReviewerStatus status;
+        /// @dev Registration, or the owner's last change to the encrypted fields
+        uint256 updatedAt;
+        /// @dev Last time the owner did anything with the profile: an update, an answer, a status or window change
+        uint256 lastActiveAt;
+    }
+
+    /// @dev When the reviewer takes new papers. A public window is checked before scoring, so reviewers
+    ///      outside it are skipped; an encrypted one zeroes the score instead. Bounds are unix seconds,
+    ///      inclusive; a public until of 0 leaves the window open-ended. No window means always available.
+    struct AvailabilityWindow {
+        bool encrypted;
+        uint64 from;
+        uint64 until;
+        euint32 encryptedFrom;
+        euint32 encryptedUntil;
+    }
+
+    /// @dev What a caller without decryption rights can tell about a reviewer right now
+    enum Availability {
+        Unavailable,
+        Available,
+        /// @dev Active, with an encrypted window only the contract can check
+        Sealed
+    }
+
+    /// @dev Declared with a paper. A reviewer whose affiliation or scholar id equals any entry scores zero.
+    struct ConflictList {
+        euint32[] affiliations;
+        euint32[] scholarIds;
     }
 
+    enum InvitationStatus {
+        None,
+        Pending,
+        Accepted,
+        Declined,
+        Completed
+    }
+
+    /// @dev One ranked candidate. revealedScore is only meaningful once isRevealed is set.
     struct MatchResult {
         uint256 paperId;
         uint256 reviewerId;
         euint32 matchScore;
         bool isRevealed;
+        uint32 revealedScore;
+    }
+
+    /// @dev Encrypted running top-k of a matching round. Slot 0 holds the best score;
+    ///      only the first k slots are used.
+    struct MatchingState {
+        uint256 nextReviewerId;
+        uint256 k;
+        bool active;
+        euint32[MAX_TOP_K] topScores;
+        euint32[MAX_TOP_K] topReviewerIds;
+    }
+
+    struct RevealRequest {
+        uint256 paperId;
+        uint256 rank;
+    }
+
+    /// @dev The two decryptions a paper waits on: its ranking after matching, and a candidate's score on reveal
+    enum DecryptionKind {
+        Matching,
+        Reveal
+    }
+
+    enum DecryptionStatus {
+        None,
+        Pending,
+        Fulfilled
+    }
+
+    /// @dev Latest oracle request of one kind for a paper; a new request replaces the record. Whether it
+    ///      is still pending is read from requestToPaperId / requestToReveal, which the callbacks clear.
+    struct DecryptionRequest {
+        uint256 requestId;
+        uint64 requestedAt;
     }
 
     uint256 public paperCount;
     uint256 public reviewerCount;
+    /// @notice Version new papers and profiles are encoded with; older ones stay valid and are folded when scored
+    uint16 public currentProfileVersion;
+    /// @notice Vector length of each profile version, always a power of two
+    mapping(uint16 => uint8) public profileDimensions;
+    /// @notice Reviewers with this many reviews in progress score zero until they complete one
+    uint32 public maxConcurrentReviews = 3;
     mapping(uint256 => EncryptedPaper) public encryptedPapers;
     mapping(uint256 => EncryptedReviewer) public encryptedReviewers;
-    mapping(uint256 => MatchResult) public matchResults;
+    mapping(uint256 => ConflictList) private paperConflicts;
+    mapping(uint256 => euint8[]) private paperVectors;
+    mapping(uint256 => euint8[]) private reviewerVectors;
+    mapping(uint256 => AvailabilityWindow) public availabilityWindows;
+    mapping(uint256 => MatchingState) private matchingStates;
+    mapping(uint256 => MatchResult[]) private rankedMatches;
 
     mapping(uint256 => uint256) private requestToPaperId;
-    mapping(uint256 => uint256) private requestToReviewerId;
+    mapping(uint256 => RevealRequest) private requestToReveal;
+    mapping(uint256 => mapping(DecryptionKind => DecryptionRequest)) private decryptions;
+    /// @dev Oracle requests of a paper not answered yet. Rankings are only replaced and scores only
+    ///      requested while this is zero, so every callback finds the ranking its request was made for.
+    mapping(uint256 => uint256) private pendingDecryptions;
+
+    mapping(bytes32 => mapping(address => bool)) private roles;
+
+    /// @dev paperId => reviewerId => consent state
+    mapping(uint256 => mapping(uint256 => InvitationStatus)) private invitations;
+    /// @dev reviewerId => papers the reviewer was invited to, oldest first
+    mapping(uint256 => uint256[]) private invitedPapers;
+    mapping(address => uint256[]) private reviewerIdsByAccount;
 
     event PaperSubmitted(uint256 indexed id, uint256 timestamp);
     event ReviewerAdded(uint256 indexed id);
+    event ReviewerUpdated(uint256 indexed id, uint256 timestamp);
+    event ReviewerStatusChanged(uint256 indexed id, ReviewerStatus status);
+    /// @dev from and until are zero for an encrypted window
+    event AvailabilityChanged(uint256 indexed reviewerId, bool encrypted, uint64 from, uint64 until);
     event MatchingRequested(uint256 indexed paperId);
-    event MatchRevealed(uint256 indexed paperId, uint256 indexed reviewerId);
+    event MatchingProgress(uint256 indexed paperId, uint256 scoredReviewers);
+    event MatchingCompleted(uint256 indexed paperId, uint256 matchCount);
+    event MatchRevealed(uint256 indexed paperId, uint256 indexed reviewerId, uint256 rank, uint32 score);
+    event DecryptionRequested(uint256 indexed paperId, uint256 indexed requestId, DecryptionKind kind);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event EditorAssigned(uint256 indexed paperId, address indexed editor);
+    event ReviewerInvited(uint256 indexed paperId, uint256 indexed reviewerId);
+    event InvitationAnswered(uint256 indexed paperId, uint256 indexed reviewerId, bool accepted);
+    event PaperStatusChanged(uint256 indexed paperId, PaperStatus status, uint256 timestamp);
+    event ReviewCompleted(uint256 indexed paperId, uint256 indexed reviewerId);
+    event MaxConcurrentReviewsUpdated(uint32 cap);
+    event ProfileVersionAdded(uint16 indexed version, uint8 dimensions);
+
+    // Modifier bodies are inlined at every use; keeping the checks in functions keeps the contract under the size limit
+
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role);
+        _;
+    }
+
+    /// @dev Profiles belong to their wallet: revoking REVIEWER_ROLE stops new registrations, but the owner
+    ///      keeps updating, pausing, scheduling and deregistering the profiles they already have
+    modifier onlyProfileOwner(uint256 reviewerId) {
+        _checkProfileOwner(reviewerId);
+        _;
+    }
+
+    modifier onlyPaperEditor(uint256 paperId) {
+        _checkPaperEditor(paperId);
+        _;
+    }
+
+    constructor() {
+        _setRole(ADMIN_ROLE, msg.sender, true);
+        _addProfileVersion(16);
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roles[role][account];
+    }
+
+    function grantRole(bytes32 role, address account) public onlyRole(ADMIN_ROLE) {
+        _setRole(role, account, true);
+    }
+
+    /// @dev An admin cannot drop their own admin role, so the contract always keeps one
+    function revokeRole(bytes32 role, address account) public onlyRole(ADMIN_ROLE) {
+        require(role != ADMIN_ROLE || account != msg.sender, "Cannot revoke own admin role");
+        _setRole(role, account, false);
+    }
+
+    /// @notice Hand a paper to another editor, who also gains access to its encrypted match scores
+    function assignEditor(uint256 paperId, address editor) public onlyRole(ADMIN_ROLE) {
+        require(paperId != 0 && paperId <= paperCount, "Invalid paper ID");
+        require(roles[EDITOR_ROLE][editor], "Not an editor");
+        encryptedPapers[paperId].editor = editor;
+        MatchResult[] storage matches = rankedMatches[paperId];
+        for (uint256 i = 0; i < matches.length; i++) {
+            FHE.allow(matches[i].matchScore, editor);
+        }
+        emit EditorAssigned(paperId, editor);
+    }
+
+    /// @notice Change the concurrency cap; takes effect from the next matching batch
+    function setMaxConcurrentReviews(uint32 cap) public onlyRole(ADMIN_ROLE) {
+        require(cap != 0, "Invalid cap");
+        maxConcurrentReviews = cap;
+        emit MaxConcurrentReviewsUpdated(cap);
+    }
+
+    /// @notice Start encoding new papers and profiles with vectors of another length
+    /// @dev Lengths are powers of two and buckets are assigned by hash modulo the length, so bucket i of a
+    ///      shorter vector is the sum of the buckets congruent to i in a longer one. That lets profiles of
+    ///      different versions be compared without re-encrypting either.
+    function addProfileVersion(uint8 dimensions) public onlyRole(ADMIN_ROLE) {
+        _addProfileVersion(dimensions);
+    }
 
     /// @notice Submit a new encrypted research paper
+    /// @dev All handles must come from a single encrypted input bound to this contract and the sender.
+    ///      keywordVector has profileDimensions[currentProfileVersion] buckets. authorAffiliations and
+    ///      conflictIds (co-authors, advisors and the authors themselves) exclude matching reviewers
+    ///      without revealing who was excluded.
     function submitEncryptedPaper(
-        euint32 encryptedTitle,
-        euint32 encryptedAbstract,
-        euint32 encryptedKeywords,
-        euint32 encryptedDiscipline
-    ) public {
+        externalEuint32 encryptedTitle,
+        externalEuint32 encryptedAbstract,
+        externalEuint8[] calldata keywordVector,
+        externalEuint32 encryptedDiscipline,
+        externalEuint32[] calldata authorAffiliations,
+        externalEuint32[] calldata conflictIds,
+        bytes calldata inputProof
+    ) public onlyRole(AUTHOR_ROLE) {
+        require(authorAffiliations.length <= MAX_AUTHOR_AFFILIATIONS, "Too many affiliations");
+        require(conflictIds.length <= MAX_CONFLICT_IDS, "Too many conflict IDs");
+        require(keywordVector.length == profileDimensions[currentProfileVersion], "Wrong vector length");
         paperCount += 1;
         uint256 newId = paperCount;
 
+        euint32 title = FHE.fromExternal(encryptedTitle, inputProof);
+        euint32 abstractText = FHE.fromExternal(encryptedAbstract, inputProof);
+        euint32 discipline = FHE.fromExternal(encryptedDiscipline, inputProof);
+
+        _grantAccess(title, msg.sender);
+        _grantAccess(abstractText, msg.sender);
+        _grantAccess(discipline, msg.sender);
+        _storeVector(paperVectors[newId], keywordVector, inputProof);
+
         encryptedPapers[newId] = EncryptedPaper({
             id: newId,
-            encryptedTitle: encryptedTitle,
-            encryptedAbstract: encryptedAbstract,
-            encryptedKeywords: encryptedKeywords,
-            encryptedDiscipline: encryptedDiscipline,
-            timestamp: block.timestamp
+            encryptedTitle: title,
+            encryptedAbstract: abstractText,
+            encryptedDiscipline: discipline,
+            profileVersion: currentProfileVersion,
+            timestamp: block.timestamp,
+            author: msg.sender,
+            editor: address(0),
+            status: PaperStatus.Submitted,
+            statusUpdatedAt: block.timestamp
         });
 
+        ConflictList storage conflicts = paperConflicts[newId];
+        for (uint256 i = 0; i < authorAffiliations.length; i++) {
+            euint32 affiliation = FHE.fromExternal(authorAffiliations[i], inputProof);
+            _grantAccess(affiliation, msg.sender);
+            conflicts.affiliations.push(affiliation);
+        }
+        for (uint256 i = 0; i < conflictIds.length; i++) {
+            euint32 scholarId = FHE.fromExternal(conflictIds[i], inputProof);
+            _grantAccess(scholarId, msg.sender);
+            conflicts.scholarIds.push(scholarId);
+        }
+
         emit PaperSubmitted(newId, block.timestamp);
+        emit PaperStatusChanged(newId, PaperStatus.Submitted, block.timestamp);
     }
 
-    /// @notice Add a new encrypted reviewer profile
+    /// @notice Add a new encrypted reviewer profile, either by an editor curating the pool or by the scholar
+    /// @dev All handles must come from a single encrypted input bound to this contract and the sender.
+    ///      expertiseVector has profileDimensions[currentProfileVersion] buckets.
     function addEncryptedReviewer(
-        euint32 encryptedExpertise,
-        euint32 encryptedAffiliation,
-        euint32 encryptedPublicationCount,
-        euint32 encryptedReviewCount
+        externalEuint8[] calldata expertiseVector,
+        externalEuint32 encryptedDiscipline,
+        externalEuint32 encryptedAffiliation,
+        externalEuint32 encryptedScholarId,
+        externalEuint32 encryptedPublicationCount,
+        externalEuint32 encryptedReviewCount,
+        bytes calldata inputProof
     ) public {
+        require(roles[EDITOR_ROLE][msg.sender] || roles[REVIEWER_ROLE][msg.sender], "Missing role");
+        require(expertiseVector.length == profileDimensions[currentProfileVersion], "Wrong vector length");
         reviewerCount += 1;
         uint256 newId = reviewerCount;
 
+        euint32 discipline = FHE.fromExternal(encryptedDiscipline, inputProof);
+        euint32 affiliation = FHE.fromExternal(encryptedAffiliation, inputProof);
+        euint32 scholarId = FHE.fromExternal(encryptedScholarId, inputProof);
+        euint32 publicationCount = FHE.fromExternal(encryptedPublicationCount, inputProof);
+        euint32 reviewCount = FHE.fromExternal(encryptedReviewCount, inputProof);
+
+        _storeVector(reviewerVectors[newId], expertiseVector, inputProof);
+        _grantAccess(discipline, msg.sender);
+        _grantAccess(affiliation, msg.sender);
+        _grantAccess(scholarId, msg.sender);
+        _grantAccess(publicationCount, msg.sender);
+        _grantAccess(reviewCount, msg.sender);
+        euint32 activeReviews = FHE.asEuint32(0);
+        _grantAccess(activeReviews, msg.sender);
+
         encryptedReviewers[newId] = EncryptedReviewer({
             id: newId,
-            encryptedExpertise: encryptedExpertise,
-            encryptedAffiliation: encryptedAffiliation,
-            encryptedPublicationCount: encryptedPublicationCount,
-            encryptedReviewCount: encryptedReviewCount
+            profileVersion: currentProfileVersion,
+            encryptedDiscipline: discipline,
+            encryptedAffiliation: affiliation,
+            encryptedScholarId: scholarId,
+            encryptedPublicationCount: publicationCount,
+            encryptedReviewCount: reviewCount,
+            encryptedActiveReviews: activeReviews,
+            account: roles[REVIEWER_ROLE][msg.sender] ? msg.sender : address(0),
+            status: ReviewerStatus.Active,
+            updatedAt: block.timestamp,
+            lastActiveAt: block.timestamp
         });
+        if (roles[REVIEWER_ROLE][msg.sender]) {
+            reviewerIdsByAccount[msg.sender].push(newId);
+        }
 
         emit ReviewerAdded(newId);
     }
 
-    /// @notice Request matching reviewers for a paper
-    function requestMatchingReviewers(uint256 paperId) public {
-        require(paperId <= paperCount, "Invalid paper ID");
-        
+    /// @notice Replace the encrypted fields of one's own profile, re-encoding the expertise vector at the
+    ///         current profile version
+    /// @dev Review counts and load are kept; the contract maintains them. Deregistered profiles are final.
+    function updateEncryptedReviewer(
+        uint256 reviewerId,
+        externalEuint8[] calldata expertiseVector,
+        externalEuint32 encryptedDiscipline,
+        externalEuint32 encryptedAffiliation,
+        externalEuint32 encryptedScholarId,
+        externalEuint32 encryptedPublicationCount,
+        bytes calldata inputProof
+    ) public onlyProfileOwner(reviewerId) {
+        EncryptedReviewer storage reviewer = encryptedReviewers[reviewerId];
+        require(reviewer.status != ReviewerStatus.Deregistered, "Profile deregistered");
+        require(expertiseVector.length == profileDimensions[currentProfileVersion], "Wrong vector length");
+
+        reviewer.encryptedDiscipline = FHE.fromExternal(encryptedDiscipline, inputProof);
+        reviewer.encryptedAffiliation = FHE.fromExternal(encryptedAffiliation, inputProof);
+        reviewer.encryptedScholarId = FHE.fromExternal(encryptedScholarId, inputProof);
+        reviewer.encryptedPublicationCount = FHE.fromExternal(encryptedPublicationCount, inputProof);
+        _grantAccess(reviewer.encryptedDiscipline, msg.sender);
+        _grantAccess(reviewer.encryptedAffiliation, msg.sender);
+        _grantAccess(reviewer.encryptedScholarId, msg.sender);
+        _grantAccess(reviewer.encryptedPublicationCount, msg.sender);
+
+        delete reviewerVectors[reviewerId];
+        _storeVector(reviewerVectors[reviewerId], expertiseVector, inputProof);
+        reviewer.profileVersion = currentProfileVersion;
+        reviewer.updatedAt = block.timestamp;
+        reviewer.lastActiveAt = block.timestamp;
+        emit ReviewerUpdated(reviewerId, block.timestamp);
+    }
+
+    /// @notice Take one's own profile out of matching and invitations for a while, or bring it back
+    /// @dev Invitations already sent can still be answered while paused
+    function setReviewerPaused(uint256 reviewerId, bool paused) public onlyProfileOwner(reviewerId) {
+        EncryptedReviewer storage reviewer = encryptedReviewers[reviewerId];
+        require(reviewer.status != ReviewerStatus.Deregistered, "Profile deregistered");
+        ReviewerStatus status = paused ? ReviewerStatus.Paused : ReviewerStatus.Active;
+        require(reviewer.status != status, "Status unchanged");
+        reviewer.status = status;
+        reviewer.lastActiveAt = block.timestamp;
+        emit ReviewerStatusChanged(reviewerId, status);
+    }
+
+    /// @notice Publish when one's own profile takes new papers; pass until = 0 for no end
+    function setAvailability(uint256 reviewerId, uint64 from, uint64 until) public onlyProfileOwner(reviewerId) {
+        require(until == 0 || from <= until, "Invalid window");
+        AvailabilityWindow storage window = _touchWindow(reviewerId);
+        window.encrypted = false;
+        window.from = from;
+        window.until = until;
+        emit AvailabilityChanged(reviewerId, false, from, until);
+    }
+
+    /// @notice Keep one's availability window private; matching still respects it
+    /// @dev An inverted window is accepted and simply never matches, since it cannot be checked here
+    function setEncryptedAvailability(
+        uint256 reviewerId,
+        externalEuint32 encryptedFrom,
+        externalEuint32 encryptedUntil,
+        bytes calldata inputProof
+    ) public onlyProfileOwner(reviewerId) {
+        AvailabilityWindow storage window = _touchWindow(reviewerId);
+        window.encrypted = true;
+        window.from = 0;
+        window.until = 0;
+        window.encryptedFrom = FHE.fromExternal(encryptedFrom, inputProof);
+        window.encryptedUntil = FHE.fromExternal(encryptedUntil, inputProof);
+        _grantAccess(window.encryptedFrom, msg.sender);
+        _grantAccess(window.encryptedUntil, msg.sender);
+        emit AvailabilityChanged(reviewerId, true, 0, 0);
+    }
+
+    /// @notice Availability and last activity of several reviewers in one call, for listing the pool
+    function getReviewerAvailability(
+        uint256[] calldata reviewerIds
+    ) public view returns (Availability[] memory availability, uint256[] memory lastActiveAt) {
+        availability = new Availability[](reviewerIds.length);
+        lastActiveAt = new uint256[](reviewerIds.length);
+        for (uint256 i = 0; i < reviewerIds.length; i++) {
+            lastActiveAt[i] = encryptedReviewers[reviewerIds[i]].lastActiveAt;
+            if (!_isMatchable(reviewerIds[i])) {
+                availability[i] = Availability.Unavailable;
+            } else if (availabilityWindows[reviewerIds[i]].encrypted) {
+                availability[i] = Availability.Sealed;
+            } else {
+                availability[i] = Availability.Available;
+            }
+        }
+    }
+
+    /// @notice Retire one's own profile for good. The expertise vector is dropped; the id is never reused.
+    /// @dev Reviews in progress can still be completed by their editors
+    function deregisterReviewer(uint256 reviewerId) public onlyProfileOwner(reviewerId) {
+        EncryptedReviewer storage reviewer = encryptedReviewers[reviewerId];
+        require(reviewer.status != ReviewerStatus.Deregistered, "Profile deregistered");
+        reviewer.status = ReviewerStatus.Deregistered;
+        reviewer.lastActiveAt = block.timestamp;
+        delete reviewerVectors[reviewerId];
+        emit ReviewerStatusChanged(reviewerId, ReviewerStatus.Deregistered);
+    }
+
+    /// @notice Start matching a paper against every registered reviewer, keeping the best k
+    /// @dev Scores the first batch right away; call continueMatching until MatchingCompleted is emitted.
+    ///      A new round replaces the previous ranking of the paper once the oracle has answered every
+    ///      request made for it. Papers already under review, decided or withdrawn cannot be matched again.
+    function requestMatchingReviewers(uint256 paperId, uint256 k) public onlyRole(EDITOR_ROLE) {
+        require(paperId != 0 && paperId <= paperCount, "Invalid paper ID");
+        require(k != 0 && k <= MAX_TOP_K, "Invalid k");
+        require(reviewerCount > 0, "No reviewers available");
+
         EncryptedPaper storage paper = encryptedPapers[paperId];
-        
-        bytes32[] memory ciphertexts = new bytes32[](4);
-        ciphertexts[0] = FHE.toBytes32(paper.encryptedTitle);
-        ciphertexts[1] = FHE.toBytes32(paper.encryptedAbstract);
-        ciphertexts[2] = FHE.toBytes32(paper.encryptedKeywords);
-        ciphertexts[3] = FHE.toBytes32(paper.encryptedDiscipline);
-        
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.processMatching.selector);
-        requestToPaperId[reqId] = paperId;
-        
+        if (paper.editor == address(0)) {
+            paper.editor = msg.sender;
+            emit EditorAssigned(paperId, msg.sender);
+        }
+        require(paper.editor == msg.sender, "Not the paper's editor");
+        require(paper.status <= PaperStatus.ReviewersAssigned, "Paper not open for matching");
+
+        _checkSettled(paperId);
+        MatchingState storage state = matchingStates[paperId];
+        if (paper.status == PaperStatus.Submitted) {
+            _setStatus(paperId, PaperStatus.Matching);
+        }
+
+        state.active = true;
+        state.k = k;
+        state.nextReviewerId = 1;
+        for (uint256 i = 0; i < k; i++) {
+            state.topScores[i] = FHE.asEuint32(0);
+            state.topReviewerIds[i] = FHE.asEuint32(0);
+        }
+
         emit MatchingRequested(paperId);
+        _scoreNextBatch(paperId, state);
     }
 
-    /// @notice Process matching results
+    /// @notice Score the next batch of reviewers for a paper whose matching is in progress
+    function continueMatching(uint256 paperId) public onlyPaperEditor(paperId) {
+        MatchingState storage state = matchingStates[paperId];
+        require(state.active, "No matching in progress");
+        _scoreNextBatch(paperId, state);
+    }
+
+    /// @notice Progress of the current matching round for a paper
+    function getMatchingProgress(uint256 paperId) public view returns (bool active, uint256 scoredReviewers) {
+        MatchingState storage state = matchingStates[paperId];
+        active = state.active;
+        scoredReviewers = state.nextReviewerId == 0 ? 0 : state.nextReviewerId - 1;
+    }
+
+    /// @notice Encrypted conflict-of-interest lists declared with a paper; only its author can decrypt them
+    function getPaperConflicts(
+        uint256 paperId
+    ) public view returns (euint32[] memory affiliations, euint32[] memory scholarIds) {
+        ConflictList storage conflicts = paperConflicts[paperId];
+        return (conflicts.affiliations, conflicts.scholarIds);
+    }
+
+    /// @notice Encrypted keyword vector of a paper; only its author can decrypt it
+    function getPaperVector(uint256 paperId) public view returns (euint8[] memory) {
+        return paperVectors[paperId];
+    }
+
+    /// @notice Encrypted expertise vector of a reviewer; only the wallet that registered it can decrypt it
+    function getReviewerVector(uint256 reviewerId) public view returns (euint8[] memory) {
+        return reviewerVectors[reviewerId];
+    }
+
+    /// @notice Number of ranked candidates recorded for a paper
+    function getMatchCount(uint256 paperId) public view returns (uint256) {
+        return rankedMatches[paperId].length;
+    }
+
+    /// @notice Ranked candidates for a paper, best first. Ties keep the lower reviewer id first.
+    function getMatches(uint256 paperId) public view returns (MatchResult[] memory) {
+        return rankedMatches[paperId];
+    }
+
+    /// @notice Latest decryption oracle request of a kind for a paper, with whether the oracle has answered it
+    /// @dev requestedAt is a block timestamp, 0 when nothing was requested
+    function getDecryptionRequest(
+        uint256 paperId,
+        DecryptionKind kind
+    ) public view returns (uint256 requestId, DecryptionStatus status, uint64 requestedAt) {
+        DecryptionRequest storage request = decryptions[paperId][kind];
+        if (request.requestedAt == 0) return (0, DecryptionStatus.None, 0);
+        bool pending = kind == DecryptionKind.Matching
+            ? requestToPaperId[request.requestId] != 0
+            : requestToReveal[request.requestId].paperId != 0;
+        return (request.requestId, pending ? DecryptionStatus.Pending : DecryptionStatus.Fulfilled, request.requestedAt);
+    }
+
+    /// @notice Receive the decrypted ranking of a completed matching round
+    /// @dev Only reviewer ids are decrypted; scores and the manuscript stay encrypted and only the
+    ///      handling editor is allowed to decrypt the scores. Anyone may relay the oracle's answer:
+    ///      FHE.checkSignatures rejects cleartexts not signed by the KMS for this exact request.
     function processMatching(
         uint256 requestId,
         bytes memory cleartexts,
@@ -112,60 +611,440 @@ contract ReviewerRecFHE is SepoliaConfig {
     ) public {
         uint256 paperId = requestToPaperId[requestId];
         require(paperId != 0, "Invalid request");
-        
+        delete requestToPaperId[requestId];
+        pendingDecryptions[paperId] -= 1;
+
         FHE.checkSignatures(requestId, cleartexts, proof);
-        
-        string[] memory paperData = abi.decode(cleartexts, (string[]));
-        
-        // In a real implementation, perform encrypted matching with reviewers
-        // This is simplified for demonstration
-        uint256 bestMatchId = findBestMatch(paperData);
-        
-        matchResults[paperId] = MatchResult({
-            paperId: paperId,
-            reviewerId: bestMatchId,
-            matchScore: FHE.asEuint32(100), // Simplified score
-            isRevealed: false
-        });
+
+        MatchingState storage state = matchingStates[paperId];
+        address editor = encryptedPapers[paperId].editor;
+        delete rankedMatches[paperId];
+        for (uint256 i = 0; i < state.k; i++) {
+            uint256 reviewerId = _decodeWord(cleartexts, i);
+            // A zero id means fewer than k reviewers scored above zero
+            if (reviewerId == 0) break;
+            FHE.allow(state.topScores[i], editor);
+            rankedMatches[paperId].push(
+                MatchResult({
+                    paperId: paperId,
+                    reviewerId: reviewerId,
+                    matchScore: state.topScores[i],
+                    isRevealed: false,
+                    revealedScore: 0
+                })
+            );
+        }
+
+        emit MatchingCompleted(paperId, rankedMatches[paperId].length);
     }
 
-    /// @notice Reveal the matched reviewer
-    function revealMatchedReviewer(uint256 paperId) public {
-        MatchResult storage result = matchResults[paperId];
-        require(result.paperId != 0, "No match found");
+    /// @notice Ask a ranked candidate to review the paper. Their score stays sealed until they accept.
+    /// @dev Ranked ids are pseudonyms, but a profile registered from a wallet is tied to it by its own
+    ///      registration, so being a candidate is not private. Consent guards the reveal and the assignment.
+    function inviteReviewer(uint256 paperId, uint256 reviewerId) public onlyPaperEditor(paperId) {
+        require(!_isClosed(paperId), "Paper closed");
+        require(_isRanked(paperId, reviewerId), "Not a matched reviewer");
+        address account = encryptedReviewers[reviewerId].account;
+        require(account != address(0), "Reviewer cannot be contacted");
+        require(_isMatchable(reviewerId), "Reviewer not available");
+        require(invitations[paperId][reviewerId] == InvitationStatus.None, "Already invited");
+
+        invitations[paperId][reviewerId] = InvitationStatus.Pending;
+        invitedPapers[reviewerId].push(paperId);
+        emit ReviewerInvited(paperId, reviewerId);
+    }
+
+    /// @notice Accept or decline an invitation from the reviewer's own wallet
+    /// @dev Accepting adds to the reviewer's encrypted load, which lowers their score for later papers.
+    ///      The first acceptance moves a paper that is still being matched to ReviewersAssigned.
+    function respondToInvitation(uint256 paperId, uint256 reviewerId, bool accept) public {
+        EncryptedReviewer storage reviewer = encryptedReviewers[reviewerId];
+        require(reviewer.account == msg.sender, "Not the invited reviewer");
+        require(invitations[paperId][reviewerId] == InvitationStatus.Pending, "No pending invitation");
+        require(reviewer.status != ReviewerStatus.Deregistered, "Profile deregistered");
+        require(!_isClosed(paperId), "Paper closed");
+
+        reviewer.lastActiveAt = block.timestamp;
+        invitations[paperId][reviewerId] = accept ? InvitationStatus.Accepted : InvitationStatus.Declined;
+        if (accept) {
+            reviewer.encryptedActiveReviews = FHE.add(reviewer.encryptedActiveReviews, 1);
+            _grantAccess(reviewer.encryptedActiveReviews, reviewer.account);
+            if (encryptedPapers[paperId].status == PaperStatus.Matching) {
+                _setStatus(paperId, PaperStatus.ReviewersAssigned);
+            }
+        }
+        emit InvitationAnswered(paperId, reviewerId, accept);
+    }
+
+    /// @notice Record that an accepted reviewer has delivered their review, freeing one slot of their load
+    /// @dev Allowed in any paper status, so reviewers of a withdrawn paper can be released too
+    function completeReview(uint256 paperId, uint256 reviewerId) public onlyPaperEditor(paperId) {
+        require(invitations[paperId][reviewerId] == InvitationStatus.Accepted, "Review not in progress");
+        invitations[paperId][reviewerId] = InvitationStatus.Completed;
+
+        EncryptedReviewer storage reviewer = encryptedReviewers[reviewerId];
+        // Cannot underflow: every accepted invitation added one
+        reviewer.encryptedActiveReviews = FHE.sub(reviewer.encryptedActiveReviews, 1);
+        reviewer.encryptedReviewCount = FHE.add(reviewer.encryptedReviewCount, 1);
+        _grantAccess(reviewer.encryptedActiveReviews, reviewer.account);
+        _grantAccess(reviewer.encryptedReviewCount, reviewer.account);
+        emit ReviewCompleted(paperId, reviewerId);
+    }
+
+    /// @notice Send the manuscript out to the reviewers who accepted
+    function startReview(uint256 paperId) public onlyPaperEditor(paperId) {
+        require(encryptedPapers[paperId].status == PaperStatus.ReviewersAssigned, "Reviewers not assigned");
+        _setStatus(paperId, PaperStatus.UnderReview);
+    }
+
+    /// @notice Close the review round once the editor has reached a decision
+    function recordDecision(uint256 paperId) public onlyPaperEditor(paperId) {
+        require(encryptedPapers[paperId].status == PaperStatus.UnderReview, "Paper not under review");
+        _setStatus(paperId, PaperStatus.Decided);
+    }
+
+    /// @notice Withdraw a paper before its decision. Stops any matching round that is still scoring.
+    function withdrawPaper(uint256 paperId) public {
+        require(encryptedPapers[paperId].author == msg.sender, "Not the paper's author");
+        require(!_isClosed(paperId), "Paper closed");
+        matchingStates[paperId].active = false;
+        _setStatus(paperId, PaperStatus.Withdrawn);
+    }
+
+    function getInvitationStatus(uint256 paperId, uint256 reviewerId) public view returns (InvitationStatus) {
+        return invitations[paperId][reviewerId];
+    }
+
+    /// @notice Every paper a reviewer was invited to, with the current answer
+    function getInvitations(
+        uint256 reviewerId
+    ) public view returns (uint256[] memory paperIds, InvitationStatus[] memory statuses) {
+        paperIds = invitedPapers[reviewerId];
+        statuses = new InvitationStatus[](paperIds.length);
+        for (uint256 i = 0; i < paperIds.length; i++) {
+            statuses[i] = invitations[paperIds[i]][reviewerId];
+        }
+    }
+
+    /// @notice Profiles a wallet registered itself, used to build the reviewer's inbox
+    function getReviewerIds(address account) public view returns (uint256[] memory) {
+        return reviewerIdsByAccount[account];
+    }
+
+    /// @notice Reveal the candidate at a given rank (0 is the best match) once they have accepted
+    /// @dev One decryption at a time per paper, and none while a new ranking is being scored
+    function revealMatchedReviewer(uint256 paperId, uint256 rank) public onlyPaperEditor(paperId) {
+        _checkSettled(paperId);
+        require(rankedMatches[paperId].length != 0, "No match found");
+        require(rank < rankedMatches[paperId].length, "Invalid rank");
+        MatchResult storage result = rankedMatches[paperId][rank];
         require(!result.isRevealed, "Already revealed");
-        
-        EncryptedReviewer storage reviewer = encryptedReviewers[result.reviewerId];
-        
+        require(_hasConsented(paperId, result.reviewerId), "Reviewer has not consented");
+
         bytes32[] memory ciphertexts = new bytes32[](1);
         ciphertexts[0] = FHE.toBytes32(result.matchScore);
-        
+
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.finalizeReveal.selector);
-        requestToReviewerId[reqId] = paperId;
+        requestToReveal[reqId] = RevealRequest({ paperId: paperId, rank: rank });
+        _recordDecryption(paperId, DecryptionKind.Reveal, reqId);
     }
 
     /// @notice Finalize the reveal process
+    /// @dev Like processMatching, authenticated by the KMS signatures rather than the caller
     function finalizeReveal(
         uint256 requestId,
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        uint256 paperId = requestToReviewerId[requestId];
-        require(paperId != 0, "Invalid request");
-        
-        MatchResult storage result = matchResults[paperId];
+        RevealRequest memory request = requestToReveal[requestId];
+        require(request.paperId != 0, "Invalid request");
+        delete requestToReveal[requestId];
+        pendingDecryptions[request.paperId] -= 1;
+
         FHE.checkSignatures(requestId, cleartexts, proof);
-        
+
+        // The ranking cannot change while the request is pending, and consent cannot be taken back,
+        // so the checks made when the reveal was requested still hold
+        MatchResult storage result = rankedMatches[request.paperId][request.rank];
         result.isRevealed = true;
-        emit MatchRevealed(paperId, result.reviewerId);
+        result.revealedScore = uint32(_decodeWord(cleartexts, 0));
+        emit MatchRevealed(request.paperId, result.reviewerId, request.rank, result.revealedScore);
+    }
+
+    function _checkRole(bytes32 role) private view {
+        require(roles[role][msg.sender], "Missing role");
+    }
+
+    function _checkProfileOwner(uint256 reviewerId) private view {
+        require(encryptedReviewers[reviewerId].account == msg.sender, "Not the profile owner");
+    }
+
+    function _checkPaperEditor(uint256 paperId) private view {
+        require(encryptedPapers[paperId].editor == msg.sender, "Not the paper's editor");
+    }
+
+    function _checkSettled(uint256 paperId) private view {
+        require(!matchingStates[paperId].active, "Matching in progress");
+        require(pendingDecryptions[paperId] == 0, "Decryption pending");
+    }
+
+    function _recordDecryption(uint256 paperId, DecryptionKind kind, uint256 requestId) private {
+        decryptions[paperId][kind] = DecryptionRequest({ requestId: requestId, requestedAt: uint64(block.timestamp) });
+        pendingDecryptions[paperId] += 1;
+        emit DecryptionRequested(paperId, requestId, kind);
+    }
+
+    function _isRanked(uint256 paperId, uint256 reviewerId) private view returns (bool) {
+        MatchResult[] storage matches = rankedMatches[paperId];
+        for (uint256 i = 0; i < matches.length; i++) {
+            if (matches[i].reviewerId == reviewerId) return true;
+        }
+        return false;
+    }
+
+    /// @dev Active and, for a public window, inside it. Encrypted windows are checked while scoring.
+    function _isMatchable(uint256 reviewerId) private view returns (bool) {
+        if (encryptedReviewers[reviewerId].status != ReviewerStatus.Active) return false;
+        AvailabilityWindow storage window = availabilityWindows[reviewerId];
+        if (window.encrypted) return true;
+        return window.from <= block.timestamp && (window.until == 0 || block.timestamp <= window.until);
+    }
+
+    function _withinWindow(AvailabilityWindow storage window, euint32 score) private returns (euint32) {
+        uint32 now32 = uint32(block.timestamp);
+        ebool inside = FHE.and(FHE.le(window.encryptedFrom, now32), FHE.ge(window.encryptedUntil, now32));
+        return FHE.select(inside, score, FHE.asEuint32(0));
+    }
+
+    function _touchWindow(uint256 reviewerId) private returns (AvailabilityWindow storage) {
+        EncryptedReviewer storage reviewer = encryptedReviewers[reviewerId];
+        require(reviewer.status != ReviewerStatus.Deregistered, "Profile deregistered");
+        reviewer.lastActiveAt = block.timestamp;
+        return availabilityWindows[reviewerId];
+    }
+
+    function _isClosed(uint256 paperId) private view returns (bool) {
+        PaperStatus status = encryptedPapers[paperId].status;
+        return status == PaperStatus.Decided || status == PaperStatus.Withdrawn;
+    }
+
+    function _setStatus(uint256 paperId, PaperStatus status) private {
+        EncryptedPaper storage paper = encryptedPapers[paperId];
+        paper.status = status;
+        paper.statusUpdatedAt = block.timestamp;
+        emit PaperStatusChanged(paperId, status, block.timestamp);
+    }
+
+    function _hasConsented(uint256 paperId, uint256 reviewerId) private view returns (bool) {
+        InvitationStatus status = invitations[paperId][reviewerId];
+        return status == InvitationStatus.Accepted || status == InvitationStatus.Completed;
+    }
+
+    function _setRole(bytes32 role, address account, bool granted) private {
+        if (roles[role][account] == granted) return;
+        roles[role][account] = granted;
+        if (granted) {
+            emit RoleGranted(role, account, msg.sender);
+        } else {
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    /// @dev Keeps the contract able to compute on a stored ciphertext and lets its submitter decrypt it
+    function _grantAccess(euint32 value, address account) private {
+        FHE.allowThis(value);
+        FHE.allow(value, account);
+    }
+
+    function _grantAccess(euint8 value, address account) private {
+        FHE.allowThis(value);
+        FHE.allow(value, account);
+    }
+
+    function _addProfileVersion(uint8 dimensions) private {
+        require(
+            dimensions >= MIN_PROFILE_DIMENSIONS &&
+                dimensions <= MAX_PROFILE_DIMENSIONS &&
+                dimensions & (dimensions - 1) == 0,
+            "Invalid dimensions"
+        );
+        currentProfileVersion += 1;
+        profileDimensions[currentProfileVersion] = dimensions;
+        emit ProfileVersionAdded(currentProfileVersion, dimensions);
+    }
+
+    /// @dev Clamping caps every bucket product at MAX_BUCKET_WEIGHT^2, which fits the euint8 multiplication
+    function _storeVector(
+        euint8[] storage vector,
+        externalEuint8[] calldata buckets,
+        bytes calldata inputProof
+    ) private {
+        for (uint256 i = 0; i < buckets.length; i++) {
+            euint8 weight = FHE.min(FHE.fromExternal(buckets[i], inputProof), MAX_BUCKET_WEIGHT);
+            _grantAccess(weight, msg.sender);
+            vector.push(weight);
+        }
+    }
+
+    function _scoreNextBatch(uint256 paperId, MatchingState storage state) private {
+        EncryptedPaper storage paper = encryptedPapers[paperId];
+        ConflictList storage conflicts = paperConflicts[paperId];
+        euint8[] storage paperVector = paperVectors[paperId];
+        uint256 k = state.k;
+        uint256 last = state.nextReviewerId - 1;
+        uint256 buckets = 0;
+
+        while (last < reviewerCount) {
+            if (!_isMatchable(last + 1)) {
+                last += 1;
+                continue;
+            }
+            euint8[] storage reviewerVector = reviewerVectors[last + 1];
+            uint256 cost = paperVector.length > reviewerVector.length ? paperVector.length : reviewerVector.length;
+            if (buckets != 0 && buckets + cost > MATCH_BATCH_BUCKETS) break;
+            buckets += cost;
+            last += 1;
+
+            euint16 similarity = _similarity(paperVector, reviewerVector);
+            euint32 score = _scoreReviewer(paper, conflicts, encryptedReviewers[last], similarity);
+            AvailabilityWindow storage window = availabilityWindows[last];
+            if (window.encrypted) {
+                score = _withinWindow(window, score);
+            }
+            _insertIntoTopK(state, score, FHE.asEuint32(uint32(last)));
+        }
+
+        for (uint256 i = 0; i < k; i++) {
+            FHE.allowThis(state.topScores[i]);
+            FHE.allowThis(state.topReviewerIds[i]);
+        }
+
+        state.nextReviewerId = last + 1;
+        emit MatchingProgress(paperId, last);
+
+        if (last == reviewerCount) {
+            state.active = false;
+            bytes32[] memory ciphertexts = new bytes32[](k);
+            for (uint256 i = 0; i < k; i++) {
+                ciphertexts[i] = FHE.toBytes32(state.topReviewerIds[i]);
+            }
+            uint256 reqId = FHE.requestDecryption(ciphertexts, this.processMatching.selector);
+            requestToPaperId[reqId] = paperId;
+            _recordDecryption(paperId, DecryptionKind.Matching, reqId);
+        }
+    }
+
+    /// @dev score = discipline match (see _disciplineScore) + vector similarity (capped) + publications (capped, only counted when
+    ///      the vectors overlap) - LOAD_PENALTY per review in progress, floored at zero. Forced to zero for a
+    ///      conflicted reviewer or one at maxConcurrentReviews, so neither can enter the top-k.
+    function _scoreReviewer(
+        EncryptedPaper storage paper,
+        ConflictList storage conflicts,
+        EncryptedReviewer storage reviewer,
+        euint16 similarity
+    ) private returns (euint32) {
+        euint32 zero = FHE.asEuint32(0);
+
+        euint32 disciplineScore = _disciplineScore(paper.encryptedDiscipline, reviewer.encryptedDiscipline);
+
+        ebool overlaps = FHE.ne(similarity, 0);
+        euint32 keywordScore = FHE.min(FHE.asEuint32(similarity), SIMILARITY_CAP);
+
+        euint32 publications = FHE.min(reviewer.encryptedPublicationCount, PUBLICATION_CAP);
+        euint32 publicationScore = FHE.mul(FHE.asEuint32(overlaps), publications);
+
+        euint32 score = FHE.add(FHE.add(disciplineScore, keywordScore), publicationScore);
+
+        euint32 load = reviewer.encryptedActiveReviews;
+        euint32 penalty = FHE.min(FHE.mul(load, LOAD_PENALTY), score);
+        score = FHE.select(FHE.ge(load, maxConcurrentReviews), zero, FHE.sub(score, penalty));
+
+        if (conflicts.affiliations.length == 0 && conflicts.scholarIds.length == 0) {
+            return score;
+        }
+        return FHE.select(_isConflicted(conflicts, reviewer), zero, score);
+    }
+
+    /// @dev Full weight for the same discipline, partial weight when they share a top-level field: more
+    ///      when one of them is that field, less for two different subfields of it.
+    function _disciplineScore(euint32 a, euint32 b) private returns (euint32) {
+        ebool sameField = FHE.eq(FHE.and(a, DISCIPLINE_FIELD_MASK), FHE.and(b, DISCIPLINE_FIELD_MASK));
+        ebool eitherIsField = FHE.or(FHE.le(a, DISCIPLINE_FIELD_MASK), FHE.le(b, DISCIPLINE_FIELD_MASK));
+        euint32 related = FHE.select(
+            eitherIsField,
+            FHE.asEuint32(PARENT_DISCIPLINE_WEIGHT),
+            FHE.asEuint32(SIBLING_DISCIPLINE_WEIGHT)
+        );
+        related = FHE.select(sameField, related, FHE.asEuint32(0));
+        return FHE.select(FHE.eq(a, b), FHE.asEuint32(DISCIPLINE_WEIGHT), related);
+    }
+
+    /// @dev Dot product of two bucket vectors. The longer one is folded onto the shorter, which is exact
+    ///      because both lengths are powers of two (see addProfileVersion). Products are summed pairwise
+    ///      to keep the dependency chain, and with it the HCU depth, logarithmic in the length.
+    function _similarity(euint8[] storage a, euint8[] storage b) private returns (euint16) {
+        uint256 dims = a.length < b.length ? a.length : b.length;
+        euint16[] memory products = new euint16[](dims);
+        for (uint256 i = 0; i < dims; i++) {
+            products[i] = FHE.asEuint16(FHE.mul(_foldedBucket(a, i, dims), _foldedBucket(b, i, dims)));
+        }
+        for (uint256 width = dims; width > 1; width /= 2) {
+            uint256 half = width / 2;
+            for (uint256 i = 0; i < half; i++) {
+                products[i] = FHE.add(products[i], products[i + half]);
+            }
+        }
+        return products[0];
+    }
+
+    /// @dev Sum of the buckets congruent to i modulo dims, clamped like a stored bucket. At most
+    ///      MAX_PROFILE_DIMENSIONS / MIN_PROFILE_DIMENSIONS weights are added, so the euint8 sum cannot wrap.
+    function _foldedBucket(euint8[] storage vector, uint256 i, uint256 dims) private returns (euint8) {
+        if (vector.length == dims) return vector[i];
+        euint8 sum = vector[i];
+        for (uint256 j = i + dims; j < vector.length; j += dims) {
+            sum = FHE.add(sum, vector[j]);
+        }
+        return FHE.min(sum, MAX_BUCKET_WEIGHT);
+    }
+
+    /// @dev Encrypted OR over every declared affiliation and scholar id. Clients refuse to declare zero,
+    ///      which reviewer profiles use for "not provided", so an unknown field never counts as a conflict.
+    function _isConflicted(
+        ConflictList storage conflicts,
+        EncryptedReviewer storage reviewer
+    ) private returns (ebool conflicted) {
+        conflicted = FHE.asEbool(false);
+        for (uint256 i = 0; i < conflicts.affiliations.length; i++) {
+            conflicted = FHE.or(conflicted, FHE.eq(conflicts.affiliations[i], reviewer.encryptedAffiliation));
+        }
+        for (uint256 i = 0; i < conflicts.scholarIds.length; i++) {
+            conflicted = FHE.or(conflicted, FHE.eq(conflicts.scholarIds[i], reviewer.encryptedScholarId));
+        }
+        return conflicted;
+    }
+
+    /// @dev Insertion into the descending top-k. A strict comparison keeps the earlier
+    ///      (lower id) reviewer ahead on ties, so rankings are stable across batches.
+    function _insertIntoTopK(MatchingState storage state, euint32 score, euint32 reviewerId) private {
+        euint32 carryScore = score;
+        euint32 carryId = reviewerId;
+        for (uint256 i = 0; i < state.k; i++) {
+            ebool better = FHE.gt(carryScore, state.topScores[i]);
+            euint32 slotScore = FHE.select(better, carryScore, state.topScores[i]);
+            euint32 slotId = FHE.select(better, carryId, state.topReviewerIds[i]);
+            carryScore = FHE.select(better, state.topScores[i], carryScore);
+            carryId = FHE.select(better, state.topReviewerIds[i], carryId);
+            state.topScores[i] = slotScore;
+            state.topReviewerIds[i] = slotId;
+        }
     }
 
-    // Simplified matching algorithm (in real implementation would use FHE operations)
-    function findBestMatch(string[] memory paperData) private view returns (uint256) {
-        // This is a placeholder - actual implementation would compare encrypted attributes
-        if (reviewerCount > 0) {
-            return 1; // Return first reviewer as dummy match
+    /// @dev Reads the index-th 32-byte word of ABI-encoded decryption cleartexts
+    function _decodeWord(bytes memory cleartexts, uint256 index) private pure returns (uint256 word) {
+        require(cleartexts.length >= (index + 1) * 32, "Malformed cleartexts");
+        assembly {
+            word := mload(add(cleartexts, add(32, mul(index, 32))))
         }
-        revert("No reviewers available");
     }
-}
\ No newline at end of file
+}
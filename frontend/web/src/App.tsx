@@ -1,8 +1,33 @@
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  getActiveChainId,
+  getActivityFeed,
+  getContractReadOnly,
+  getContractWithSigner,
+  getReviewerRecClientReadOnly,
+  getReviewerRecIndexer,
+  onActiveChainChange,
+  setActiveChain,
+  transactions,
+  txErrorMessage
+} from "./contract";
+import type { Activity } from "./activityFeed";
+import { Availability, ReviewerStatus } from "./reviewerRecClient";
+import type { ReviewerAvailability, Role, RoleSet } from "./reviewerRecClient";
+import { taxonomy } from "./taxonomy";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import Recommendations from "./components/Recommendations";
+import RoleManager, { ROLE_LABELS } from "./components/RoleManager";
+import InviteReviewerModal from "./components/InviteReviewerModal";
+import ReviewerInbox from "./components/ReviewerInbox";
+import MyReviewerProfile from "./components/MyReviewerProfile";
+import ActivityFeedPanel from "./components/ActivityFeedPanel";
+import SubmitManuscript from "./components/SubmitManuscript";
+import DisciplineSelect from "./components/DisciplineSelect";
+import NetworkSwitcher from "./components/NetworkSwitcher";
+import TransactionDrawer from "./components/TransactionDrawer";
 import "./App.css";
 
 interface Reviewer {
@@ -12,15 +37,53 @@ interface Reviewer {
   institution: string;
   rating: number;
   reviewCount: number;
-  availability: boolean;
+  /** null when the reviewer keeps their window encrypted; matching still honours it */
+  availability: boolean | null;
+  /** Seconds; 0 when unknown */
   lastActive: number;
+  /** Set for ReviewerRecFHE profiles; legacy adapter profiles cannot be invited */
+  onChainId?: bigint;
 }
 
+const FEED_LENGTH = 20;
+
+const AVAILABILITY_FLAGS: Record<Availability, boolean | null> = {
+  [Availability.Unavailable]: false,
+  [Availability.Available]: true,
+  [Availability.Sealed]: null
+};
+
+const withAvailability = (r: Reviewer, state: ReviewerAvailability): Reviewer => ({
+  ...r,
+  availability: AVAILABILITY_FLAGS[state.availability],
+  lastActive: Number(state.lastActiveAt)
+});
+
+// Profiles on ReviewerRecFHE are encrypted end to end, so only the id is shown in the clear.
+// A profile that was just registered is active with no window until its availability is fetched.
+const toOnChainReviewer = (reviewerId: bigint, transactionHash: string): Reviewer => ({
+  id: `fhe-${reviewerId}`,
+  onChainId: reviewerId,
+  // The registration transaction carries the ciphertext handles
+  encryptedProfile: transactionHash,
+  expertise: "Encrypted",
+  institution: "🔒 Affiliation sealed",
+  rating: 0,
+  reviewCount: 0,
+  availability: true,
+  lastActive: 0
+});
+
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
   const [reviewers, setReviewers] = useState<Reviewer[]>([]);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
+  // The raw EIP-1193 provider, for chain switch requests
+  const [wallet, setWallet] = useState<any>(null);
+  const [walletChainId, setWalletChainId] = useState<number | null>(null);
+  // Chain reads go to; follows the wallet whenever it is on a registered chain
+  const [chainId, setChainId] = useState(getActiveChainId);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
@@ -33,37 +96,119 @@ const App: React.FC = () => {
   const [availabilityFilter, setAvailabilityFilter] = useState("all");
   const [showTeamInfo, setShowTeamInfo] = useState(false);
   const [activeTab, setActiveTab] = useState("dashboard");
+  const [roles, setRoles] = useState<RoleSet | null>(null);
+  // Owners keep managing their profiles after REVIEWER_ROLE is revoked; only registering needs the role
+  const [ownsProfile, setOwnsProfile] = useState(false);
+  const [inviteTarget, setInviteTarget] = useState<bigint | null>(null);
+  const [activity, setActivity] = useState<Activity[]>([]);
 
   // Statistics for dashboard
   const totalReviewers = reviewers.length;
-  const availableCount = reviewers.filter(r => r.availability).length;
+  const availableCount = reviewers.filter(r => r.availability === true).length;
   const averageRating = totalReviewers > 0 
     ? reviewers.reduce((sum, r) => sum + r.rating, 0) / totalReviewers 
     : 0;
 
+  // ReviewerRecFHE profiles keep their discipline encrypted, so only legacy profiles can be filtered by it
+  const canFilterExpertise = reviewers.some(r => r.onChainId === undefined);
+  const activeExpertiseFilter = canFilterExpertise ? expertiseFilter : "all";
+
   // Filter reviewers based on search and filters
   const filteredReviewers = reviewers.filter(reviewer => {
     const matchesSearch = reviewer.expertise.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          reviewer.institution.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesExpertise = expertiseFilter === "all" || reviewer.expertise === expertiseFilter;
+    // Picking a field also shows reviewers in its subfields
+    const matchesExpertise = activeExpertiseFilter === "all" || taxonomy.isWithin(reviewer.expertise, activeExpertiseFilter);
     const matchesAvailability = availabilityFilter === "all" || 
-                              (availabilityFilter === "available" && reviewer.availability) ||
-                              (availabilityFilter === "unavailable" && !reviewer.availability);
+                              (availabilityFilter === "available" && reviewer.availability === true) ||
+                              (availabilityFilter === "unavailable" && reviewer.availability === false) ||
+                              (availabilityFilter === "sealed" && reviewer.availability === null);
     return matchesSearch && matchesExpertise && matchesAvailability;
   });
 
+  useEffect(() => onActiveChainChange(setChainId), []);
+
   useEffect(() => {
     loadReviewers().finally(() => setLoading(false));
-  }, []);
+  }, [chainId]);
+
+  // New reviewers are appended as their events arrive, so the list and stats stay current without reloading
+  useEffect(() => {
+    let unsubscribe = () => {};
+    let cancelled = false;
+    setActivity([]);
+    getActivityFeed().then(feed => {
+      if (!feed || cancelled) return;
+      unsubscribe = feed.subscribe(batch => {
+        setActivity(prev => [...batch].reverse().concat(prev).slice(0, FEED_LENGTH));
+        const added = batch.flatMap(a => (a.kind === "ReviewerAdded" ? [a] : []));
+        const deregistered = new Set(
+          batch.flatMap(a =>
+            a.kind === "ReviewerStatusChanged" && a.status === ReviewerStatus.Deregistered ? [a.reviewerId] : []
+          )
+        );
+        // Anything the owner does moves lastActive, and may move availability
+        const touched = [...new Set(batch.flatMap(a =>
+          a.kind === "ReviewerUpdated" ||
+          a.kind === "ReviewerStatusChanged" ||
+          a.kind === "AvailabilityChanged" ||
+          a.kind === "InvitationAnswered"
+            ? [a.reviewerId]
+            : []
+        ))].filter(id => !deregistered.has(id));
+        if (added.length === 0 && deregistered.size === 0 && touched.length === 0) return;
+        setReviewers(prev => {
+          const known = new Set(prev.map(r => r.id));
+          const fresh = added
+            .map(a => toOnChainReviewer(a.reviewerId, a.transactionHash))
+            .filter(r => !known.has(r.id));
+          return [...prev, ...fresh].filter(r => r.onChainId === undefined || !deregistered.has(r.onChainId));
+        });
+        if (touched.length > 0) refreshAvailability(touched);
+      });
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [chainId]);
+
+  // Roles gate which actions the UI offers; the contract enforces them regardless
+  useEffect(() => {
+    setRoles(null);
+    setOwnsProfile(false);
+    if (!account) return;
+    let cancelled = false;
+    getReviewerRecClientReadOnly()
+      .then(client => client && Promise.all([client.getRoles(account), client.getReviewerIds(account)]))
+      .then(loaded => {
+        if (cancelled || !loaded) return;
+        setRoles(loaded[0]);
+        setOwnsProfile(loaded[1].length > 0);
+      })
+      .catch(e => console.error("Error loading roles:", e));
+    return () => { cancelled = true; };
+  }, [account, chainId]);
+
+  const showReviewerTabs = !!roles?.reviewer || ownsProfile;
+
+  const followWallet = (id: number) => {
+    setWalletChainId(id);
+    setActiveChain(id);
+  };
 
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
       const web3Provider = new ethers.BrowserProvider(wallet.provider);
       setProvider(web3Provider);
+      setWallet(wallet.provider);
       const accounts = await web3Provider.send("eth_requestAccounts", []);
       const acc = accounts[0] || "";
       setAccount(acc);
+      followWallet(Number((await web3Provider.getNetwork()).chainId));
+
+      wallet.provider.on("chainChanged", (hexChainId: string) => followWallet(Number(hexChainId)));
 
       wallet.provider.on("accountsChanged", async (accounts: string[]) => {
         const newAcc = accounts[0] || "";
@@ -78,19 +223,62 @@ const App: React.FC = () => {
   const onDisconnect = () => {
     setAccount("");
     setProvider(null);
+    setWallet(null);
+    setWalletChainId(null);
   };
 
   const loadReviewers = async () => {
     setIsRefreshing(true);
+    try {
+      const [legacy, onChain] = await Promise.all([loadLegacyReviewers(), loadOnChainReviewers()]);
+      setReviewers([...legacy, ...onChain]);
+    } catch (e) {
+      console.error("Error loading reviewers:", e);
+    } finally {
+      setIsRefreshing(false);
+      setLoading(false);
+    }
+  };
+
+  // Ids come from the local event index, which costs one catch-up query instead of one RPC per reviewer;
+  // availability depends on the clock, so it is read from the contract in a single batched call
+  const loadOnChainReviewers = async (): Promise<Reviewer[]> => {
+    const [indexer, client] = await Promise.all([getReviewerRecIndexer(), getReviewerRecClientReadOnly()]);
+    if (!indexer || !client) return [];
+    await indexer.sync();
+    const statuses = await indexer.reviewerStatuses();
+    const registered = (await indexer.reviewers())
+      .filter(({ reviewerId }) => statuses.get(reviewerId) !== ReviewerStatus.Deregistered);
+    const states = await client.getReviewerAvailability(registered.map(r => r.reviewerId));
+    return registered.map(({ reviewerId, transactionHash }, i) =>
+      withAvailability(toOnChainReviewer(reviewerId, transactionHash), states[i])
+    );
+  };
+
+  const refreshAvailability = async (reviewerIds: bigint[]) => {
+    try {
+      const client = await getReviewerRecClientReadOnly();
+      if (!client) return;
+      const states = new Map((await client.getReviewerAvailability(reviewerIds)).map(s => [s.reviewerId, s]));
+      setReviewers(prev => prev.map(r => {
+        const state = r.onChainId === undefined ? undefined : states.get(r.onChainId);
+        return state ? withAvailability(r, state) : r;
+      }));
+    } catch (e) {
+      console.error("Error refreshing reviewer availability:", e);
+    }
+  };
+
+  const loadLegacyReviewers = async (): Promise<Reviewer[]> => {
     try {
       const contract = await getContractReadOnly();
-      if (!contract) return;
+      if (!contract) return [];
       
       // Check contract availability using FHE
       const isAvailable = await contract.isAvailable();
       if (!isAvailable) {
         console.error("Contract is not available");
-        return;
+        return [];
       }
       
       const keysBytes = await contract.getData("reviewer_keys");
@@ -131,12 +319,10 @@ const App: React.FC = () => {
         }
       }
       
-      setReviewers(list);
+      return list;
     } catch (e) {
-      console.error("Error loading reviewers:", e);
-    } finally {
-      setIsRefreshing(false);
-      setLoading(false);
+      console.error("Error loading legacy reviewers:", e);
+      return [];
     }
   };
 
@@ -159,7 +345,7 @@ const App: React.FC = () => {
       }
       
       const reviewerId = `rev-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
-      const expertiseOptions = ["AI", "Cryptography", "Biology", "Physics", "Mathematics", "Computer Science"];
+      const expertiseOptions = taxonomy.fields.flatMap(f => [f, ...taxonomy.children(f.id)]).map(d => d.name);
       const institutionOptions = ["MIT", "Stanford", "Harvard", "Cambridge", "ETH Zurich", "NUS"];
       
       const reviewerData = {
@@ -168,14 +354,14 @@ const App: React.FC = () => {
         institution: institutionOptions[Math.floor(Math.random() * institutionOptions.length)],
         rating: Math.random() * 2 + 3, // Random rating between 3-5
         reviewCount: Math.floor(Math.random() * 50) + 5,
-        availability: Math.random() > 0.3,
-        lastActive: Math.floor(Date.now() / 1000) - Math.floor(Math.random() * 2592000) // Up to 30 days ago
+        availability: true,
+        lastActive: Math.floor(Date.now() / 1000)
       };
       
       // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `reviewer_${reviewerId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(reviewerData))
+      await transactions.track(
+        await contract.setData(`reviewer_${reviewerId}`, ethers.toUtf8Bytes(JSON.stringify(reviewerData))),
+        { label: "Store sample reviewer", iface: contract.interface }
       );
       
       const keysBytes = await contract.getData("reviewer_keys");
@@ -191,9 +377,9 @@ const App: React.FC = () => {
       
       keys.push(reviewerId);
       
-      await contract.setData(
-        "reviewer_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
+      await transactions.track(
+        await contract.setData("reviewer_keys", ethers.toUtf8Bytes(JSON.stringify(keys))),
+        { label: "Update reviewer index", iface: contract.interface }
       );
       
       setTransactionStatus({
@@ -208,14 +394,10 @@ const App: React.FC = () => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
-        ? "Transaction rejected by user"
-        : "Submission failed: " + (e.message || "Unknown error");
-      
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: errorMessage
+        message: txErrorMessage(e, "Submission")
       });
       
       setTimeout(() => {
@@ -224,6 +406,15 @@ const App: React.FC = () => {
     }
   };
 
+  const showStatus = (status: "pending" | "success" | "error", message: string) => {
+    setTransactionStatus({ visible: true, status, message });
+    if (status !== "pending") {
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, status === "success" ? 2000 : 3000);
+    }
+  };
+
   const checkAvailability = async () => {
     try {
       const contract = await getContractReadOnly();
@@ -325,6 +516,11 @@ const App: React.FC = () => {
           >
             Add Sample Reviewer
           </button>
+          {roles && (Object.keys(roles) as Role[]).filter(r => roles[r]).map(r => (
+            <span key={r} className="fhe-badge">{ROLE_LABELS[r]}</span>
+          ))}
+          <NetworkSwitcher walletChainId={walletChainId} wallet={wallet} onStatus={showStatus} />
+          <TransactionDrawer />
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
@@ -347,6 +543,49 @@ const App: React.FC = () => {
               <span className="nav-icon">👥</span>
               Reviewers
             </button>
+            <button 
+              className={`nav-item ${activeTab === "recommendations" ? "active" : ""}`}
+              onClick={() => setActiveTab("recommendations")}
+            >
+              <span className="nav-icon">🎯</span>
+              Recommendations
+            </button>
+            {roles?.author && (
+              <button 
+                className={`nav-item ${activeTab === "submit" ? "active" : ""}`}
+                onClick={() => setActiveTab("submit")}
+              >
+                <span className="nav-icon">📝</span>
+                Submit Manuscript
+              </button>
+            )}
+            {showReviewerTabs && (
+              <button 
+                className={`nav-item ${activeTab === "inbox" ? "active" : ""}`}
+                onClick={() => setActiveTab("inbox")}
+              >
+                <span className="nav-icon">📬</span>
+                Inbox
+              </button>
+            )}
+            {showReviewerTabs && (
+              <button 
+                className={`nav-item ${activeTab === "profile" ? "active" : ""}`}
+                onClick={() => setActiveTab("profile")}
+              >
+                <span className="nav-icon">🪪</span>
+                My Reviewer Profile
+              </button>
+            )}
+            {roles?.admin && (
+              <button 
+                className={`nav-item ${activeTab === "roles" ? "active" : ""}`}
+                onClick={() => setActiveTab("roles")}
+              >
+                <span className="nav-icon">🛡️</span>
+                Roles
+              </button>
+            )}
             <button 
               className={`nav-item ${activeTab === "about" ? "active" : ""}`}
               onClick={() => setActiveTab("about")}
@@ -371,7 +610,8 @@ const App: React.FC = () => {
         </nav>
         
         {/* Main Content Area */}
-        <main className="content-area">
+        {/* Keyed by chain so every tab reloads from the new chain after a switch */}
+        <main className="content-area" key={chainId}>
           {/* Dashboard Tab */}
           {activeTab === "dashboard" && (
             <div className="dashboard-panel">
@@ -422,6 +662,8 @@ const App: React.FC = () => {
                   {renderRatingChart()}
                 </div>
                 
+                <ActivityFeedPanel activity={activity} />
+
                 <div className="chart-card">
                   <h3>Expertise Areas</h3>
                   <div className="expertise-tags">
@@ -450,16 +692,15 @@ const App: React.FC = () => {
                     />
                   </div>
                   
-                  <select 
-                    value={expertiseFilter}
-                    onChange={(e) => setExpertiseFilter(e.target.value)}
-                    className="cyber-select"
-                  >
-                    <option value="all">All Expertise</option>
-                    {Array.from(new Set(reviewers.map(r => r.expertise))).map(expertise => (
-                      <option key={expertise} value={expertise}>{expertise}</option>
-                    ))}
-                  </select>
+                  <DisciplineSelect
+                    value={activeExpertiseFilter}
+                    onChange={setExpertiseFilter}
+                    allLabel="All Expertise"
+                    disabled={!canFilterExpertise}
+                    title={canFilterExpertise
+                      ? "Encrypted profiles are hidden while filtering by expertise"
+                      : "Expertise is encrypted on every listed profile"}
+                  />
                   
                   <select 
                     value={availabilityFilter}
@@ -469,15 +710,10 @@ const App: React.FC = () => {
                     <option value="all">All Status</option>
                     <option value="available">Available</option>
                     <option value="unavailable">Unavailable</option>
+                    <option value="sealed">Sealed window</option>
                   </select>
                   
-                  <button 
-                    onClick={loadReviewers}
-                    className="cyber-button neon-blue"
-                    disabled={isRefreshing}
-                  >
-                    {isRefreshing ? "🔄" : "Refresh"}
-                  </button>
+                  <span className="live-indicator">{isRefreshing ? "🔄 Syncing" : "● Live"}</span>
                 </div>
               </div>
               
@@ -504,7 +740,12 @@ const App: React.FC = () => {
                           <h3>{reviewer.expertise} Expert</h3>
                           <p>{reviewer.institution}</p>
                         </div>
-                        <div className={`availability-dot ${reviewer.availability ? "available" : "unavailable"}`}></div>
+                        <div
+                          className={`availability-dot ${
+                            reviewer.availability === null ? "sealed" : reviewer.availability ? "available" : "unavailable"
+                          }`}
+                          title={reviewer.availability === null ? "Availability window is encrypted" : undefined}
+                        ></div>
                       </div>
                       
                       <div className="card-body">
@@ -515,13 +756,25 @@ const App: React.FC = () => {
                         <div className="review-count">
                           {reviewer.reviewCount} reviews completed
                         </div>
+                        {reviewer.lastActive > 0 && (
+                          <div className="review-count">
+                            Last active {new Date(reviewer.lastActive * 1000).toLocaleDateString()}
+                          </div>
+                        )}
                         <div className="encrypted-badge">
                           🔒 FHE-Encrypted Profile
                         </div>
                       </div>
                       
                       <div className="card-footer">
-                        <button className="cyber-button small">Request Review</button>
+                        <button
+                          className="cyber-button small"
+                          onClick={() => reviewer.onChainId && setInviteTarget(reviewer.onChainId)}
+                          disabled={!reviewer.onChainId || !roles?.editor}
+                          title={reviewer.onChainId ? undefined : "Legacy profiles cannot receive encrypted invitations"}
+                        >
+                          Request Review
+                        </button>
                         <button className="cyber-button small outline">View Details</button>
                       </div>
                     </div>
@@ -531,6 +784,31 @@ const App: React.FC = () => {
             </div>
           )}
           
+          {/* Recommendations Tab */}
+          {activeTab === "recommendations" && (
+            <Recommendations account={account} roles={roles} onStatus={showStatus} />
+          )}
+          
+          {/* Submission Tab */}
+          {activeTab === "submit" && roles?.author && (
+            <SubmitManuscript onStatus={showStatus} />
+          )}
+          
+          {/* Inbox Tab */}
+          {activeTab === "inbox" && showReviewerTabs && (
+            <ReviewerInbox account={account} onStatus={showStatus} />
+          )}
+          
+          {/* Profile Tab */}
+          {activeTab === "profile" && showReviewerTabs && (
+            <MyReviewerProfile account={account} canRegister={!!roles?.reviewer} onStatus={showStatus} />
+          )}
+          
+          {/* Roles Tab */}
+          {activeTab === "roles" && roles?.admin && (
+            <RoleManager onStatus={showStatus} />
+          )}
+          
           {/* About Tab */}
           {activeTab === "about" && (
             <div className="about-panel">
@@ -610,6 +888,15 @@ const App: React.FC = () => {
         </div>
       )}
       
+      {inviteTarget !== null && (
+        <InviteReviewerModal
+          reviewerId={inviteTarget}
+          account={account}
+          onClose={() => setInviteTarget(null)}
+          onStatus={showStatus}
+        />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
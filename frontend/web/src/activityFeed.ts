@@ -0,0 +1,153 @@
+// activityFeed.ts
+import { SocketProvider } from "ethers";
+import type { Provider } from "ethers";
+import type {
+  AvailabilityChangedEvent,
+  InvitationAnsweredEvent,
+  MatchRevealedEvent,
+  MatchingCompletedEvent,
+  PaperStatusChangedEvent,
+  PaperSubmittedEvent,
+  ReviewerAddedEvent,
+  ReviewerInvitedEvent,
+  ReviewerRecClient,
+  ReviewerStatusChangedEvent,
+  ReviewerUpdatedEvent
+} from "./reviewerRecClient";
+
+export type Activity =
+  | ({ kind: "PaperSubmitted" } & PaperSubmittedEvent)
+  | ({ kind: "ReviewerAdded" } & ReviewerAddedEvent)
+  | ({ kind: "ReviewerUpdated" } & ReviewerUpdatedEvent)
+  | ({ kind: "ReviewerStatusChanged" } & ReviewerStatusChangedEvent)
+  | ({ kind: "AvailabilityChanged" } & AvailabilityChangedEvent)
+  | ({ kind: "MatchingCompleted" } & MatchingCompletedEvent)
+  | ({ kind: "MatchRevealed" } & MatchRevealedEvent)
+  | ({ kind: "ReviewerInvited" } & ReviewerInvitedEvent)
+  | ({ kind: "InvitationAnswered" } & InvitationAnsweredEvent)
+  | ({ kind: "PaperStatusChanged" } & PaperStatusChangedEvent);
+
+export type ActivityListener = (activity: Activity[]) => void;
+
+export interface ActivityFeedOptions {
+  /** "subscribe" needs a websocket provider; by default it is used whenever one is connected */
+  mode?: "subscribe" | "poll";
+  /** Milliseconds between log queries in poll mode. Defaults to 15000. */
+  pollInterval?: number;
+  /** Replay activity from this block on the first check; by default only new activity is reported */
+  fromBlock?: number;
+}
+
+/**
+ * Pushes contract activity to subscribers in chain order. Over a websocket the
+ * typechain `on()` listeners wake the feed as soon as a log arrives; over plain
+ * HTTP, where many public RPCs drop the filters `on()` relies on, the same
+ * range query runs on a timer instead. Either way a cursor makes sure every log
+ * is delivered exactly once, even if several arrive in one block.
+ */
+export class ActivityFeed {
+  readonly mode: "subscribe" | "poll";
+  private readonly pollInterval: number;
+  private nextBlock: number | undefined;
+  private readonly listeners = new Set<ActivityListener>();
+  private stopWatching: (() => void) | null = null;
+  private checking: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly client: ReviewerRecClient, options: ActivityFeedOptions = {}) {
+    this.mode = options.mode ?? (this.provider() instanceof SocketProvider ? "subscribe" : "poll");
+    this.pollInterval = options.pollInterval ?? 15000;
+    this.nextBlock = options.fromBlock;
+  }
+
+  /** Watching starts with the first subscriber and stops after the last one leaves. */
+  subscribe(listener: ActivityListener): () => void {
+    this.listeners.add(listener);
+    if (!this.stopWatching) this.stopWatching = this.watch();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.stopWatching) {
+        this.stopWatching();
+        this.stopWatching = null;
+      }
+    };
+  }
+
+  /** Fetches activity mined since the previous check and hands it to every subscriber. */
+  check(): Promise<Activity[]> {
+    const run = this.checking.then(() => this.fetchNew());
+    this.checking = run.catch(() => undefined);
+    return run;
+  }
+
+  private provider(): Provider {
+    const provider = this.client.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("ActivityFeed needs a client connected to a provider");
+    }
+    return provider;
+  }
+
+  private watch(): () => void {
+    const wake = () => {
+      this.check().catch(e => console.error("Error checking contract activity:", e));
+    };
+    wake();
+
+    if (this.mode === "poll") {
+      const timer = setInterval(wake, this.pollInterval);
+      return () => clearInterval(timer);
+    }
+
+    const { contract } = this.client;
+    const filters = [
+      contract.filters.PaperSubmitted(),
+      contract.filters.ReviewerAdded(),
+      contract.filters.ReviewerUpdated(),
+      contract.filters.ReviewerStatusChanged(),
+      contract.filters.AvailabilityChanged(),
+      contract.filters.MatchingCompleted(),
+      contract.filters.MatchRevealed(),
+      contract.filters.ReviewerInvited(),
+      contract.filters.InvitationAnswered(),
+      contract.filters.PaperStatusChanged()
+    ];
+    for (const filter of filters) contract.on(filter, wake);
+    return () => {
+      for (const filter of filters) contract.off(filter, wake);
+    };
+  }
+
+  private async fetchNew(): Promise<Activity[]> {
+    const latest = await this.provider().getBlockNumber();
+    if (this.nextBlock === undefined) {
+      this.nextBlock = latest + 1;
+      return [];
+    }
+    if (this.nextBlock > latest) return [];
+
+    const from = this.nextBlock;
+    const c = this.client;
+    const groups = await Promise.all([
+      c.queryPaperSubmitted(from, latest).then(l => l.map(e => ({ kind: "PaperSubmitted" as const, ...e }))),
+      c.queryReviewerAdded(from, latest).then(l => l.map(e => ({ kind: "ReviewerAdded" as const, ...e }))),
+      c.queryReviewerUpdated(from, latest).then(l => l.map(e => ({ kind: "ReviewerUpdated" as const, ...e }))),
+      c.queryReviewerStatusChanged(from, latest).then(l => l.map(e => ({ kind: "ReviewerStatusChanged" as const, ...e }))),
+      c.queryAvailabilityChanged(from, latest).then(l => l.map(e => ({ kind: "AvailabilityChanged" as const, ...e }))),
+      c.queryMatchingCompleted(from, latest).then(l => l.map(e => ({ kind: "MatchingCompleted" as const, ...e }))),
+      c.queryMatchRevealed(from, latest).then(l => l.map(e => ({ kind: "MatchRevealed" as const, ...e }))),
+      c.queryReviewerInvited(from, latest).then(l => l.map(e => ({ kind: "ReviewerInvited" as const, ...e }))),
+      c.queryInvitationAnswered(from, latest).then(l => l.map(e => ({ kind: "InvitationAnswered" as const, ...e }))),
+      c.queryPaperStatusChanged(undefined, from, latest).then(l =>
+        l.map(e => ({ kind: "PaperStatusChanged" as const, ...e }))
+      )
+    ]);
+    this.nextBlock = latest + 1;
+
+    const activity: Activity[] = groups.flat();
+    activity.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    if (activity.length > 0) {
+      for (const listener of this.listeners) listener(activity);
+    }
+    return activity;
+  }
+}
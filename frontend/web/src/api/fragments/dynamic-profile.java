@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\api\fragments\dynamic-profile.java
-// Generated at: 2025-10-16T06:41:25.404Z
\ No newline at end of file
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\api\fragments\endpoint-factory-mock.rs
-// Generated at: 2025-10-16T06:41:25.403Z
\ No newline at end of file
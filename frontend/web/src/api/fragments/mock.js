@@ -1,3 +0,0 @@
-import { ethers } from 'ethers';
-
-export default function advanced-service() { return <div>Component</div>; }
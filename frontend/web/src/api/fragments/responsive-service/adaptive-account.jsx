@@ -1,3 +0,0 @@
-import React from 'react';
-
-export default function router-ape() { return <div>Component</div>; }
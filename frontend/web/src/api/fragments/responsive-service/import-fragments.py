@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\api\fragments\responsive-service\import-fragments.py
-// Generated at: 2025-10-16T06:41:25.406Z
\ No newline at end of file
@@ -1,3 +0,0 @@
-import { ethers } from 'ethers';
-
-export const manager-user-main = () => { return null; };
@@ -0,0 +1,54 @@
+import React from "react";
+import type { Activity } from "../activityFeed";
+import { REVIEWER_STATUS_LABELS } from "./MyReviewerProfile";
+import { PAPER_STATUS_LABELS } from "./PaperTimeline";
+
+interface ActivityFeedPanelProps {
+  /** Newest first */
+  activity: Activity[];
+}
+
+export function describeActivity(a: Activity): string {
+  switch (a.kind) {
+    case "PaperSubmitted":
+      return `📄 Paper #${a.paperId} submitted`;
+    case "ReviewerAdded":
+      return `👤 Reviewer #${a.reviewerId} joined the pool`;
+    case "ReviewerUpdated":
+      return `✏️ Reviewer #${a.reviewerId} updated their profile`;
+    case "ReviewerStatusChanged":
+      return `${REVIEWER_STATUS_LABELS[a.status]}: reviewer #${a.reviewerId}`;
+    case "AvailabilityChanged":
+      return `🗓️ Reviewer #${a.reviewerId} ${a.encrypted ? "sealed their" : "published their"} availability`;
+    case "MatchingCompleted":
+      return `🧮 Paper #${a.paperId} ranked ${a.matchCount} candidates`;
+    case "MatchRevealed":
+      return `🔓 Rank ${a.rank + 1} of paper #${a.paperId} revealed`;
+    case "ReviewerInvited":
+      return `✉️ Reviewer #${a.reviewerId} invited to paper #${a.paperId}`;
+    case "InvitationAnswered":
+      return `${a.accepted ? "✅" : "❌"} Reviewer #${a.reviewerId} ${a.accepted ? "accepted" : "declined"} paper #${a.paperId}`;
+    case "PaperStatusChanged":
+      return `📌 Paper #${a.paperId} is now ${PAPER_STATUS_LABELS[a.status].toLowerCase()}`;
+  }
+}
+
+export default function ActivityFeedPanel({ activity }: ActivityFeedPanelProps) {
+  return (
+    <div className="chart-card">
+      <h3>Recent Activity <span className="live-indicator">● Live</span></h3>
+      {activity.length === 0 ? (
+        <p>Waiting for on-chain activity…</p>
+      ) : (
+        <div className="activity-feed">
+          {activity.map(a => (
+            <div key={`${a.transactionHash}-${a.logIndex}`} className="activity-item">
+              <span>{describeActivity(a)}</span>
+              <span className="activity-block">block {a.blockNumber}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
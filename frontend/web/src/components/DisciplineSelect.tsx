@@ -0,0 +1,30 @@
+import React from "react";
+import { taxonomy } from "../taxonomy";
+
+interface DisciplineSelectProps {
+  /** Taxonomy id of the selection, or "all" when `allLabel` is set */
+  value: string;
+  onChange: (id: string) => void;
+  /** Adds an "all" option with this label, for filters */
+  allLabel?: string;
+  disabled?: boolean;
+  /** Tooltip, e.g. why the select is disabled */
+  title?: string;
+}
+
+/** Disciplines grouped by top-level field; the field itself is the first option of its group. */
+export default function DisciplineSelect({ value, onChange, allLabel, disabled, title }: DisciplineSelectProps) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className="cyber-select" disabled={disabled} title={title}>
+      {allLabel && <option value="all">{allLabel}</option>}
+      {taxonomy.fields.map(field => (
+        <optgroup key={field.id} label={field.name}>
+          <option value={field.id}>{field.name}{allLabel ? " (all)" : ""}</option>
+          {taxonomy.children(field.id).map(d => (
+            <option key={d.id} value={d.id}>{d.name}</option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
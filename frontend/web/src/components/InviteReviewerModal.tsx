@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from "react";
+import { getReviewerRecClientReadOnly, getReviewerRecClientWithSigner, txErrorMessage } from "../contract";
+import { InvitationStatus } from "../reviewerRecClient";
+
+interface InviteReviewerModalProps {
+  reviewerId: bigint;
+  account: string;
+  onClose: () => void;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+interface CandidatePaper {
+  paperId: bigint;
+  rank: number;
+  status: InvitationStatus;
+}
+
+export const INVITATION_LABELS: Record<InvitationStatus, string> = {
+  [InvitationStatus.None]: "Not invited",
+  [InvitationStatus.Pending]: "⏳ Awaiting answer",
+  [InvitationStatus.Accepted]: "✅ Accepted",
+  [InvitationStatus.Declined]: "❌ Declined",
+  [InvitationStatus.Completed]: "📝 Review completed"
+};
+
+/**
+ * Lets the handling editor invite a reviewer to one of their papers. Only papers
+ * where the reviewer is in the current ranking are offered, since the contract
+ * refuses invitations to anyone else.
+ */
+export default function InviteReviewerModal({ reviewerId, account, onClose, onStatus }: InviteReviewerModalProps) {
+  const [papers, setPapers] = useState<CandidatePaper[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadCandidatePapers().finally(() => setLoading(false));
+  }, [reviewerId, account]);
+
+  const loadCandidatePapers = async () => {
+    try {
+      const client = await getReviewerRecClientReadOnly();
+      if (!client) return;
+      const count = await client.paperCount();
+      const list: CandidatePaper[] = [];
+      for (let paperId = 1n; paperId <= count; paperId++) {
+        const paper = await client.getPaper(paperId);
+        if (paper.editor.toLowerCase() !== account.toLowerCase()) continue;
+        const match = (await client.getMatches(paperId)).find(m => m.reviewerId === reviewerId);
+        if (!match) continue;
+        list.push({ paperId, rank: match.rank, status: await client.getInvitationStatus(paperId, reviewerId) });
+      }
+      setPapers(list);
+    } catch (e) {
+      console.error("Error loading papers for invitation:", e);
+    }
+  };
+
+  const invite = async (paperId: bigint) => {
+    onStatus("pending", `Inviting reviewer #${reviewerId} to paper #${paperId}...`);
+    try {
+      const client = await getReviewerRecClientWithSigner();
+      await client.inviteReviewer(paperId, reviewerId);
+      onStatus("success", "Invitation sent; the candidate's score stays sealed until they accept");
+      await loadCandidatePapers();
+    } catch (e: any) {
+      onStatus("error", txErrorMessage(e, "Invitation"));
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content neon-border">
+        <div className="modal-header">
+          <h2>Request Review from Reviewer #{reviewerId.toString()}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {loading ? (
+            <div className="cyber-spinner"></div>
+          ) : papers.length === 0 ? (
+            <p>This reviewer is not ranked for any paper you handle.</p>
+          ) : (
+            papers.map(({ paperId, rank, status }) => (
+              <div key={paperId.toString()} className="rating">
+                <span>Paper #{paperId.toString()}</span>
+                <span className="rating-value">rank {rank + 1}</span>
+                <span>{INVITATION_LABELS[status]}</span>
+                {status === InvitationStatus.None && (
+                  <button className="cyber-button small" onClick={() => invite(paperId)}>
+                    Invite
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
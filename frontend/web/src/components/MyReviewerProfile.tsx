@@ -0,0 +1,306 @@
+import React, { useEffect, useState } from "react";
+import { getReviewerRecClientReadOnly, getReviewerRecClientWithSigner, txErrorMessage } from "../contract";
+import { getBrowserEncryptor } from "../fhevm";
+import { AvailabilityWindow, EncryptedReviewer, ReviewerStatus } from "../reviewerRecClient";
+import { extractAvailabilityWindow, extractReviewerFeatures, extractReviewerProfile } from "../reviewerProfile";
+import type { AvailabilityDraft, ReviewerDraft } from "../reviewerProfile";
+import { taxonomy } from "../taxonomy";
+import DisciplineSelect from "./DisciplineSelect";
+
+interface MyReviewerProfileProps {
+  account: string;
+  /** Registering needs REVIEWER_ROLE; existing profiles stay the owner's to manage without it */
+  canRegister: boolean;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+export const REVIEWER_STATUS_LABELS: Record<ReviewerStatus, string> = {
+  [ReviewerStatus.Active]: "🟢 Active",
+  [ReviewerStatus.Paused]: "⏸️ Paused",
+  [ReviewerStatus.Deregistered]: "🗑️ Deregistered"
+};
+
+const EMPTY_DRAFT: ReviewerDraft = {
+  expertise: "",
+  discipline: taxonomy.fields[0].id,
+  affiliation: "",
+  scholarId: "",
+  publicationCount: "",
+  reviewCount: ""
+};
+
+const EMPTY_AVAILABILITY: AvailabilityDraft = { from: "", until: "" };
+
+const formatDay = (seconds: bigint) => new Date(Number(seconds) * 1000).toISOString().slice(0, 10);
+
+function describeWindow(w: AvailabilityWindow | undefined): string {
+  if (!w) return "Always";
+  if (w.encrypted) return "🔒 Sealed";
+  if (w.from === 0n && w.until === 0n) return "Always";
+  const from = w.from === 0n ? "now" : formatDay(w.from);
+  return w.until === 0n ? `From ${from}` : `${from} → ${formatDay(w.until)}`;
+}
+
+/**
+ * The scholar's own side of the reviewer pool: register a profile, replace its
+ * encrypted fields, pause it or retire it. Stored fields are ciphertexts, so the
+ * form never shows them; an update always sends the whole profile again.
+ */
+export default function MyReviewerProfile({ account, canRegister, onStatus }: MyReviewerProfileProps) {
+  const [profiles, setProfiles] = useState<EncryptedReviewer[]>([]);
+  const [windows, setWindows] = useState<Record<string, AvailabilityWindow>>({});
+  // null while registering a new profile
+  const [selectedId, setSelectedId] = useState<bigint | null>(null);
+  const [draft, setDraft] = useState<ReviewerDraft>(EMPTY_DRAFT);
+  const [availability, setAvailability] = useState<AvailabilityDraft>(EMPTY_AVAILABILITY);
+  const [sealWindow, setSealWindow] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (account) loadProfiles();
+  }, [account]);
+
+  const loadProfiles = async () => {
+    try {
+      const client = await getReviewerRecClientReadOnly();
+      if (!client) return;
+      const ids = await client.getReviewerIds(account);
+      const loaded = await Promise.all(ids.map(id => client.getReviewer(id)));
+      const loadedWindows = await Promise.all(ids.map(id => client.getAvailabilityWindow(id)));
+      setProfiles(loaded);
+      setWindows(Object.fromEntries(ids.map((id, i) => [id.toString(), loadedWindows[i]])));
+      setSelectedId(prev => {
+        if (prev !== null && loaded.some(p => p.id === prev && p.status !== ReviewerStatus.Deregistered)) return prev;
+        const current = [...loaded].reverse().find(p => p.status !== ReviewerStatus.Deregistered);
+        return current ? current.id : null;
+      });
+    } catch (e) {
+      console.error("Error loading reviewer profiles:", e);
+    }
+  };
+
+  const run = async (pending: string, success: string, action: () => Promise<unknown>) => {
+    setBusy(true);
+    onStatus("pending", pending);
+    try {
+      await action();
+      onStatus("success", success);
+      await loadProfiles();
+    } catch (e: any) {
+      onStatus("error", txErrorMessage(e, pending.replace(/\.+$/, "")));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = () =>
+    run(selectedId === null ? "Registering profile..." : "Updating profile...", "Profile saved", async () => {
+      const [client, encryptor] = await Promise.all([getReviewerRecClientWithSigner(), getBrowserEncryptor()]);
+      const dimensions = await client.profileDimensions();
+      if (selectedId === null) {
+        const { reviewerId } = await client.addReviewer(extractReviewerFeatures(draft, dimensions), encryptor);
+        setSelectedId(reviewerId);
+      } else {
+        await client.updateReviewer(selectedId, extractReviewerProfile(draft, dimensions), encryptor);
+      }
+      setDraft(EMPTY_DRAFT);
+    });
+
+  const setPaused = (profile: EncryptedReviewer, paused: boolean) =>
+    run(
+      paused ? "Pausing profile..." : "Resuming profile...",
+      paused ? "Paused; you will not be matched or invited" : "Active again",
+      async () => (await getReviewerRecClientWithSigner()).setReviewerPaused(profile.id, paused)
+    );
+
+  const saveAvailability = () => {
+    if (selectedId === null) return;
+    run(
+      sealWindow ? "Encrypting availability..." : "Publishing availability...",
+      "Availability saved; matching only considers you inside this window",
+      async () => {
+        const bounds = extractAvailabilityWindow(availability, sealWindow);
+        const client = await getReviewerRecClientWithSigner();
+        if (sealWindow) {
+          await client.setPrivateAvailability(selectedId, bounds, await getBrowserEncryptor());
+        } else {
+          await client.setAvailability(selectedId, bounds);
+        }
+        setAvailability(EMPTY_AVAILABILITY);
+      }
+    );
+  };
+
+  const deregister = (profile: EncryptedReviewer) => {
+    if (!window.confirm(`Deregister profile #${profile.id}? This cannot be undone.`)) return;
+    run("Deregistering profile...", `Profile #${profile.id} deregistered`, async () =>
+      (await getReviewerRecClientWithSigner()).deregisterReviewer(profile.id)
+    );
+  };
+
+  const edit = (field: keyof ReviewerDraft, value: string) => setDraft(prev => ({ ...prev, [field]: value }));
+
+  return (
+    <div className="reviewers-panel">
+      <div className="panel-header">
+        <h2>My Reviewer Profile</h2>
+        {canRegister && (
+          <div className="header-controls">
+            <button className="cyber-button small outline" onClick={() => setSelectedId(null)} disabled={busy}>
+              New Profile
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="reviewers-grid">
+        {profiles.map(profile => (
+          <div
+            key={profile.id.toString()}
+            className={`reviewer-card neon-border ${profile.id === selectedId ? "selected" : ""}`}
+          >
+            <div className="card-header">
+              <div className="reviewer-avatar">#{profile.id.toString()}</div>
+              <div className="reviewer-info">
+                <h3>Profile {profile.id.toString()}</h3>
+                <p>{REVIEWER_STATUS_LABELS[profile.status]}</p>
+              </div>
+            </div>
+            <div className="card-body">
+              <div className="rating">
+                <span>Last updated</span>
+                <span>{new Date(Number(profile.updatedAt) * 1000).toLocaleString()}</span>
+              </div>
+              <div className="rating">
+                <span>Last active</span>
+                <span>{new Date(Number(profile.lastActiveAt) * 1000).toLocaleString()}</span>
+              </div>
+              <div className="rating">
+                <span>Available</span>
+                <span>{describeWindow(windows[profile.id.toString()])}</span>
+              </div>
+              <div className="rating">
+                <span>Profile version</span>
+                <span>{profile.profileVersion}</span>
+              </div>
+              <div className="encrypted-badge">🔒 Fields encrypted</div>
+            </div>
+            {profile.status !== ReviewerStatus.Deregistered && (
+              <div className="card-footer">
+                <button className="cyber-button small" onClick={() => setSelectedId(profile.id)} disabled={busy}>
+                  Edit
+                </button>
+                <button
+                  className="cyber-button small outline"
+                  onClick={() => setPaused(profile, profile.status === ReviewerStatus.Active)}
+                  disabled={busy}
+                >
+                  {profile.status === ReviewerStatus.Active ? "Pause" : "Resume"}
+                </button>
+                <button className="cyber-button small outline" onClick={() => deregister(profile)} disabled={busy}>
+                  Deregister
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {selectedId === null && !canRegister ? (
+        <div className="reviewer-card neon-border">
+          <div className="card-body">
+            <p>Registering a new profile needs the reviewer role; the profiles above are still yours to edit, pause or deregister.</p>
+          </div>
+        </div>
+      ) : (
+        <div className="reviewer-card neon-border">
+          <div className="card-body submission-form">
+            <h3>{selectedId === null ? "Register a new profile" : `Replace profile #${selectedId}`}</h3>
+            <p>Fields are encrypted in this browser before they are sent; stored values cannot be shown here.</p>
+            <label>Expertise keywords</label>
+            <input
+              type="text"
+              placeholder="homomorphic encryption, lattices"
+              value={draft.expertise}
+              onChange={(e) => edit("expertise", e.target.value)}
+              className="cyber-input"
+            />
+            <label>Discipline</label>
+            <DisciplineSelect value={draft.discipline} onChange={(id) => edit("discipline", id)} />
+            <label>Affiliation code</label>
+            <input
+              type="text"
+              placeholder="12"
+              value={draft.affiliation}
+              onChange={(e) => edit("affiliation", e.target.value)}
+              className="cyber-input"
+            />
+            <label>Scholar id (optional)</label>
+            <input
+              type="text"
+              placeholder="1001"
+              value={draft.scholarId}
+              onChange={(e) => edit("scholarId", e.target.value)}
+              className="cyber-input"
+            />
+            <label>Publications</label>
+            <input
+              type="text"
+              value={draft.publicationCount}
+              onChange={(e) => edit("publicationCount", e.target.value)}
+              className="cyber-input"
+            />
+            {selectedId === null && (
+              <>
+                <label>Reviews completed so far (optional)</label>
+                <input
+                  type="text"
+                  value={draft.reviewCount}
+                  onChange={(e) => edit("reviewCount", e.target.value)}
+                  className="cyber-input"
+                />
+              </>
+            )}
+          </div>
+          <div className="card-footer">
+            <button className="cyber-button small" onClick={save} disabled={busy}>
+              {selectedId === null ? "Encrypt & Register" : "Encrypt & Update"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selectedId !== null && (
+        <div className="reviewer-card neon-border">
+          <div className="card-body submission-form">
+            <h3>Availability of profile #{selectedId.toString()}</h3>
+            <p>Outside this window you are not matched or invited. Days are in UTC; leave a date blank for no limit.</p>
+            <label>Available from</label>
+            <input
+              type="date"
+              value={availability.from}
+              onChange={(e) => setAvailability(prev => ({ ...prev, from: e.target.value }))}
+              className="cyber-input"
+            />
+            <label>Available until</label>
+            <input
+              type="date"
+              value={availability.until}
+              onChange={(e) => setAvailability(prev => ({ ...prev, until: e.target.value }))}
+              className="cyber-input"
+            />
+            <label>
+              <input type="checkbox" checked={sealWindow} onChange={(e) => setSealWindow(e.target.checked)} /> Keep
+              the dates private (editors only see "sealed")
+            </label>
+          </div>
+          <div className="card-footer">
+            <button className="cyber-button small" onClick={saveAvailability} disabled={busy}>
+              {sealWindow ? "Encrypt & Save Availability" : "Publish Availability"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
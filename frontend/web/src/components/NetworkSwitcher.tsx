@@ -0,0 +1,51 @@
+import React from "react";
+import { getActiveNetwork, networks, setActiveChain } from "../contract";
+import type { WalletRequester } from "../networks";
+
+interface NetworkSwitcherProps {
+  /** Chain the connected wallet is on; null before a wallet connects */
+  walletChainId: number | null;
+  wallet: WalletRequester | null;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+/**
+ * Shows the chain the app is on and offers every registered one. With a wallet
+ * the wallet is asked to switch and the app follows its `chainChanged` event;
+ * without one only the chain being read from changes.
+ */
+export default function NetworkSwitcher({ walletChainId, wallet, onStatus }: NetworkSwitcherProps) {
+  const current = walletChainId === null ? getActiveNetwork() : networks.byChainId(walletChainId);
+
+  const switchTo = async (name: string) => {
+    const target = networks.get(name);
+    if (!target) return;
+    if (!wallet) {
+      setActiveChain(target.chainId);
+      return;
+    }
+    try {
+      await networks.switchWallet(wallet, target);
+    } catch (e: any) {
+      onStatus("error", `Could not switch to ${target.label}: ${e?.message || "Unknown error"}`);
+    }
+  };
+
+  return (
+    <div className="network-switcher">
+      <select value={current?.name ?? ""} onChange={(e) => switchTo(e.target.value)} className="cyber-select">
+        {!current && <option value="">Unsupported chain {walletChainId}</option>}
+        {networks.all.map(n => (
+          <option key={n.name} value={n.name}>
+            {n.label}{networks.isDeployed(n.chainId) ? "" : " (not deployed)"}
+          </option>
+        ))}
+      </select>
+      {walletChainId !== null && !networks.isDeployed(walletChainId) && (
+        <span className="fhe-badge read-only" title="Transactions are refused until the wallet is on a chain with a deployment">
+          Read-only
+        </span>
+      )}
+    </div>
+  );
+}
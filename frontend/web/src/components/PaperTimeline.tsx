@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from "react";
+import { getReviewerRecClientReadOnly } from "../contract";
+import { PaperStatus } from "../reviewerRecClient";
+import type { PaperStatusChangedEvent } from "../reviewerRecClient";
+
+interface PaperTimelineProps {
+  paperId: bigint;
+  /** Current on-chain status; a change reloads the history */
+  status: PaperStatus;
+}
+
+export const PAPER_STATUS_LABELS: Record<PaperStatus, string> = {
+  [PaperStatus.Submitted]: "Submitted",
+  [PaperStatus.Matching]: "Matching",
+  [PaperStatus.ReviewersAssigned]: "Reviewers assigned",
+  [PaperStatus.UnderReview]: "Under review",
+  [PaperStatus.Decided]: "Decided",
+  [PaperStatus.Withdrawn]: "Withdrawn"
+};
+
+const HAPPY_PATH = [
+  PaperStatus.Submitted,
+  PaperStatus.Matching,
+  PaperStatus.ReviewersAssigned,
+  PaperStatus.UnderReview,
+  PaperStatus.Decided
+];
+
+const formatTime = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toLocaleString();
+
+/**
+ * One row per lifecycle stage with the time it was reached, read from the
+ * PaperStatusChanged events. A withdrawn paper stops at the stage it was in.
+ */
+export default function PaperTimeline({ paperId, status }: PaperTimelineProps) {
+  const [history, setHistory] = useState<PaperStatusChangedEvent[]>([]);
+
+  useEffect(() => {
+    getReviewerRecClientReadOnly().then(async client => {
+      if (client) setHistory(await client.queryPaperStatusChanged(paperId));
+    }).catch(e => console.error("Error loading paper timeline:", e));
+  }, [paperId, status]);
+
+  const reachedAt = new Map<PaperStatus, bigint>(history.map(e => [e.status, e.timestamp]));
+  const stages = status === PaperStatus.Withdrawn
+    ? [...HAPPY_PATH.filter(s => reachedAt.has(s)), PaperStatus.Withdrawn]
+    : HAPPY_PATH;
+
+  return (
+    <div className="paper-timeline">
+      {stages.map(stage => {
+        const at = reachedAt.get(stage);
+        const reached = at !== undefined;
+        return (
+          <div key={stage} className={`timeline-step${reached ? " reached" : ""}${stage === status ? " current" : ""}`}>
+            <span className="timeline-dot" />
+            <span>{PAPER_STATUS_LABELS[stage]}</span>
+            {reached && <span className="timeline-time">{formatTime(at)}</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import {
+  getActivityFeed,
+  getReviewerRecClientReadOnly,
+  getReviewerRecClientWithSigner,
+  getReviewerRecIndexer,
+  txErrorMessage
+} from "../contract";
+import { DecryptionKind, DecryptionStatus, InvitationStatus, PaperStatus } from "../reviewerRecClient";
+import type {
+  DecryptionRequest,
+  MatchingProgress,
+  RankedMatch,
+  ReviewerRecClient,
+  RoleSet,
+  TxResult
+} from "../reviewerRecClient";
+import { INVITATION_LABELS } from "./InviteReviewerModal";
+import PaperTimeline, { PAPER_STATUS_LABELS } from "./PaperTimeline";
+
+interface PaperRecommendations {
+  paperId: bigint;
+  author: string;
+  editor: string;
+  status: PaperStatus;
+  progress: MatchingProgress;
+  matches: RankedMatch[];
+  /** Consent state of each ranked candidate, by rank */
+  invitations: InvitationStatus[];
+  /** Latest matching and reveal requests sent to the decryption oracle */
+  decryptions: DecryptionRequest[];
+}
+
+interface RecommendationsProps {
+  account: string;
+  roles: RoleSet | null;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+const ORACLE_LABELS: Record<DecryptionKind, string> = {
+  [DecryptionKind.Matching]: "ranking",
+  [DecryptionKind.Reveal]: "score reveal"
+};
+
+/** One line per request the oracle has yet to answer, with the time it has been waiting. */
+function AwaitingOracle({ decryptions }: { decryptions: DecryptionRequest[] }) {
+  const pending = decryptions.filter(d => d.status === DecryptionStatus.Pending);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (pending.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pending.length]);
+
+  return (
+    <>
+      {pending.map(d => (
+        <div key={d.kind} className="oracle-pending">
+          <span>
+            ⏳ Awaiting oracle: {ORACLE_LABELS[d.kind]} · request #{d.requestId.toString()} ·{" "}
+            {Math.max(0, Math.floor(now / 1000) - d.requestedAt)}s
+          </span>
+          <div className="oracle-bar"></div>
+        </div>
+      ))}
+    </>
+  );
+}
+
+async function loadPaper(client: ReviewerRecClient, paperId: bigint): Promise<PaperRecommendations> {
+  const [paper, progress, matches, ...decryptions] = await Promise.all([
+    client.getPaper(paperId),
+    client.getMatchingProgress(paperId),
+    client.getMatches(paperId),
+    client.getDecryptionRequest(paperId, DecryptionKind.Matching),
+    client.getDecryptionRequest(paperId, DecryptionKind.Reveal)
+  ]);
+  const invitations = await Promise.all(
+    matches.map(m => client.getInvitationStatus(paperId, m.reviewerId))
+  );
+  return {
+    paperId,
+    author: paper.author,
+    editor: paper.editor,
+    status: paper.status,
+    progress,
+    matches,
+    invitations,
+    decryptions
+  };
+}
+
+export default function Recommendations({ account, roles, onStatus }: RecommendationsProps) {
+  const [papers, setPapers] = useState<PaperRecommendations[]>([]);
+  const [maxTopK, setMaxTopK] = useState(0);
+  const [k, setK] = useState(3);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadRecommendations();
+  }, []);
+
+  // Oracle callbacks and other users' actions arrive as events; only the papers they touch are re-read
+  useEffect(() => {
+    let unsubscribe = () => {};
+    getActivityFeed().then(feed => {
+      if (!feed) return;
+      unsubscribe = feed.subscribe(batch => {
+        const touched = new Set<bigint>();
+        for (const a of batch) {
+          if ("paperId" in a) touched.add(a.paperId);
+        }
+        touched.forEach(refreshPaper);
+      });
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const loadRecommendations = async () => {
+    setIsRefreshing(true);
+    try {
+      const [client, indexer] = await Promise.all([getReviewerRecClientReadOnly(), getReviewerRecIndexer()]);
+      if (!client || !indexer) return;
+
+      setMaxTopK(await client.maxTopK());
+      await indexer.sync();
+      const paperIds = (await indexer.papers()).map(p => p.paperId).reverse();
+      const list: PaperRecommendations[] = [];
+      for (const paperId of paperIds) {
+        list.push(await loadPaper(client, paperId));
+      }
+      setPapers(list);
+    } catch (e) {
+      console.error("Error loading recommendations:", e);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const refreshPaper = async (paperId: bigint) => {
+    try {
+      const client = await getReviewerRecClientReadOnly();
+      if (!client) return;
+      const updated = await loadPaper(client, paperId);
+      setPapers(prev =>
+        prev.some(p => p.paperId === paperId)
+          ? prev.map(p => (p.paperId === paperId ? updated : p))
+          : [updated, ...prev]
+      );
+    } catch (e) {
+      console.error(`Error refreshing paper #${paperId}:`, e);
+    }
+  };
+
+  const requestMatching = async (paperId: bigint) => {
+    onStatus("pending", `Scoring reviewers for paper #${paperId} under FHE...`);
+    try {
+      const client = await getReviewerRecClientWithSigner();
+      await client.runMatching(paperId, k);
+      onStatus("success", "Matching submitted; ranks appear once the oracle decrypts them");
+      await refreshPaper(paperId);
+      awaitOracle(paperId, client.waitForMatch(paperId), "Ranking");
+    } catch (e: any) {
+      onStatus("error", txErrorMessage(e, "Matching"));
+    }
+  };
+
+  /** Reports the oracle's answer, or that it is late; the card keeps showing the wait either way. */
+  const awaitOracle = (paperId: bigint, answer: Promise<unknown>, what: string) => {
+    answer
+      .then(() => {
+        onStatus("success", `${what} of paper #${paperId} decrypted`);
+        refreshPaper(paperId);
+      })
+      .catch((e: any) => onStatus("error", e?.message || `${what} of paper #${paperId} not decrypted`));
+  };
+
+  const completeReview = async (paperId: bigint, reviewerId: bigint) => {
+    onStatus("pending", `Marking reviewer #${reviewerId}'s review complete...`);
+    try {
+      const client = await getReviewerRecClientWithSigner();
+      await client.completeReview(paperId, reviewerId);
+      onStatus("success", "Review completed; the reviewer's workload has been lowered");
+      await refreshPaper(paperId);
+    } catch (e: any) {
+      onStatus("error", txErrorMessage(e, "Completion"));
+    }
+  };
+
+  const advance = async (paperId: bigint, next: PaperStatus, send: (client: ReviewerRecClient) => Promise<TxResult>) => {
+    onStatus("pending", `Moving paper #${paperId} to ${PAPER_STATUS_LABELS[next]}...`);
+    try {
+      const client = await getReviewerRecClientWithSigner();
+      await send(client);
+      onStatus("success", `Paper #${paperId} is now ${PAPER_STATUS_LABELS[next].toLowerCase()}`);
+      await refreshPaper(paperId);
+    } catch (e: any) {
+      onStatus("error", txErrorMessage(e, "Status change"));
+    }
+  };
+
+  const revealRank = async (paperId: bigint, rank: number) => {
+    onStatus("pending", `Requesting decryption of rank ${rank + 1}...`);
+    try {
+      const client = await getReviewerRecClientWithSigner();
+      await client.revealMatchedReviewer(paperId, rank);
+      onStatus("success", "Reveal requested; the score appears once the oracle responds");
+      await refreshPaper(paperId);
+      awaitOracle(paperId, client.waitForReveal(paperId), "Score reveal");
+    } catch (e: any) {
+      onStatus("error", txErrorMessage(e, "Reveal"));
+    }
+  };
+
+  return (
+    <div className="reviewers-panel">
+      <div className="panel-header">
+        <h2>Ranked Reviewer Recommendations</h2>
+        <div className="header-controls">
+          <select
+            value={k}
+            onChange={(e) => setK(Number(e.target.value))}
+            className="cyber-select"
+          >
+            {Array.from({ length: maxTopK }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>Top {n}</option>
+            ))}
+          </select>
+          <span className="live-indicator">{isRefreshing ? "🔄 Syncing" : "● Live"}</span>
+        </div>
+      </div>
+
+      <div className="reviewers-grid">
+        {papers.length === 0 ? (
+          <div className="no-results">
+            <div className="no-results-icon">📄</div>
+            <p>No encrypted papers submitted yet</p>
+          </div>
+        ) : (
+          papers.map(({ paperId, author, editor, status, progress, matches, invitations, decryptions }) => {
+            // Offer the best sealed candidate who has consented, so the editor works down the list
+            const nextSealed = matches.find(m =>
+              !m.isRevealed &&
+              (invitations[m.rank] === InvitationStatus.Accepted || invitations[m.rank] === InvitationStatus.Completed)
+            );
+            const unassigned = editor === ethers.ZeroAddress;
+            const isHandlingEditor = !!account && editor.toLowerCase() === account.toLowerCase();
+            const isAuthor = !!account && author.toLowerCase() === account.toLowerCase();
+            const isClosed = status === PaperStatus.Decided || status === PaperStatus.Withdrawn;
+            const canMatch = !!roles?.editor && (unassigned || isHandlingEditor) && status <= PaperStatus.ReviewersAssigned;
+            // The contract holds re-matching and further reveals until the oracle has answered
+            const busy = progress.active || decryptions.some(d => d.status === DecryptionStatus.Pending);
+            return (
+              <div key={paperId.toString()} className="reviewer-card neon-border">
+                <div className="card-header">
+                  <div className="reviewer-avatar">#{paperId.toString()}</div>
+                  <div className="reviewer-info">
+                    <h3>Paper {paperId.toString()}</h3>
+                    <p>
+                      {progress.active
+                        ? `Matching: ${progress.scoredReviewers} reviewers scored`
+                        : `${matches.length} ranked candidates`}
+                    </p>
+                    <p>
+                      {unassigned ? "No handling editor yet" : isHandlingEditor ? "Handled by you" : `Editor ${editor.slice(0, 6)}…${editor.slice(-4)}`}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="card-body">
+                  <PaperTimeline paperId={paperId} status={status} />
+                  <AwaitingOracle decryptions={decryptions} />
+                  {matches.map(match => (
+                    <div key={match.rank} className="rating">
+                      <span className="rating-value">{match.rank + 1}.</span>
+                      <span>Reviewer #{match.reviewerId.toString()}</span>
+                      {match.isRevealed ? (
+                        <span className="stars">score {match.score}</span>
+                      ) : (
+                        <span className="encrypted-badge">🔒 Encrypted</span>
+                      )}
+                      <span>{INVITATION_LABELS[invitations[match.rank]]}</span>
+                      {isHandlingEditor && invitations[match.rank] === InvitationStatus.Accepted && (
+                        <button
+                          className="cyber-button small outline"
+                          onClick={() => completeReview(paperId, match.reviewerId)}
+                        >
+                          Mark Complete
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="card-footer">
+                  <button
+                    className="cyber-button small"
+                    onClick={() => requestMatching(paperId)}
+                    disabled={!canMatch || busy}
+                  >
+                    {matches.length > 0 ? "Re-match" : "Find Reviewers"}
+                  </button>
+                  {nextSealed && (
+                    <button
+                      className="cyber-button small outline"
+                      onClick={() => revealRank(paperId, nextSealed.rank)}
+                      disabled={!isHandlingEditor || busy}
+                    >
+                      Reveal #{nextSealed.rank + 1}
+                    </button>
+                  )}
+                  {isHandlingEditor && status === PaperStatus.ReviewersAssigned && (
+                    <button
+                      className="cyber-button small outline"
+                      onClick={() => advance(paperId, PaperStatus.UnderReview, c => c.startReview(paperId))}
+                    >
+                      Start Review
+                    </button>
+                  )}
+                  {isHandlingEditor && status === PaperStatus.UnderReview && (
+                    <button
+                      className="cyber-button small outline"
+                      onClick={() => advance(paperId, PaperStatus.Decided, c => c.recordDecision(paperId))}
+                    >
+                      Record Decision
+                    </button>
+                  )}
+                  {isAuthor && !isClosed && (
+                    <button
+                      className="cyber-button small outline"
+                      onClick={() => advance(paperId, PaperStatus.Withdrawn, c => c.withdrawPaper(paperId))}
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
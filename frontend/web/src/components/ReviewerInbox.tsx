@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from "react";
+import { getReviewerRecClientReadOnly, getReviewerRecClientWithSigner, txErrorMessage } from "../contract";
+import { Invitation, InvitationStatus } from "../reviewerRecClient";
+import { INVITATION_LABELS } from "./InviteReviewerModal";
+
+interface ReviewerInboxProps {
+  account: string;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+export default function ReviewerInbox({ account, onStatus }: ReviewerInboxProps) {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (!account) return;
+    loadInvitations();
+
+    let unsubscribe = () => {};
+    getReviewerRecClientReadOnly().then(async client => {
+      if (client) unsubscribe = client.onReviewerInvited(await client.getReviewerIds(account), () => loadInvitations());
+    });
+    return () => unsubscribe();
+  }, [account]);
+
+  const loadInvitations = async () => {
+    setIsRefreshing(true);
+    try {
+      const client = await getReviewerRecClientReadOnly();
+      if (!client) return;
+      const ids = await client.getReviewerIds(account);
+      const all = (await Promise.all(ids.map(id => client.getInvitations(id)))).flat();
+      // Pending first, newest first within each group
+      all.sort((a, b) =>
+        Number(b.status === InvitationStatus.Pending) - Number(a.status === InvitationStatus.Pending) ||
+        Number(b.paperId - a.paperId)
+      );
+      setInvitations(all);
+    } catch (e) {
+      console.error("Error loading invitations:", e);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const respond = async (invitation: Invitation, accept: boolean) => {
+    onStatus("pending", `${accept ? "Accepting" : "Declining"} invitation for paper #${invitation.paperId}...`);
+    try {
+      const client = await getReviewerRecClientWithSigner();
+      await client.respondToInvitation(invitation.paperId, invitation.reviewerId, accept);
+      onStatus("success", accept
+        ? "Accepted; the editor can now reveal your match"
+        : "Declined; your match score for this paper stays sealed");
+      await loadInvitations();
+    } catch (e: any) {
+      onStatus("error", txErrorMessage(e, "Response"));
+    }
+  };
+
+  const pendingCount = invitations.filter(i => i.status === InvitationStatus.Pending).length;
+
+  return (
+    <div className="reviewers-panel">
+      <div className="panel-header">
+        <h2>Review Invitations ({pendingCount} pending)</h2>
+        <div className="header-controls">
+          <button
+            onClick={loadInvitations}
+            className="cyber-button neon-blue"
+            disabled={isRefreshing}
+          >
+            {isRefreshing ? "🔄" : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      <div className="reviewers-grid">
+        {invitations.length === 0 ? (
+          <div className="no-results">
+            <div className="no-results-icon">📭</div>
+            <p>No invitations for your reviewer profiles yet</p>
+          </div>
+        ) : (
+          invitations.map(invitation => (
+            <div
+              key={`${invitation.paperId}-${invitation.reviewerId}`}
+              className="reviewer-card neon-border"
+            >
+              <div className="card-header">
+                <div className="reviewer-avatar">#{invitation.paperId.toString()}</div>
+                <div className="reviewer-info">
+                  <h3>Paper {invitation.paperId.toString()}</h3>
+                  <p>As reviewer #{invitation.reviewerId.toString()}</p>
+                </div>
+              </div>
+
+              <div className="card-body">
+                <div className="encrypted-badge">🔒 Manuscript stays encrypted</div>
+                <p>{INVITATION_LABELS[invitation.status]}</p>
+              </div>
+
+              {invitation.status === InvitationStatus.Pending && (
+                <div className="card-footer">
+                  <button className="cyber-button small" onClick={() => respond(invitation, true)}>
+                    Accept
+                  </button>
+                  <button className="cyber-button small outline" onClick={() => respond(invitation, false)}>
+                    Decline
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
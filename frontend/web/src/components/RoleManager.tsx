@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { getReviewerRecClientReadOnly, getReviewerRecClientWithSigner, txErrorMessage } from "../contract";
+import { ROLES, Role, RoleSet } from "../reviewerRecClient";
+
+interface RoleManagerProps {
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Journal Admin",
+  editor: "Editor",
+  reviewer: "Reviewer",
+  author: "Author"
+};
+
+export default function RoleManager({ onStatus }: RoleManagerProps) {
+  const [address, setAddress] = useState("");
+  const [role, setRole] = useState<Role>("editor");
+  const [current, setCurrent] = useState<RoleSet | null>(null);
+  const [cap, setCap] = useState(0);
+
+  useEffect(() => {
+    getReviewerRecClientReadOnly().then(async client => {
+      if (client) setCap(await client.maxConcurrentReviews());
+    });
+  }, []);
+
+  const validAddress = ethers.isAddress(address);
+
+  const lookup = async () => {
+    const client = await getReviewerRecClientReadOnly();
+    if (!client || !validAddress) return;
+    setCurrent(await client.getRoles(address));
+  };
+
+  const update = async (grant: boolean) => {
+    onStatus("pending", `${grant ? "Granting" : "Revoking"} ${ROLE_LABELS[role]}...`);
+    try {
+      const client = await getReviewerRecClientWithSigner();
+      if (grant) {
+        await client.grantRole(role, address);
+      } else {
+        await client.revokeRole(role, address);
+      }
+      onStatus("success", `${ROLE_LABELS[role]} ${grant ? "granted to" : "revoked from"} ${address}`);
+      await lookup();
+    } catch (e: any) {
+      onStatus("error", txErrorMessage(e, "Role update"));
+    }
+  };
+
+  const updateCap = async () => {
+    onStatus("pending", `Setting the concurrent review cap to ${cap}...`);
+    try {
+      const client = await getReviewerRecClientWithSigner();
+      await client.setMaxConcurrentReviews(cap);
+      onStatus("success", `Reviewers with ${cap} reviews in progress are no longer matched`);
+    } catch (e: any) {
+      onStatus("error", txErrorMessage(e, "Cap update"));
+    }
+  };
+
+  return (
+    <div className="reviewers-panel">
+      <div className="panel-header">
+        <h2>Journal Roles</h2>
+      </div>
+
+      <div className="reviewer-card neon-border">
+        <div className="card-body">
+          <input
+            type="text"
+            placeholder="0x… wallet address"
+            value={address}
+            onChange={(e) => { setAddress(e.target.value.trim()); setCurrent(null); }}
+            className="cyber-input"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as Role)}
+            className="cyber-select"
+          >
+            {(Object.keys(ROLES) as Role[]).map(r => (
+              <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+          {current && (
+            <div className="expertise-tags">
+              {(Object.keys(current) as Role[]).filter(r => current[r]).map(r => (
+                <span key={r} className="expertise-tag">{ROLE_LABELS[r]}</span>
+              ))}
+              {!Object.values(current).some(Boolean) && <span>No roles</span>}
+            </div>
+          )}
+        </div>
+
+        <div className="card-footer">
+          <button className="cyber-button small outline" onClick={lookup} disabled={!validAddress}>
+            Look Up
+          </button>
+          <button className="cyber-button small" onClick={() => update(true)} disabled={!validAddress}>
+            Grant
+          </button>
+          <button className="cyber-button small outline" onClick={() => update(false)} disabled={!validAddress}>
+            Revoke
+          </button>
+        </div>
+      </div>
+
+      <div className="reviewer-card neon-border">
+        <div className="card-body">
+          <label>Concurrent reviews per reviewer</label>
+          <input
+            type="number"
+            min={1}
+            value={cap}
+            onChange={(e) => setCap(Number(e.target.value))}
+            className="cyber-input"
+          />
+        </div>
+        <div className="card-footer">
+          <button className="cyber-button small" onClick={updateCap} disabled={cap < 1}>
+            Save Cap
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import type { BytesLike } from "ethers";
+import { getActiveChainId, getReviewerRecClientWithSigner, networks, txErrorMessage } from "../contract";
+import type { PaperFeatures } from "../encryption";
+import { getBrowserEncryptor } from "../fhevm";
+import { extractPaperFeatures } from "../manuscript";
+import type { ManuscriptDraft } from "../manuscript";
+import type { EncryptedPaperInput, PaperSubmittedResult } from "../reviewerRecClient";
+import { taxonomy } from "../taxonomy";
+import DisciplineSelect from "./DisciplineSelect";
+
+interface SubmitManuscriptProps {
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+interface Preview {
+  features: PaperFeatures;
+  input: EncryptedPaperInput;
+}
+
+const EMPTY_DRAFT: ManuscriptDraft = {
+  title: "",
+  abstract: "",
+  keywords: "",
+  discipline: taxonomy.fields[0].id,
+  authorAffiliations: "",
+  conflictIds: ""
+};
+
+const shortHandle = (handle: BytesLike) => {
+  const hex = ethers.hexlify(handle);
+  return `${hex.slice(0, 10)}…${hex.slice(-6)}`;
+};
+
+/**
+ * Submission happens in three steps: the draft is reduced to feature codes and
+ * encrypted in the browser, the author checks what is about to go on-chain,
+ * then the ciphertexts are sent. Neither the text nor the codes leave the page.
+ */
+export default function SubmitManuscript({ onStatus }: SubmitManuscriptProps) {
+  const [draft, setDraft] = useState<ManuscriptDraft>(EMPTY_DRAFT);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [receipt, setReceipt] = useState<PaperSubmittedResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const edit = (field: keyof ManuscriptDraft, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    setPreview(null);
+  };
+
+  const encrypt = async () => {
+    setBusy(true);
+    try {
+      const [client, encryptor] = await Promise.all([getReviewerRecClientWithSigner(), getBrowserEncryptor()]);
+      const features = extractPaperFeatures(draft, await client.profileDimensions());
+      setPreview({ features, input: await client.encryptPaper(features, encryptor) });
+    } catch (e: any) {
+      onStatus("error", `Encryption failed: ${e?.message || "Unknown error"}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = async () => {
+    if (!preview) return;
+    setBusy(true);
+    onStatus("pending", "Submitting encrypted manuscript...");
+    try {
+      const client = await getReviewerRecClientWithSigner();
+      const result = await client.submitEncryptedPaper(preview.input);
+      setReceipt(result);
+      setDraft(EMPTY_DRAFT);
+      setPreview(null);
+      onStatus("success", `Manuscript submitted as paper #${result.paperId}`);
+    } catch (e: any) {
+      onStatus("error", txErrorMessage(e, "Submission"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const receiptLink = receipt && networks.explorerLink(getActiveChainId(), "tx", receipt.transactionHash);
+
+  const rows: [string, string, BytesLike][] = preview
+    ? [
+        ["Title", preview.features.title.toString(), preview.input.title],
+        ["Abstract", preview.features.abstract.toString(), preview.input.abstract],
+        ["Discipline", preview.features.discipline.toString(), preview.input.discipline],
+        ...preview.input.keywords.map((h, i): [string, string, BytesLike] => [
+          `Keyword bucket ${i + 1}`, String(preview.features.keywords[i]), h
+        ]),
+        ...preview.input.authorAffiliations.map((h, i): [string, string, BytesLike] => [
+          `Affiliation ${i + 1}`, String(preview.features.authorAffiliations![i]), h
+        ]),
+        ...preview.input.conflictIds.map((h, i): [string, string, BytesLike] => [
+          `Conflict ${i + 1}`, String(preview.features.conflictIds![i]), h
+        ])
+      ]
+    : [];
+
+  return (
+    <div className="reviewers-panel">
+      <div className="panel-header">
+        <h2>Submit Manuscript</h2>
+      </div>
+
+      {receipt && (
+        <div className="reviewer-card neon-border submission-receipt">
+          <div className="card-body">
+            <h3>✅ Paper #{receipt.paperId.toString()} submitted</h3>
+            <div className="rating">
+              <span>Submitted at</span>
+              <span>{new Date(Number(receipt.timestamp) * 1000).toLocaleString()}</span>
+            </div>
+            <div className="rating">
+              <span>Transaction</span>
+              {receiptLink ? (
+                <a href={receiptLink} target="_blank" rel="noreferrer">{shortHandle(receipt.transactionHash)}</a>
+              ) : (
+                <span>{shortHandle(receipt.transactionHash)}</span>
+              )}
+            </div>
+            <div className="rating">
+              <span>Block</span>
+              <span>{receipt.blockNumber}</span>
+            </div>
+          </div>
+          <div className="card-footer">
+            <button className="cyber-button small outline" onClick={() => setReceipt(null)}>
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="reviewer-card neon-border">
+        <div className="card-body submission-form">
+          <label>Title</label>
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => edit("title", e.target.value)}
+            className="cyber-input"
+          />
+          <label>Abstract</label>
+          <textarea
+            rows={6}
+            value={draft.abstract}
+            onChange={(e) => edit("abstract", e.target.value)}
+            className="cyber-input"
+          />
+          <label>Keywords</label>
+          <input
+            type="text"
+            placeholder="homomorphic encryption, peer review"
+            value={draft.keywords}
+            onChange={(e) => edit("keywords", e.target.value)}
+            className="cyber-input"
+          />
+          <label>Discipline</label>
+          <DisciplineSelect value={draft.discipline} onChange={(id) => edit("discipline", id)} />
+          <label>Author affiliation codes (optional)</label>
+          <input
+            type="text"
+            placeholder="12, 40"
+            value={draft.authorAffiliations}
+            onChange={(e) => edit("authorAffiliations", e.target.value)}
+            className="cyber-input"
+          />
+          <label>Conflicting scholar ids (optional)</label>
+          <input
+            type="text"
+            placeholder="1001, 1002"
+            value={draft.conflictIds}
+            onChange={(e) => edit("conflictIds", e.target.value)}
+            className="cyber-input"
+          />
+        </div>
+        <div className="card-footer">
+          <button className="cyber-button small outline" onClick={encrypt} disabled={busy}>
+            Encrypt &amp; Preview
+          </button>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="reviewer-card neon-border">
+          <div className="card-body">
+            <h3>What will be stored</h3>
+            <p>Only the ciphertext handles are sent; the codes next to them never leave this browser.</p>
+            {rows.map(([label, code, handle]) => (
+              <div key={label} className="rating">
+                <span>{label}</span>
+                <span className="rating-value">{code}</span>
+                <span>🔒 {shortHandle(handle)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="card-footer">
+            <button className="cyber-button small" onClick={submit} disabled={busy}>
+              Submit Encrypted Manuscript
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from "react";
+import { networks, transactions } from "../contract";
+import type { TrackedTransaction, TransactionStatus } from "../transactions";
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  pending: "⏳ Pending",
+  mined: "⛏️ Mined",
+  confirmed: "✅ Confirmed",
+  reverted: "❌ Reverted",
+  replaced: "🔁 Replaced"
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+function TransactionLink({ chainId, hash }: { chainId: number; hash: string }) {
+  const link = networks.explorerLink(chainId, "tx", hash);
+  return link
+    ? <a href={link} target="_blank" rel="noreferrer">{shortHash(hash)}</a>
+    : <span>{shortHash(hash)}</span>;
+}
+
+/**
+ * Header button and side drawer listing every transaction sent this session.
+ * Entries stay until cleared, so a revert or a slow confirmation can still be
+ * looked up after the status message is gone; the drawer opens by itself when
+ * a new transaction is submitted.
+ */
+export default function TransactionDrawer() {
+  const [entries, setEntries] = useState<TrackedTransaction[]>(() => transactions.list());
+  const [open, setOpen] = useState(false);
+  const seen = useRef(new Set(entries.map(t => t.hash)));
+
+  useEffect(() => transactions.subscribe(list => {
+    if (list.some(t => !seen.current.has(t.hash))) setOpen(true);
+    seen.current = new Set(list.map(t => t.hash));
+    setEntries(list);
+  }), []);
+
+  const inFlight = entries.filter(t => t.status === "pending" || t.status === "mined").length;
+
+  return (
+    <>
+      <button className="cyber-button" onClick={() => setOpen(!open)}>
+        Transactions{inFlight > 0 && <span className="tx-count">{inFlight}</span>}
+      </button>
+      {open && (
+        <aside className="tx-drawer neon-border">
+          <div className="tx-drawer-header">
+            <h3>Transactions</h3>
+            <button className="cyber-button" onClick={() => transactions.clear()} disabled={entries.length === inFlight}>
+              Clear finished
+            </button>
+            <button className="close-modal" onClick={() => setOpen(false)}>&times;</button>
+          </div>
+          {entries.length === 0 ? (
+            <p>No transactions sent yet.</p>
+          ) : (
+            <div className="activity-feed">
+              {entries.map(t => (
+                <div key={t.hash} className={`tx-entry ${t.status}`}>
+                  <div className="activity-item">
+                    <strong>{t.label}</strong>
+                    <span>{STATUS_LABELS[t.status]}</span>
+                  </div>
+                  <div className="activity-item">
+                    <TransactionLink chainId={t.chainId} hash={t.hash} />
+                    {t.blockNumber !== undefined && (
+                      <span className="activity-block">
+                        block {t.blockNumber} · {t.confirmations}/{transactions.confirmations} confirmations
+                      </span>
+                    )}
+                  </div>
+                  {t.error && <div className="tx-error">{t.error}</div>}
+                  {t.replacedBy && (
+                    <div className="activity-block">
+                      Replaced by <TransactionLink chainId={t.chainId} hash={t.replacedBy} />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </aside>
+      )}
+    </>
+  );
+}
@@ -2,6 +2,15 @@
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { REVIEWER_REC_ABI, ReviewerRecClient } from "./reviewerRecClient";
+import { EventIndexer } from "./indexer";
+import { IndexedDbIndexStore } from "./indexedDbIndexStore";
+import { ActivityFeed } from "./activityFeed";
+import { NetworkRegistry } from "./networks";
+import type { RegisteredNetwork } from "./networks";
+import { ProviderManager, selectRpcNetwork } from "./rpc";
+import type { SelectedNetwork } from "./rpc";
+import { TransactionManager, USER_REJECTED, decodeTransactionError } from "./transactions";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
@@ -18,43 +27,106 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
+/** Chains the app can read from, with the addresses deployed on each. */
+export const networks = NetworkRegistry.fromJson(config);
+
+/** Every transaction sent from the app, for the activity drawer, kept across reloads. */
+export const transactions = new TransactionManager({ confirmations: 2, storage: window.localStorage });
+
+const reviewerRecInterface = new ethers.Interface(REVIEWER_REC_ABI);
+
+/** Status line for a failed write: the rejection as is, anything else as the action and its decoded reason. */
+export function txErrorMessage(e: unknown, action: string): string {
+  const reason = decodeTransactionError(e, reviewerRecInterface);
+  return reason === USER_REJECTED ? reason : `${action} failed: ${reason}`;
+}
+
+let selected: SelectedNetwork | null = null;
+const selectedNetwork = () => (selected ??= selectRpcNetwork(config, process.env));
+
+let activeChainId: number | null = null;
+const chainListeners = new Set<(chainId: number) => void>();
+
+/** The chain reads go to: the wallet's once it reports a supported one, the configured network before that. */
+export function getActiveChainId(): number {
+  return activeChainId ?? selectedNetwork().chainId;
+}
+
+export function getActiveNetwork(): RegisteredNetwork | undefined {
+  return networks.byChainId(getActiveChainId());
+}
+
+/** Follows the wallet to another chain. Unsupported chains are ignored, so reads stay where they were. */
+export function setActiveChain(chainId: number): void {
+  if (!networks.byChainId(chainId) || chainId === getActiveChainId()) return;
+  activeChainId = chainId;
+  for (const listener of chainListeners) listener(chainId);
+}
+
+export function onActiveChainChange(listener: (chainId: number) => void): () => void {
+  chainListeners.add(listener);
+  return () => { chainListeners.delete(listener); };
+}
+
+const providerManagers = new Map<number, ProviderManager>();
+
+/** ABIs of the chain's contracts by address, so resumed transactions still decode their revert reasons. */
+function trackedInterfaces(chainId: number): Record<string, ethers.Interface> {
+  const entry = networks.byChainId(chainId);
+  const interfaces: Record<string, ethers.Interface> = {};
+  if (entry?.contractAddress) interfaces[entry.contractAddress] = new ethers.Interface(ABI);
+  if (entry?.reviewerRecAddress) interfaces[entry.reviewerRecAddress] = new ethers.Interface(REVIEWER_REC_ABI);
+  return interfaces;
+}
+
+/**
+ * Read-only access to a chain, shared so every reader feeds the same endpoint
+ * health scores. `RPC_NETWORK=localhost` starts the app on a Hardhat node.
+ * The first use of a chain also resumes the transactions saved for it.
+ */
+export function getProviderManager(chainId = getActiveChainId()): ProviderManager {
+  let manager = providerManagers.get(chainId);
+  if (!manager) {
+    // RPC_URLS only overrides the endpoints of the network the app starts on
+    const network = chainId === selectedNetwork().chainId ? selectedNetwork() : networks.byChainId(chainId);
+    if (!network) {
+      throw new Error(`Chain ${chainId} is not in the network registry`);
     }
+    manager = new ProviderManager(network);
+    providerManagers.set(chainId, manager);
+    transactions.resume(chainId, manager.provider, trackedInterfaces(chainId));
   }
-  
-  throw new Error("All RPC providers failed");
-};
+  return manager;
+}
+
+/** The wallet's signer, refusing chains that are not registered or lack the contract about to be written to. */
+async function walletSigner(addressKey: "contractAddress" | "reviewerRecAddress", contractName: string) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const { chainId } = await provider.getNetwork();
+  const network = networks.byChainId(chainId);
+  if (!network) {
+    throw new Error(`Chain ${chainId} is not supported; switch to ${networks.all.map(n => n.label).join(" or ")}`);
+  }
+  const address = network[addressKey];
+  if (!address) {
+    throw new Error(`${contractName} is not deployed on ${network.label}`);
+  }
+  return { signer: await provider.getSigner(), address };
+}
 
 export async function getContractReadOnly() {
+  const address = getActiveNetwork()?.contractAddress;
+  if (!address) {
+    return null;
+  }
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = getProviderManager().provider;
+    const contract = new ethers.Contract(address, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
@@ -67,20 +139,76 @@ export async function getContractReadOnly() {
 }
 
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    const { signer, address } = await walletSigner("contractAddress", "The reviewer registry");
+    return new ethers.Contract(address, ABI, signer);
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
   }
 }
 
+export async function getReviewerRecClientReadOnly(): Promise<ReviewerRecClient | null> {
+  const address = getActiveNetwork()?.reviewerRecAddress;
+  if (!address) {
+    return null;
+  }
+  try {
+    const provider = getProviderManager().provider;
+    const code = await retry(() => provider.getCode(address));
+    if (code === "0x") {
+      return null;
+    }
+    return ReviewerRecClient.connect(address, provider);
+  } catch (error) {
+    console.error("Failed to create read-only ReviewerRecFHE client:", error);
+    return null;
+  }
+}
+
+export async function getReviewerRecClientWithSigner(): Promise<ReviewerRecClient> {
+  const { signer, address } = await walletSigner("reviewerRecAddress", "ReviewerRecFHE");
+  return ReviewerRecClient.connect(address, signer, transactions);
+}
+
+// One per chain, created on first use
+const indexers = new Map<number, Promise<EventIndexer | null>>();
+
+/**
+ * Browser-wide index of ReviewerRecFHE events on the active chain, persisted in
+ * IndexedDB. Call `sync()` before reading; it only fetches blocks mined since the last call.
+ */
+export function getReviewerRecIndexer(): Promise<EventIndexer | null> {
+  const chainId = getActiveChainId();
+  let indexer = indexers.get(chainId);
+  if (!indexer) {
+    const network = getActiveNetwork();
+    indexer = getReviewerRecClientReadOnly().then(client => client && new EventIndexer(
+      client,
+      new IndexedDbIndexStore(`reviewer-rec-${chainId}-${network!.reviewerRecAddress!.toLowerCase()}`),
+      { fromBlock: network?.reviewerRecDeployBlock }
+    ));
+    indexers.set(chainId, indexer);
+    // Retry on the next call if no client could be created
+    indexer.then(result => { if (!result) indexers.delete(chainId); });
+  }
+  return indexer;
+}
+
+const activityFeeds = new Map<number, Promise<ActivityFeed | null>>();
+
+/** Shared live feed of ReviewerRecFHE activity on the active chain; components subscribe to it instead of polling on their own. */
+export function getActivityFeed(): Promise<ActivityFeed | null> {
+  const chainId = getActiveChainId();
+  let feed = activityFeeds.get(chainId);
+  if (!feed) {
+    feed = getReviewerRecClientReadOnly().then(client => client && new ActivityFeed(client));
+    activityFeeds.set(chainId, feed);
+    feed.then(result => { if (!result) activityFeeds.delete(chainId); });
+  }
+  return feed;
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,319 @@
+// encryption.ts
+import { ethers } from "ethers";
+import type {
+  EncryptedAvailabilityInput,
+  EncryptedPaperInput,
+  EncryptedProfileInput,
+  EncryptedReviewerInput
+} from "./reviewerRecClient";
+
+/** Plaintext paper features, each already reduced to a uint32 code or a vector of bucket weights. */
+export interface PaperFeatures {
+  title: number;
+  abstract: number;
+  /** Keyword bucket weights, as long as the contract's current profile version requires */
+  keywords: number[];
+  discipline: number;
+  /** Codes of the authors' institutions; reviewers sharing one are excluded from matching */
+  authorAffiliations?: number[];
+  /** Scholar ids of the authors, co-authors and advisors, excluded the same way */
+  conflictIds?: number[];
+}
+
+/** Plaintext reviewer features, each already reduced to a uint32 code or a vector of bucket weights. */
+export interface ReviewerFeatures {
+  /** Expertise bucket weights in the same feature space as papers' keywords */
+  expertise: number[];
+  discipline: number;
+  affiliation: number;
+  /** Identifier matched against papers' conflict lists; 0 when not provided */
+  scholarId?: number;
+  publicationCount: number;
+  reviewCount: number;
+}
+
+/** The fields a reviewer may change later; the contract keeps the review counts itself. */
+export type ReviewerProfileFeatures = Omit<ReviewerFeatures, "reviewCount">;
+
+/** Inclusive bounds, in unix seconds, of when a reviewer takes new papers. */
+export interface AvailabilityWindowInput {
+  from: number;
+  until: number;
+}
+
+/**
+ * The subset of the relayer SDK's encrypted input builder that we rely on.
+ * Both `FhevmInstance.createEncryptedInput` from `@zama-fhe/relayer-sdk` and
+ * `hre.fhevm.createEncryptedInput` from the Hardhat plugin satisfy it.
+ */
+export interface EncryptedInputBuilder {
+  add8(value: number | bigint): unknown;
+  add32(value: number | bigint): unknown;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+export interface FhevmInstanceLike {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+}
+
+/**
+ * Turns plaintext features into handles plus an input proof for one contract
+ * and sender. Inputs are bound to both, so a proof produced for one wallet is
+ * rejected by `IInputVerifier` when submitted from another.
+ */
+export interface Encryptor {
+  encryptPaper(features: PaperFeatures, contractAddress: string, userAddress: string): Promise<EncryptedPaperInput>;
+  encryptReviewer(features: ReviewerFeatures, contractAddress: string, userAddress: string): Promise<EncryptedReviewerInput>;
+  encryptProfile(features: ReviewerProfileFeatures, contractAddress: string, userAddress: string): Promise<EncryptedProfileInput>;
+  encryptAvailability(
+    window: AvailabilityWindowInput,
+    contractAddress: string,
+    userAddress: string
+  ): Promise<EncryptedAvailabilityInput>;
+}
+
+const UINT32_MAX = 0xffffffff;
+
+export function assertUint32(name: string, value: number): number {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new RangeError(`${name} must be an integer in [0, ${UINT32_MAX}], got ${value}`);
+  }
+  return value;
+}
+
+/** Upper bounds enforced by the contract on a paper's conflict lists */
+export const MAX_AUTHOR_AFFILIATIONS = 3;
+export const MAX_CONFLICT_IDS = 5;
+
+/** Bounds the contract places on keyword and expertise vectors */
+export const MAX_BUCKET_WEIGHT = 15;
+export const MIN_PROFILE_DIMENSIONS = 8;
+export const MAX_PROFILE_DIMENSIONS = 32;
+
+/** A plaintext headed for the encrypted input, with the width it is encrypted at. */
+type InputValue = { bits: 8 | 32; value: number };
+
+const u32 = (value: number): InputValue => ({ bits: 32, value });
+
+function vectorValues(name: string, vector: number[]): InputValue[] {
+  const n = vector.length;
+  if (n < MIN_PROFILE_DIMENSIONS || n > MAX_PROFILE_DIMENSIONS || (n & (n - 1)) !== 0) {
+    throw new RangeError(
+      `${name} must have a power-of-two length in [${MIN_PROFILE_DIMENSIONS}, ${MAX_PROFILE_DIMENSIONS}], got ${n}`
+    );
+  }
+  return vector.map((value, i) => {
+    if (!Number.isInteger(value) || value < 0 || value > MAX_BUCKET_WEIGHT) {
+      throw new RangeError(`${name}[${i}] must be an integer in [0, ${MAX_BUCKET_WEIGHT}], got ${value}`);
+    }
+    return { bits: 8, value };
+  });
+}
+
+/**
+ * Folds a vector onto a shorter power-of-two length the way the contract does
+ * when it compares profiles of different versions: bucket i collects every
+ * bucket congruent to i, clamped to MAX_BUCKET_WEIGHT.
+ */
+export function foldVector(vector: number[], dimensions: number): number[] {
+  if (vector.length % dimensions !== 0) {
+    throw new RangeError(`Cannot fold a vector of ${vector.length} buckets onto ${dimensions}`);
+  }
+  const folded = new Array<number>(dimensions).fill(0);
+  vector.forEach((weight, i) => { folded[i % dimensions] += weight; });
+  return folded.map(weight => Math.min(weight, MAX_BUCKET_WEIGHT));
+}
+
+/**
+ * Conflict entries must be non-zero: profiles use 0 for "not provided", and a
+ * zero entry would exclude every reviewer who left the field blank.
+ */
+function conflictValues(name: string, values: number[], max: number): InputValue[] {
+  if (values.length > max) {
+    throw new RangeError(`${name} accepts at most ${max} entries, got ${values.length}`);
+  }
+  return values.map((value, i) => {
+    if (assertUint32(`${name}[${i}]`, value) === 0) {
+      throw new RangeError(`${name}[${i}] must be non-zero`);
+    }
+    return u32(value);
+  });
+}
+
+const paperValues = (f: PaperFeatures): InputValue[] => [
+  u32(assertUint32("title", f.title)),
+  u32(assertUint32("abstract", f.abstract)),
+  ...vectorValues("keywords", f.keywords),
+  u32(assertUint32("discipline", f.discipline)),
+  ...conflictValues("authorAffiliations", f.authorAffiliations ?? [], MAX_AUTHOR_AFFILIATIONS),
+  ...conflictValues("conflictIds", f.conflictIds ?? [], MAX_CONFLICT_IDS)
+];
+
+/** Splits encrypted paper handles back into the contract's argument layout. */
+function paperInput(f: PaperFeatures, encrypted: string[]): EncryptedPaperInput {
+  const [title, abstract, ...rest] = encrypted;
+  const keywords = rest.splice(0, f.keywords.length);
+  const discipline = rest.shift()!;
+  const inputProof = rest.pop()!;
+  const affiliationCount = f.authorAffiliations?.length ?? 0;
+  return {
+    title,
+    abstract,
+    keywords,
+    discipline,
+    authorAffiliations: rest.slice(0, affiliationCount),
+    conflictIds: rest.slice(affiliationCount),
+    inputProof
+  };
+}
+
+const profileValues = (f: ReviewerProfileFeatures): InputValue[] => [
+  ...vectorValues("expertise", f.expertise),
+  u32(assertUint32("discipline", f.discipline)),
+  u32(assertUint32("affiliation", f.affiliation)),
+  u32(assertUint32("scholarId", f.scholarId ?? 0)),
+  u32(assertUint32("publicationCount", f.publicationCount))
+];
+
+const reviewerValues = (f: ReviewerFeatures): InputValue[] => [
+  ...profileValues(f),
+  u32(assertUint32("reviewCount", f.reviewCount))
+];
+
+/** Splits encrypted profile handles back into the contract's argument layout. */
+function profileInput(f: ReviewerProfileFeatures, encrypted: string[]): EncryptedProfileInput {
+  const expertise = encrypted.splice(0, f.expertise.length);
+  const [discipline, affiliation, scholarId, publicationCount, inputProof] = encrypted;
+  return { expertise, discipline, affiliation, scholarId, publicationCount, inputProof };
+}
+
+function reviewerInput(f: ReviewerFeatures, encrypted: string[]): EncryptedReviewerInput {
+  const [reviewCount] = encrypted.splice(-2, 1);
+  return { ...profileInput(f, encrypted), reviewCount };
+}
+
+/** The contract compares encrypted bounds with the block time as uint32 seconds. */
+function windowValues(w: AvailabilityWindowInput): InputValue[] {
+  if (w.from > w.until) {
+    throw new RangeError(`Availability window ends before it starts: ${w.from} > ${w.until}`);
+  }
+  return [u32(assertUint32("from", w.from)), u32(assertUint32("until", w.until))];
+}
+
+function windowInput(encrypted: string[]): EncryptedAvailabilityInput {
+  const [from, until, inputProof] = encrypted;
+  return { from, until, inputProof };
+}
+
+const EIP712_DOMAIN = [
+  "function eip712Domain() view returns (bytes1, string, string, uint256 chainId, address verifyingContract, bytes32, uint256[])"
+];
+
+/**
+ * FHEVM instance backed by a Hardhat node running the FHEVM mock, found at
+ * the addresses the node reports. The node signs input proofs itself, so
+ * nothing goes to a Zama relayer.
+ */
+export async function createMockFhevmInstance(provider: ethers.JsonRpcApiProvider): Promise<FhevmInstanceLike> {
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const domain = (address: string) => new ethers.Contract(address, EIP712_DOMAIN, provider).eip712Domain();
+  // The gateway side of the mock is only known through the EIP-712 domains its verifiers sign with
+  const [inputDomain, kmsDomain] = await Promise.all([
+    domain(metadata.InputVerifierAddress),
+    domain(metadata.KMSVerifierAddress)
+  ]);
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    verifyingContractAddressDecryption: kmsDomain.verifyingContract,
+    verifyingContractAddressInputVerification: inputDomain.verifyingContract,
+    chainId: metadata.chainId,
+    gatewayChainId: Number(inputDomain.chainId)
+  });
+}
+
+/** Encrypts through a real (or Hardhat mock) FHEVM instance. */
+export class RelayerEncryptor implements Encryptor {
+  constructor(private readonly instance: FhevmInstanceLike) {}
+
+  async encryptPaper(features: PaperFeatures, contractAddress: string, userAddress: string): Promise<EncryptedPaperInput> {
+    return paperInput(features, await this.encrypt(paperValues(features), contractAddress, userAddress));
+  }
+
+  async encryptReviewer(features: ReviewerFeatures, contractAddress: string, userAddress: string): Promise<EncryptedReviewerInput> {
+    return reviewerInput(features, await this.encrypt(reviewerValues(features), contractAddress, userAddress));
+  }
+
+  async encryptProfile(features: ReviewerProfileFeatures, contractAddress: string, userAddress: string): Promise<EncryptedProfileInput> {
+    return profileInput(features, await this.encrypt(profileValues(features), contractAddress, userAddress));
+  }
+
+  async encryptAvailability(
+    window: AvailabilityWindowInput,
+    contractAddress: string,
+    userAddress: string
+  ): Promise<EncryptedAvailabilityInput> {
+    return windowInput(await this.encrypt(windowValues(window), contractAddress, userAddress));
+  }
+
+  private async encrypt(values: InputValue[], contractAddress: string, userAddress: string): Promise<string[]> {
+    const input = this.instance.createEncryptedInput(
+      ethers.getAddress(contractAddress),
+      ethers.getAddress(userAddress)
+    );
+    for (const { bits, value } of values) {
+      if (bits === 8) input.add8(value);
+      else input.add32(value);
+    }
+    const { handles, inputProof } = await input.encrypt();
+    return [...handles.map(h => ethers.hexlify(h)), ethers.hexlify(inputProof)];
+  }
+}
+
+/**
+ * Deterministic stand-in for tests. Handles are derived from the contract,
+ * user, slot and value, so identical features always encrypt identically.
+ * The proof is not accepted on-chain; use it only where no contract verifies it.
+ */
+export class MockEncryptor implements Encryptor {
+  /** Every value passed through the mock, keyed by the handle it produced. */
+  readonly plaintexts = new Map<string, number>();
+
+  async encryptPaper(features: PaperFeatures, contractAddress: string, userAddress: string): Promise<EncryptedPaperInput> {
+    return paperInput(features, this.encrypt(paperValues(features), contractAddress, userAddress));
+  }
+
+  async encryptReviewer(features: ReviewerFeatures, contractAddress: string, userAddress: string): Promise<EncryptedReviewerInput> {
+    return reviewerInput(features, this.encrypt(reviewerValues(features), contractAddress, userAddress));
+  }
+
+  async encryptProfile(features: ReviewerProfileFeatures, contractAddress: string, userAddress: string): Promise<EncryptedProfileInput> {
+    return profileInput(features, this.encrypt(profileValues(features), contractAddress, userAddress));
+  }
+
+  async encryptAvailability(
+    window: AvailabilityWindowInput,
+    contractAddress: string,
+    userAddress: string
+  ): Promise<EncryptedAvailabilityInput> {
+    return windowInput(this.encrypt(windowValues(window), contractAddress, userAddress));
+  }
+
+  private encrypt(values: InputValue[], contractAddress: string, userAddress: string): string[] {
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    const handles = values.map(({ value }, slot) => {
+      const handle = ethers.keccak256(
+        coder.encode(
+          ["address", "address", "uint256", "uint32"],
+          [ethers.getAddress(contractAddress), ethers.getAddress(userAddress), slot, value]
+        )
+      );
+      this.plaintexts.set(handle, value);
+      return handle;
+    });
+    const inputProof = ethers.keccak256(ethers.concat(handles));
+    return [...handles, inputProof];
+  }
+}
@@ -0,0 +1,114 @@
+// features.ts
+import { MAX_BUCKET_WEIGHT } from "./encryption";
+
+/**
+ * Deterministic text-to-feature extraction shared by manuscripts and reviewer
+ * profiles. Everything here is plain string and integer arithmetic, so the
+ * browser and Node produce the same codes for the same text. Changing any
+ * step changes the feature space: bump FEATURE_VERSION and regenerate the
+ * golden file in test/golden when that is intended.
+ */
+
+export const FEATURE_VERSION = 2;
+
+/** Bits in the title and abstract codes, one per bucket. */
+export const MASK_BITS = 32;
+
+/** Length of keyword and expertise vectors under the contract's first profile version. */
+export const DEFAULT_DIMENSIONS = 16;
+
+/** Terms of an abstract that make it into its code, most frequent first. */
+export const ABSTRACT_TERMS = 8;
+
+export const STOP_WORDS: ReadonlySet<string> = new Set([
+  "a", "about", "above", "after", "again", "against", "all", "also", "am", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "being", "below", "between", "both", "but", "by",
+  "can", "could", "did", "do", "does", "doing", "down", "during", "each", "few", "for", "from", "further",
+  "had", "has", "have", "having", "he", "her", "here", "hers", "him", "his", "how",
+  "i", "if", "in", "into", "is", "it", "its", "itself", "just", "may", "me", "might", "more", "most", "must", "my",
+  "no", "nor", "not", "now", "of", "off", "on", "once", "only", "or", "other", "our", "ours", "out", "over", "own",
+  "same", "she", "should", "so", "some", "such", "than", "that", "the", "their", "theirs", "them", "then", "there",
+  "these", "they", "this", "those", "through", "to", "too", "under", "until", "up", "upon", "us", "using",
+  "very", "via", "was", "we", "were", "what", "when", "where", "which", "while", "who", "whom", "why", "will",
+  "with", "within", "without", "would", "you", "your", "yours"
+]);
+
+/**
+ * Unicode-normalises, strips accents, lowercases and turns everything that is
+ * not a letter or digit into single spaces.
+ */
+export function normalise(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** Normalised words, minus stop words and single characters. */
+export function tokenize(text: string): string[] {
+  const normalised = normalise(text);
+  if (!normalised) return [];
+  return normalised.split(" ").filter(t => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+const encoder = new TextEncoder();
+
+/** 32-bit FNV-1a over the UTF-8 bytes of `term`. */
+export function hashTerm(term: string): number {
+  let hash = 0x811c9dc5;
+  for (const byte of encoder.encode(term)) {
+    hash = Math.imul(hash ^ byte, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Counts how many terms fall into each bucket. Buckets are the hash modulo the
+ * length, which is what lets the contract fold a longer vector onto a shorter one.
+ */
+export function bucketVector(terms: string[], dimensions = MASK_BITS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const term of terms) vector[hashTerm(term) % dimensions]++;
+  return vector;
+}
+
+/** One bit per occupied bucket, as stored in the contract's uint32 title and abstract fields. */
+export function bucketMask(vector: number[]): number {
+  return vector.reduce((mask, count, bucket) => (count > 0 ? (mask | (1 << bucket)) >>> 0 : mask), 0);
+}
+
+/**
+ * Terms of a comma-separated keyword list. Each keyword contributes its own
+ * words, so "Homomorphic Encryption" and "encryption" share a bucket.
+ */
+export function keywordTerms(keywords: string): string[] {
+  return keywords.split(",").flatMap(tokenize);
+}
+
+/** The `ABSTRACT_TERMS` most frequent terms, ties broken alphabetically so the order never depends on input order. */
+export function salientTerms(text: string, limit = ABSTRACT_TERMS): string[] {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) counts.set(term, (counts.get(term) ?? 0) + 1);
+  return [...counts.entries()]
+    .sort(([a, ca], [b, cb]) => cb - ca || (a < b ? -1 : a > b ? 1 : 0))
+    .slice(0, limit)
+    .map(([term]) => term);
+}
+
+/**
+ * Vector for the paper's keywords or a reviewer's expertise; both sides must use
+ * this to be comparable. Counts are clamped the same way the contract clamps them.
+ */
+export function keywordVector(keywords: string, dimensions = DEFAULT_DIMENSIONS): number[] {
+  return bucketVector(keywordTerms(keywords), dimensions).map(count => Math.min(count, MAX_BUCKET_WEIGHT));
+}
+
+export function titleCode(title: string): number {
+  return bucketMask(bucketVector(tokenize(title)));
+}
+
+export function abstractCode(abstract: string): number {
+  return bucketMask(bucketVector(salientTerms(abstract)));
+}
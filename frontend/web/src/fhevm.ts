@@ -0,0 +1,38 @@
+// fhevm.ts
+import { getActiveNetwork, getProviderManager } from "./contract";
+import { Encryptor, FhevmInstanceLike, RelayerEncryptor, createMockFhevmInstance } from "./encryption";
+import type { RegisteredNetwork } from "./networks";
+
+const instances = new Map<number, Promise<FhevmInstanceLike>>();
+
+/**
+ * Initialises FHEVM for a chain of the registry. Chains with an `fhevm`
+ * deployment go through the relayer SDK, whose WASM bundle is only fetched
+ * then, with the injected wallet as the network provider. On a local node
+ * running the mock, the node encrypts itself and local runs stay offline.
+ */
+async function initInstance(network: RegisteredNetwork): Promise<FhevmInstanceLike> {
+  if (network.fhevmMock) {
+    return createMockFhevmInstance(getProviderManager(network.chainId).provider);
+  }
+  if (!network.fhevm) {
+    throw new Error(`${network.label} has no FHEVM deployment to encrypt for`);
+  }
+  const { initSDK, createInstance } = await import("@zama-fhe/relayer-sdk/web");
+  await initSDK();
+  const wallet = (window as any).ethereum;
+  return createInstance({ ...network.fhevm, chainId: network.chainId, network: wallet ?? network.rpcUrls[0] });
+}
+
+/** Encryptor for the active chain, initialised the first time that chain needs one. */
+export function getBrowserEncryptor(): Promise<Encryptor> {
+  const network = getActiveNetwork();
+  if (!network) return Promise.reject(new Error("No supported network selected"));
+  let instance = instances.get(network.chainId);
+  if (!instance) {
+    instance = initInstance(network);
+    instances.set(network.chainId, instance);
+    instance.catch(() => { instances.delete(network.chainId); });
+  }
+  return instance.then(i => new RelayerEncryptor(i));
+}
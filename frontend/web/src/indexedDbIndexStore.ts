@@ -0,0 +1,85 @@
+// indexedDbIndexStore.ts
+import { compareEvents } from "./indexer";
+import type { BlockRef, EventOfKind, IndexBatch, IndexedEvent, IndexedEventKind, IndexStore } from "./indexer";
+
+const EVENTS = "events";
+const BLOCKS = "blocks";
+const META = "meta";
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  const req = indexedDB.open(name, 1);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    const events = db.createObjectStore(EVENTS, { keyPath: ["blockNumber", "logIndex"] });
+    events.createIndex("kind", "kind");
+    db.createObjectStore(BLOCKS, { keyPath: "number" });
+    db.createObjectStore(META);
+  };
+  return request(req);
+}
+
+/**
+ * Persists the index in the browser so a reload only fetches blocks mined since
+ * the last visit. Events are stored as structured clones, which keep bigints.
+ */
+export class IndexedDbIndexStore implements IndexStore {
+  private readonly db: Promise<IDBDatabase>;
+
+  /** Use a name per chain and contract, e.g. `reviewer-rec-11155111-0xabc…`. */
+  constructor(name: string) {
+    this.db = openDatabase(name);
+  }
+
+  async getHead(): Promise<BlockRef | null> {
+    const tx = (await this.db).transaction(META, "readonly");
+    return (await request(tx.objectStore(META).get("head"))) ?? null;
+  }
+
+  async getRecentBlocks(): Promise<BlockRef[]> {
+    const tx = (await this.db).transaction(BLOCKS, "readonly");
+    const blocks: BlockRef[] = await request(tx.objectStore(BLOCKS).getAll());
+    return blocks.sort((a, b) => b.number - a.number);
+  }
+
+  async commit({ events, blocks, head, pruneBelow }: IndexBatch): Promise<void> {
+    const tx = (await this.db).transaction([EVENTS, BLOCKS, META], "readwrite");
+    for (const e of events) tx.objectStore(EVENTS).put(e);
+    for (const block of blocks) tx.objectStore(BLOCKS).put(block);
+    if (pruneBelow > 0) tx.objectStore(BLOCKS).delete(IDBKeyRange.upperBound(pruneBelow, true));
+    tx.objectStore(META).put(head, "head");
+    await completion(tx);
+  }
+
+  async rollback(to: BlockRef | null): Promise<void> {
+    const tx = (await this.db).transaction([EVENTS, BLOCKS, META], "readwrite");
+    if (to) {
+      tx.objectStore(EVENTS).delete(IDBKeyRange.lowerBound([to.number + 1, 0]));
+      tx.objectStore(BLOCKS).delete(IDBKeyRange.lowerBound(to.number + 1));
+      tx.objectStore(META).put(to, "head");
+    } else {
+      tx.objectStore(EVENTS).clear();
+      tx.objectStore(BLOCKS).clear();
+      tx.objectStore(META).delete("head");
+    }
+    await completion(tx);
+  }
+
+  async getEvents<K extends IndexedEventKind>(kind: K): Promise<EventOfKind<K>[]> {
+    const tx = (await this.db).transaction(EVENTS, "readonly");
+    const events: IndexedEvent[] = await request(tx.objectStore(EVENTS).index("kind").getAll(kind));
+    return events.sort(compareEvents) as EventOfKind<K>[];
+  }
+}
@@ -0,0 +1,248 @@
+// indexer.ts
+import type { Provider } from "ethers";
+import type {
+  MatchRevealedEvent,
+  MatchingRequestedEvent,
+  PaperSubmittedEvent,
+  ReviewerAddedEvent,
+  ReviewerRecClient,
+  ReviewerStatus,
+  ReviewerStatusChangedEvent
+} from "./reviewerRecClient";
+
+export type IndexedEvent =
+  | ({ kind: "PaperSubmitted" } & PaperSubmittedEvent)
+  | ({ kind: "ReviewerAdded" } & ReviewerAddedEvent)
+  | ({ kind: "MatchingRequested" } & MatchingRequestedEvent)
+  | ({ kind: "MatchRevealed" } & MatchRevealedEvent)
+  | ({ kind: "ReviewerStatusChanged" } & ReviewerStatusChangedEvent);
+
+export type IndexedEventKind = IndexedEvent["kind"];
+export type EventOfKind<K extends IndexedEventKind> = Extract<IndexedEvent, { kind: K }>;
+
+export const INDEXED_EVENT_KINDS: IndexedEventKind[] = [
+  "PaperSubmitted",
+  "ReviewerAdded",
+  "MatchingRequested",
+  "MatchRevealed",
+  "ReviewerStatusChanged"
+];
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+/** Everything learned from one block range, written atomically. */
+export interface IndexBatch {
+  events: IndexedEvent[];
+  /** Hashes of the blocks that held events plus the new head, for reorg detection */
+  blocks: BlockRef[];
+  head: BlockRef;
+  /** Block refs below this number are no longer needed and may be dropped */
+  pruneBelow: number;
+}
+
+/**
+ * Persistence behind the indexer. Implementations: `MemoryIndexStore` here,
+ * `IndexedDbIndexStore` in the browser and `SqliteIndexStore` in Node.
+ */
+export interface IndexStore {
+  /** Last block fully indexed, or null before the first sync */
+  getHead(): Promise<BlockRef | null>;
+  /** Recorded block refs at or below the head, newest first */
+  getRecentBlocks(): Promise<BlockRef[]>;
+  commit(batch: IndexBatch): Promise<void>;
+  /** Forget everything above `to`, which becomes the head; null clears the store */
+  rollback(to: BlockRef | null): Promise<void>;
+  /** Events of one kind in chain order */
+  getEvents<K extends IndexedEventKind>(kind: K): Promise<EventOfKind<K>[]>;
+}
+
+export interface IndexerOptions {
+  /** First block to scan, usually the deployment block. Defaults to 0. */
+  fromBlock?: number;
+  /** Blocks per queryFilter call; public RPCs reject wide ranges. Defaults to 2000. */
+  blockRange?: number;
+  /** Stay this many blocks behind the tip. Defaults to 0. */
+  confirmations?: number;
+  /** How far back block hashes are kept to find the fork point of a reorg. Defaults to 64. */
+  reorgDepth?: number;
+}
+
+export const compareEvents = (a: IndexedEvent, b: IndexedEvent): number =>
+  a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+/** JSON round trip that keeps bigints, for stores that persist events as text. */
+export function encodeEvent(event: IndexedEvent): string {
+  return JSON.stringify(event, (_, value) => (typeof value === "bigint" ? { $bigint: value.toString() } : value));
+}
+
+export function decodeEvent(json: string): IndexedEvent {
+  return JSON.parse(json, (_, value) =>
+    value && typeof value === "object" && typeof value.$bigint === "string" ? BigInt(value.$bigint) : value
+  );
+}
+
+/**
+ * Mirrors the contract's PaperSubmitted, ReviewerAdded, MatchingRequested,
+ * MatchRevealed and ReviewerStatusChanged logs into a local store so views can be rendered without one
+ * RPC per paper or reviewer. Each block range is committed on its own, so an
+ * interrupted sync resumes where it stopped. Before scanning, the recorded head
+ * is checked against the chain; after a reorg the store is rolled back to the
+ * newest recorded block that is still canonical and re-indexed from there.
+ */
+export class EventIndexer {
+  private readonly fromBlock: number;
+  private readonly blockRange: number;
+  private readonly confirmations: number;
+  private readonly reorgDepth: number;
+  private running: Promise<number> | null = null;
+
+  constructor(
+    readonly client: ReviewerRecClient,
+    readonly store: IndexStore,
+    options: IndexerOptions = {}
+  ) {
+    this.fromBlock = options.fromBlock ?? 0;
+    this.blockRange = options.blockRange ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+    this.reorgDepth = options.reorgDepth ?? 64;
+  }
+
+  /** Indexes up to the tip and returns the new head block. Overlapping calls share one run. */
+  sync(): Promise<number> {
+    if (!this.running) {
+      this.running = this.run().finally(() => { this.running = null; });
+    }
+    return this.running;
+  }
+
+  async papers(): Promise<EventOfKind<"PaperSubmitted">[]> {
+    return this.store.getEvents("PaperSubmitted");
+  }
+
+  async reviewers(): Promise<EventOfKind<"ReviewerAdded">[]> {
+    return this.store.getEvents("ReviewerAdded");
+  }
+
+  async matchingRequests(paperId?: bigint): Promise<EventOfKind<"MatchingRequested">[]> {
+    const events = await this.store.getEvents("MatchingRequested");
+    return paperId === undefined ? events : events.filter(e => e.paperId === paperId);
+  }
+
+  async reveals(paperId?: bigint): Promise<EventOfKind<"MatchRevealed">[]> {
+    const events = await this.store.getEvents("MatchRevealed");
+    return paperId === undefined ? events : events.filter(e => e.paperId === paperId);
+  }
+
+  /** Latest status of every reviewer that paused, resumed or deregistered; absent ids are active. */
+  async reviewerStatuses(): Promise<Map<bigint, ReviewerStatus>> {
+    const events = await this.store.getEvents("ReviewerStatusChanged");
+    return new Map(events.map(e => [e.reviewerId, e.status]));
+  }
+
+  private provider(): Provider {
+    const provider = this.client.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("EventIndexer needs a client connected to a provider");
+    }
+    return provider;
+  }
+
+  private async run(): Promise<number> {
+    const provider = this.provider();
+    await this.unwindReorg(provider);
+
+    const tip = (await provider.getBlockNumber()) - this.confirmations;
+    const head = await this.store.getHead();
+    let from = head ? head.number + 1 : this.fromBlock;
+    while (from <= tip) {
+      const to = Math.min(from + this.blockRange - 1, tip);
+      const events = await this.fetch(from, to);
+      const block = await provider.getBlock(to);
+      if (!block?.hash) throw new Error(`Block ${to} not available`);
+
+      const blocks = new Map<number, BlockRef>();
+      for (const e of events) blocks.set(e.blockNumber, { number: e.blockNumber, hash: e.blockHash });
+      blocks.set(to, { number: to, hash: block.hash });
+      await this.store.commit({
+        events,
+        blocks: [...blocks.values()],
+        head: { number: to, hash: block.hash },
+        pruneBelow: to - this.reorgDepth
+      });
+      from = to + 1;
+    }
+    return from - 1;
+  }
+
+  private async unwindReorg(provider: Provider): Promise<void> {
+    const recent = await this.store.getRecentBlocks();
+    for (const [i, ref] of recent.entries()) {
+      const block = await provider.getBlock(ref.number);
+      if (block?.hash === ref.hash) {
+        if (i > 0) await this.store.rollback(ref);
+        return;
+      }
+    }
+    // Nothing recorded survived: start over
+    if (recent.length > 0) await this.store.rollback(null);
+  }
+
+  private async fetch(from: number, to: number): Promise<IndexedEvent[]> {
+    const [papers, reviewers, requests, reveals, statuses] = await Promise.all([
+      this.client.queryPaperSubmitted(from, to),
+      this.client.queryReviewerAdded(from, to),
+      this.client.queryMatchingRequested(from, to),
+      this.client.queryMatchRevealed(from, to),
+      this.client.queryReviewerStatusChanged(from, to)
+    ]);
+    const events: IndexedEvent[] = [
+      ...papers.map(e => ({ kind: "PaperSubmitted" as const, ...e })),
+      ...reviewers.map(e => ({ kind: "ReviewerAdded" as const, ...e })),
+      ...requests.map(e => ({ kind: "MatchingRequested" as const, ...e })),
+      ...reveals.map(e => ({ kind: "MatchRevealed" as const, ...e })),
+      ...statuses.map(e => ({ kind: "ReviewerStatusChanged" as const, ...e }))
+    ];
+    return events.sort(compareEvents);
+  }
+}
+
+/** Keeps the index in process memory; useful for scripts, tests and as a fallback. */
+export class MemoryIndexStore implements IndexStore {
+  private head: BlockRef | null = null;
+  private blocks = new Map<number, BlockRef>();
+  private events: IndexedEvent[] = [];
+
+  async getHead(): Promise<BlockRef | null> {
+    return this.head;
+  }
+
+  async getRecentBlocks(): Promise<BlockRef[]> {
+    return [...this.blocks.values()].sort((a, b) => b.number - a.number);
+  }
+
+  async commit({ events, blocks, head, pruneBelow }: IndexBatch): Promise<void> {
+    this.events.push(...events);
+    this.events.sort(compareEvents);
+    for (const block of blocks) this.blocks.set(block.number, block);
+    for (const number of this.blocks.keys()) {
+      if (number < pruneBelow) this.blocks.delete(number);
+    }
+    this.head = head;
+  }
+
+  async rollback(to: BlockRef | null): Promise<void> {
+    const keep = to ? to.number : -1;
+    this.events = this.events.filter(e => e.blockNumber <= keep);
+    for (const number of this.blocks.keys()) {
+      if (number > keep) this.blocks.delete(number);
+    }
+    this.head = to;
+  }
+
+  async getEvents<K extends IndexedEventKind>(kind: K): Promise<EventOfKind<K>[]> {
+    return this.events.filter((e): e is EventOfKind<K> => e.kind === kind);
+  }
+}
@@ -5,15 +5,29 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { defineChain } from 'viem';
+import type { Chain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { networks } from './contract';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+// Every chain in the network registry, the default one first so wagmi starts there
+const chains = [
+  networks.defaultNetwork,
+  ...networks.all.filter(n => n !== networks.defaultNetwork)
+].map((n): Chain => defineChain({
+  id: n.chainId,
+  name: n.label,
+  nativeCurrency: n.nativeCurrency,
+  rpcUrls: { default: { http: n.rpcUrls } },
+  ...(n.explorerUrl ? { blockExplorers: { default: { name: `${n.label} explorer`, url: n.explorerUrl } } } : {})
+}));
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: chains as [Chain, ...Chain[]],
 });
 
 const queryClient = new QueryClient();
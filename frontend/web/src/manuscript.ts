@@ -0,0 +1,49 @@
+// manuscript.ts
+import type { PaperFeatures } from "./encryption";
+import { abstractCode, DEFAULT_DIMENSIONS, keywordVector, titleCode } from "./features";
+import { disciplineCode } from "./taxonomy";
+
+/** What the author types into the submission form. */
+export interface ManuscriptDraft {
+  title: string;
+  abstract: string;
+  /** Comma-separated */
+  keywords: string;
+  /** Id, name or alias from the discipline taxonomy */
+  discipline: string;
+  /** Comma-separated institution codes */
+  authorAffiliations: string;
+  /** Comma-separated scholar ids of authors, co-authors and advisors */
+  conflictIds: string;
+}
+
+function parseCodes(name: string, text: string): number[] {
+  return text.split(",").map(part => part.trim()).filter(Boolean).map(part => {
+    const code = Number(part);
+    if (!Number.isInteger(code) || code <= 0) {
+      throw new RangeError(`${name} must be positive whole numbers, got "${part}"`);
+    }
+    return code;
+  });
+}
+
+/**
+ * Reduces a manuscript to the codes and keyword vector `ReviewerRecFHE` stores,
+ * using the shared feature space. `dimensions` is the contract's current vector length.
+ */
+export function extractPaperFeatures(draft: ManuscriptDraft, dimensions = DEFAULT_DIMENSIONS): PaperFeatures {
+  const features = {
+    title: titleCode(draft.title),
+    abstract: abstractCode(draft.abstract),
+    keywords: keywordVector(draft.keywords, dimensions)
+  };
+  if (features.title === 0 || features.abstract === 0 || features.keywords.every(weight => weight === 0)) {
+    throw new RangeError("Title, abstract and keywords each need at least one meaningful word");
+  }
+  return {
+    ...features,
+    discipline: disciplineCode(draft.discipline),
+    authorAffiliations: parseCodes("Author affiliations", draft.authorAffiliations),
+    conflictIds: parseCodes("Conflict ids", draft.conflictIds)
+  };
+}
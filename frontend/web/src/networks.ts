@@ -0,0 +1,175 @@
+// networks.ts
+import { isAddress, toQuantity } from "ethers";
+import type { RpcNetworkConfig } from "./rpc";
+
+/**
+ * Registry of the chains the app knows, kept in `networks` of config.json under
+ * the network names hardhat uses. Hardhat builds its networks from it, deploys
+ * write addresses back into it, and the frontend uses it to follow the wallet
+ * from chain to chain.
+ */
+
+/** A chain's FHEVM deployment, in the shape of the relayer SDK's `SepoliaConfig`. */
+export interface FhevmNetworkConfig {
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  /** Gateway chain contracts the KMS and the coprocessors sign for */
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+  gatewayChainId: number;
+  relayerUrl: string;
+}
+
+export interface NetworkEntry extends RpcNetworkConfig {
+  /** Shown in the network menu and sent to wallets that do not know the chain yet */
+  label: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  /** Block explorer root, without a trailing slash; local chains have none */
+  explorerUrl?: string;
+  /** Legacy UniversalAdapter */
+  contractAddress?: string;
+  reviewerRecAddress?: string;
+  /** Where the event indexer starts scanning */
+  reviewerRecDeployBlock?: number;
+  deployer?: string;
+  /** Where the frontend encrypts inputs for this chain; without it, or `fhevmMock`, it cannot */
+  fhevm?: FhevmNetworkConfig;
+  /** The chain is a Hardhat node running the FHEVM mock, which serves its own addresses and input proofs */
+  fhevmMock?: boolean;
+}
+
+export interface NetworkRegistryJson {
+  /** Network read from until a wallet says otherwise */
+  network: string;
+  networks: Record<string, NetworkEntry>;
+}
+
+export interface RegisteredNetwork extends NetworkEntry {
+  /** Key in the registry, which is also the hardhat network name */
+  name: string;
+}
+
+/** `wallet_addEthereumChain` parameters, per EIP-3085. */
+export interface AddChainParameters {
+  chainId: string;
+  chainName: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  blockExplorerUrls?: string[];
+}
+
+/** The part of an EIP-1193 wallet provider the registry needs. */
+export interface WalletRequester {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+/** Wallets answer `wallet_switchEthereumChain` with this code for chains they have never seen. */
+const UNRECOGNIZED_CHAIN = 4902;
+
+const isBlank = (address: string | undefined) => !address;
+
+export class NetworkRegistry {
+  private readonly byName = new Map<string, RegisteredNetwork>();
+  private readonly byId = new Map<number, RegisteredNetwork>();
+
+  private constructor(readonly defaultNetwork: RegisteredNetwork, networks: RegisteredNetwork[]) {
+    for (const network of networks) {
+      this.byName.set(network.name, network);
+      this.byId.set(network.chainId, network);
+    }
+  }
+
+  /** Validates the registry, rejecting duplicate chain ids, networks without endpoints and malformed addresses. */
+  static fromJson(json: NetworkRegistryJson): NetworkRegistry {
+    const networks = Object.entries(json.networks).map(([name, entry]): RegisteredNetwork => ({ ...entry, name }));
+    const chainIds = new Set<number>();
+    for (const network of networks) {
+      if (!Number.isInteger(network.chainId) || network.chainId <= 0) {
+        throw new Error(`Invalid network registry: bad chainId for ${network.name}`);
+      }
+      if (chainIds.has(network.chainId)) {
+        throw new Error(`Invalid network registry: chainId ${network.chainId} is listed twice`);
+      }
+      if (!network.rpcUrls?.length) {
+        throw new Error(`Invalid network registry: ${network.name} has no RPC endpoints`);
+      }
+      for (const key of ["contractAddress", "reviewerRecAddress"] as const) {
+        const address = network[key];
+        if (!isBlank(address) && !isAddress(address)) {
+          throw new Error(`Invalid network registry: ${key} of ${network.name} is not an address`);
+        }
+      }
+      if (network.fhevm) {
+        if (network.fhevmMock) {
+          throw new Error(`Invalid network registry: ${network.name} cannot both run the FHEVM mock and name a deployment`);
+        }
+        const fhevm = network.fhevm;
+        for (const key of [
+          "aclContractAddress",
+          "kmsContractAddress",
+          "inputVerifierContractAddress",
+          "verifyingContractAddressDecryption",
+          "verifyingContractAddressInputVerification"
+        ] as const) {
+          if (!isAddress(fhevm[key])) {
+            throw new Error(`Invalid network registry: fhevm.${key} of ${network.name} is not an address`);
+          }
+        }
+        if (!Number.isInteger(fhevm.gatewayChainId) || fhevm.gatewayChainId <= 0 || !fhevm.relayerUrl) {
+          throw new Error(`Invalid network registry: fhevm of ${network.name} needs a gatewayChainId and a relayerUrl`);
+        }
+      }
+      chainIds.add(network.chainId);
+    }
+    const defaultNetwork = networks.find(n => n.name === json.network);
+    if (!defaultNetwork) {
+      throw new Error(`Invalid network registry: default network "${json.network}" is not listed`);
+    }
+    return new NetworkRegistry(defaultNetwork, networks);
+  }
+
+  /** Every network, in registry order. */
+  get all(): RegisteredNetwork[] {
+    return [...this.byName.values()];
+  }
+
+  get(name: string): RegisteredNetwork | undefined {
+    return this.byName.get(name);
+  }
+
+  byChainId(chainId: number | bigint): RegisteredNetwork | undefined {
+    return this.byId.get(Number(chainId));
+  }
+
+  /** True when ReviewerRecFHE has an address on the chain, which is what writes need. */
+  isDeployed(chainId: number | bigint): boolean {
+    return !isBlank(this.byChainId(chainId)?.reviewerRecAddress);
+  }
+
+  /** Link to a transaction or address on the chain's explorer; undefined for chains without one. */
+  explorerLink(chainId: number | bigint, kind: "tx" | "address", value: string): string | undefined {
+    const explorer = this.byChainId(chainId)?.explorerUrl;
+    return explorer ? `${explorer}/${kind}/${value}` : undefined;
+  }
+
+  addChainParameters(network: RegisteredNetwork): AddChainParameters {
+    return {
+      chainId: toQuantity(network.chainId),
+      chainName: network.label,
+      nativeCurrency: network.nativeCurrency,
+      rpcUrls: network.rpcUrls,
+      ...(network.explorerUrl ? { blockExplorerUrls: [network.explorerUrl] } : {})
+    };
+  }
+
+  /** Asks the wallet to switch chains, first teaching it the chain if it has never seen it. */
+  async switchWallet(wallet: WalletRequester, network: RegisteredNetwork): Promise<void> {
+    try {
+      await wallet.request({ method: "wallet_switchEthereumChain", params: [{ chainId: toQuantity(network.chainId) }] });
+    } catch (e: any) {
+      if (e?.code !== UNRECOGNIZED_CHAIN) throw e;
+      await wallet.request({ method: "wallet_addEthereumChain", params: [this.addChainParameters(network)] });
+    }
+  }
+}
@@ -0,0 +1,88 @@
+// reviewerProfile.ts
+import type { AvailabilityWindowInput, ReviewerFeatures, ReviewerProfileFeatures } from "./encryption";
+import { DEFAULT_DIMENSIONS, keywordVector } from "./features";
+import { disciplineCode } from "./taxonomy";
+
+/** What a scholar types into the "My Reviewer Profile" form. */
+export interface ReviewerDraft {
+  /** Comma-separated, in the same form as manuscript keywords */
+  expertise: string;
+  /** Id, name or alias from the discipline taxonomy */
+  discipline: string;
+  /** Institution code */
+  affiliation: string;
+  /** Optional; left blank it is stored as 0, which no paper can list as a conflict */
+  scholarId: string;
+  publicationCount: string;
+  /** Only sent at registration; afterwards the contract counts completed reviews */
+  reviewCount: string;
+}
+
+/** Calendar dates from the availability form, as `YYYY-MM-DD`; either may be blank. */
+export interface AvailabilityDraft {
+  from: string;
+  until: string;
+}
+
+/** Encrypted bounds are uint32 seconds, and an encrypted window cannot be left open-ended. */
+export const SEALED_OPEN_END = 0xffffffff;
+
+function parseWhole(name: string, text: string, blank?: number): number {
+  const trimmed = text.trim();
+  if (trimmed === "" && blank !== undefined) return blank;
+  const value = Number(trimmed);
+  if (trimmed === "" || !Number.isInteger(value) || value < 0) {
+    throw new RangeError(`${name} must be a whole number, got "${text}"`);
+  }
+  return value;
+}
+
+/** The fields an update replaces, in the feature space manuscripts use. */
+export function extractReviewerProfile(draft: ReviewerDraft, dimensions = DEFAULT_DIMENSIONS): ReviewerProfileFeatures {
+  const expertise = keywordVector(draft.expertise, dimensions);
+  if (expertise.every(weight => weight === 0)) {
+    throw new RangeError("Expertise needs at least one meaningful word");
+  }
+  const affiliation = parseWhole("Affiliation", draft.affiliation);
+  if (affiliation === 0) {
+    throw new RangeError("Affiliation must be a non-zero institution code");
+  }
+  return {
+    expertise,
+    discipline: disciplineCode(draft.discipline),
+    affiliation,
+    scholarId: parseWhole("Scholar id", draft.scholarId, 0),
+    publicationCount: parseWhole("Publication count", draft.publicationCount)
+  };
+}
+
+function parseDay(name: string, text: string, endOfDay: boolean): number | undefined {
+  const trimmed = text.trim();
+  if (trimmed === "") return undefined;
+  const ms = /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? Date.parse(`${trimmed}T00:00:00Z`) : NaN;
+  if (Number.isNaN(ms)) {
+    throw new RangeError(`${name} must be a date, got "${text}"`);
+  }
+  return ms / 1000 + (endOfDay ? 86_399 : 0);
+}
+
+/**
+ * Whole UTC days, both inclusive. A blank start means from now on; a blank end
+ * means open-ended, which a public window stores as 0.
+ */
+export function extractAvailabilityWindow(draft: AvailabilityDraft, encrypted: boolean): AvailabilityWindowInput {
+  const from = parseDay("Available from", draft.from, false) ?? 0;
+  const until = parseDay("Available until", draft.until, true);
+  if (until !== undefined && until < from) {
+    throw new RangeError("Availability must end after it starts");
+  }
+  return { from, until: until ?? (encrypted ? SEALED_OPEN_END : 0) };
+}
+
+/** Everything a new profile is registered with. */
+export function extractReviewerFeatures(draft: ReviewerDraft, dimensions = DEFAULT_DIMENSIONS): ReviewerFeatures {
+  return {
+    ...extractReviewerProfile(draft, dimensions),
+    reviewCount: parseWhole("Review count", draft.reviewCount, 0)
+  };
+}
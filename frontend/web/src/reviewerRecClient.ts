@@ -0,0 +1,904 @@
+// reviewerRecClient.ts
+import { ethers, BigNumberish, BytesLike, ContractRunner, ContractTransactionResponse, Signer } from "ethers";
+import type { TypedEventLog, TypedLogDescription } from "../../../types/common";
+import type { ReviewerRecFHE } from "../../../types/contracts/ReviewerRecFHE";
+import abiJson from "./abi/ReviewerRecFHE.json";
+import type { TransactionTracker } from "./transactions";
+import type {
+  AvailabilityWindowInput,
+  Encryptor,
+  PaperFeatures,
+  ReviewerFeatures,
+  ReviewerProfileFeatures
+} from "./encryption";
+
+export const REVIEWER_REC_ABI = (abiJson as any).abi || abiJson;
+
+/** On-chain role identifiers, matching the `*_ROLE` constants of the contract. */
+export const ROLES = {
+  admin: ethers.id("ADMIN_ROLE"),
+  editor: ethers.id("EDITOR_ROLE"),
+  reviewer: ethers.id("REVIEWER_ROLE"),
+  author: ethers.id("AUTHOR_ROLE")
+} as const;
+
+export type Role = keyof typeof ROLES;
+
+/** Which roles an account holds; an account may hold several. */
+export type RoleSet = Record<Role, boolean>;
+
+/** Encrypted handles for a manuscript, as produced by the FHE input pipeline. */
+export interface EncryptedPaperInput {
+  title: BytesLike;
+  abstract: BytesLike;
+  /** One handle per bucket of the keyword vector */
+  keywords: BytesLike[];
+  discipline: BytesLike;
+  authorAffiliations: BytesLike[];
+  conflictIds: BytesLike[];
+  inputProof: BytesLike;
+}
+
+/** Encrypted handles for the fields a reviewer maintains on their own profile. */
+export interface EncryptedProfileInput {
+  /** One handle per bucket of the expertise vector */
+  expertise: BytesLike[];
+  discipline: BytesLike;
+  affiliation: BytesLike;
+  scholarId: BytesLike;
+  publicationCount: BytesLike;
+  inputProof: BytesLike;
+}
+
+/** Encrypted handles for a new reviewer profile. */
+export interface EncryptedReviewerInput extends EncryptedProfileInput {
+  reviewCount: BytesLike;
+}
+
+/** Encrypted bounds of a private availability window. */
+export interface EncryptedAvailabilityInput {
+  from: BytesLike;
+  until: BytesLike;
+  inputProof: BytesLike;
+}
+
+export interface TxResult {
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface PaperSubmittedResult extends TxResult {
+  paperId: bigint;
+  timestamp: bigint;
+}
+
+export interface ReviewerAddedResult extends TxResult {
+  reviewerId: bigint;
+}
+
+export interface MatchingRequestedResult extends TxResult {
+  paperId: bigint;
+}
+
+export interface MatchingProgress {
+  active: boolean;
+  scoredReviewers: bigint;
+}
+
+/** Mirrors `ReviewerRecFHE.DecryptionKind`. */
+export enum DecryptionKind {
+  Matching = 0,
+  Reveal = 1
+}
+
+export enum DecryptionStatus {
+  None = 0,
+  Pending = 1,
+  Fulfilled = 2
+}
+
+/** Latest decryption oracle request of one kind for a paper. */
+export interface DecryptionRequest {
+  kind: DecryptionKind;
+  requestId: bigint;
+  status: DecryptionStatus;
+  /** Seconds; 0 when nothing was requested */
+  requestedAt: number;
+}
+
+export interface OracleWaitOptions {
+  /** Milliseconds before giving up on the oracle. Defaults to 120000. */
+  timeout?: number;
+  /** Milliseconds between status checks. Defaults to 3000. */
+  pollInterval?: number;
+}
+
+/** Mirrors `ReviewerRecFHE.PaperStatus`; statuses only move forward, except to Withdrawn. */
+export enum PaperStatus {
+  Submitted = 0,
+  Matching = 1,
+  ReviewersAssigned = 2,
+  UnderReview = 3,
+  Decided = 4,
+  Withdrawn = 5
+}
+
+export interface EncryptedPaper {
+  id: bigint;
+  encryptedTitle: string;
+  encryptedAbstract: string;
+  encryptedDiscipline: string;
+  /** Profile version of the keyword vector, read with `getPaperVector` */
+  profileVersion: number;
+  timestamp: bigint;
+  author: string;
+  /** Handling editor, or the zero address until an editor first requests matching */
+  editor: string;
+  status: PaperStatus;
+  statusUpdatedAt: bigint;
+}
+
+export interface PaperConflicts {
+  affiliations: string[];
+  scholarIds: string[];
+}
+
+/** Mirrors `ReviewerRecFHE.ReviewerStatus`; only active profiles are matched and invited. */
+export enum ReviewerStatus {
+  Active = 0,
+  Paused = 1,
+  Deregistered = 2
+}
+
+export interface EncryptedReviewer {
+  id: bigint;
+  /** Profile version of the expertise vector, read with `getReviewerVector` */
+  profileVersion: number;
+  encryptedDiscipline: string;
+  encryptedAffiliation: string;
+  encryptedScholarId: string;
+  encryptedPublicationCount: string;
+  encryptedReviewCount: string;
+  /** Reviews accepted but not yet completed */
+  encryptedActiveReviews: string;
+  /** Wallet that answers invitations and maintains the profile; the zero address for editor-curated profiles */
+  account: string;
+  status: ReviewerStatus;
+  /** Registration, or the owner's last update, in seconds */
+  updatedAt: bigint;
+  /** Last update, answer, pause or window change by the owner, in seconds */
+  lastActiveAt: bigint;
+}
+
+/** Mirrors `ReviewerRecFHE.Availability`. */
+export enum Availability {
+  Unavailable = 0,
+  Available = 1,
+  /** Active, with an encrypted window that only matching checks */
+  Sealed = 2
+}
+
+/** A reviewer's window as stored. Public bounds are zero when `encrypted` is set; `until` 0 is open-ended. */
+export interface AvailabilityWindow {
+  encrypted: boolean;
+  from: bigint;
+  until: bigint;
+  encryptedFrom: string;
+  encryptedUntil: string;
+}
+
+export interface ReviewerAvailability {
+  reviewerId: bigint;
+  availability: Availability;
+  lastActiveAt: bigint;
+}
+
+/** Mirrors `ReviewerRecFHE.InvitationStatus`. */
+export enum InvitationStatus {
+  None = 0,
+  Pending = 1,
+  Accepted = 2,
+  Declined = 3,
+  /** Accepted and marked complete by the handling editor */
+  Completed = 4
+}
+
+export interface Invitation {
+  paperId: bigint;
+  reviewerId: bigint;
+  status: InvitationStatus;
+}
+
+/** A ranked candidate for a paper. `score` is only set once the match has been revealed. */
+export interface RankedMatch {
+  rank: number;
+  reviewerId: bigint;
+  encryptedScore: string;
+  isRevealed: boolean;
+  score: number | null;
+}
+
+export interface EventMeta {
+  blockNumber: number;
+  /** Lets consumers that cache events notice when their block was reorganised away */
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface PaperSubmittedEvent extends EventMeta {
+  paperId: bigint;
+  timestamp: bigint;
+}
+
+export interface ReviewerAddedEvent extends EventMeta {
+  reviewerId: bigint;
+}
+
+export interface ReviewerUpdatedEvent extends EventMeta {
+  reviewerId: bigint;
+  timestamp: bigint;
+}
+
+export interface ReviewerStatusChangedEvent extends EventMeta {
+  reviewerId: bigint;
+  status: ReviewerStatus;
+}
+
+export interface AvailabilityChangedEvent extends EventMeta {
+  reviewerId: bigint;
+  encrypted: boolean;
+  from: bigint;
+  until: bigint;
+}
+
+export interface MatchingRequestedEvent extends EventMeta {
+  paperId: bigint;
+}
+
+export interface MatchingCompletedEvent extends EventMeta {
+  paperId: bigint;
+  matchCount: bigint;
+}
+
+export interface MatchRevealedEvent extends EventMeta {
+  paperId: bigint;
+  reviewerId: bigint;
+  rank: number;
+  score: number;
+}
+
+export interface ReviewerInvitedEvent extends EventMeta {
+  paperId: bigint;
+  reviewerId: bigint;
+}
+
+export interface InvitationAnsweredEvent extends EventMeta {
+  paperId: bigint;
+  reviewerId: bigint;
+  accepted: boolean;
+}
+
+export interface PaperStatusChangedEvent extends EventMeta {
+  paperId: bigint;
+  status: PaperStatus;
+  timestamp: bigint;
+}
+
+export interface ReviewCompletedEvent extends EventMeta {
+  paperId: bigint;
+  reviewerId: bigint;
+}
+
+export type BlockTag = number | "latest";
+
+const toMeta = (log: { blockNumber: number; blockHash: string; transactionHash: string; index: number }): EventMeta => ({
+  blockNumber: log.blockNumber,
+  blockHash: log.blockHash,
+  transactionHash: log.transactionHash,
+  logIndex: log.index
+});
+
+/**
+ * Typed wrapper around the ReviewerRecFHE contract. Method and event shapes
+ * are taken from the typechain bindings in `types/`, so a contract change that
+ * is not reflected here fails to compile instead of failing at runtime.
+ */
+export class ReviewerRecClient {
+  readonly contract: ReviewerRecFHE;
+  /** Receives every transaction the client sends, when given */
+  private readonly tracker?: TransactionTracker;
+
+  constructor(contract: ReviewerRecFHE, tracker?: TransactionTracker) {
+    this.contract = contract;
+    this.tracker = tracker;
+  }
+
+  static connect(address: string, runner: ContractRunner, tracker?: TransactionTracker): ReviewerRecClient {
+    const contract = new ethers.Contract(address, REVIEWER_REC_ABI, runner) as unknown as ReviewerRecFHE;
+    return new ReviewerRecClient(contract, tracker);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  async paperCount(): Promise<bigint> {
+    return this.contract.paperCount();
+  }
+
+  async reviewerCount(): Promise<bigint> {
+    return this.contract.reviewerCount();
+  }
+
+  async hasRole(role: Role, account: string): Promise<boolean> {
+    return this.contract.hasRole(ROLES[role], account);
+  }
+
+  async getRoles(account: string): Promise<RoleSet> {
+    const names = Object.keys(ROLES) as Role[];
+    const held = await Promise.all(names.map(role => this.hasRole(role, account)));
+    return Object.fromEntries(names.map((role, i) => [role, held[i]])) as RoleSet;
+  }
+
+  /** Admin only. */
+  async grantRole(role: Role, account: string): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.grantRole(ROLES[role], account));
+  }
+
+  /** Admin only. An admin cannot revoke their own admin role. */
+  async revokeRole(role: Role, account: string): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.revokeRole(ROLES[role], account));
+  }
+
+  /** Admin only. Moves a paper, and read access to its match scores, to another editor. */
+  async assignEditor(paperId: BigNumberish, editor: string): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.assignEditor(paperId, editor));
+  }
+
+  async getPaper(paperId: BigNumberish): Promise<EncryptedPaper> {
+    const p = await this.contract.encryptedPapers(paperId);
+    return {
+      id: p.id,
+      encryptedTitle: p.encryptedTitle,
+      encryptedAbstract: p.encryptedAbstract,
+      encryptedDiscipline: p.encryptedDiscipline,
+      profileVersion: Number(p.profileVersion),
+      timestamp: p.timestamp,
+      author: p.author,
+      editor: p.editor,
+      status: Number(p.status) as PaperStatus,
+      statusUpdatedAt: p.statusUpdatedAt
+    };
+  }
+
+  /** Encrypted conflict-of-interest lists of a paper; only its author may decrypt them. */
+  async getPaperConflicts(paperId: BigNumberish): Promise<PaperConflicts> {
+    const [affiliations, scholarIds] = await this.contract.getPaperConflicts(paperId);
+    return { affiliations: [...affiliations], scholarIds: [...scholarIds] };
+  }
+
+  async getReviewer(reviewerId: BigNumberish): Promise<EncryptedReviewer> {
+    const r = await this.contract.encryptedReviewers(reviewerId);
+    return {
+      id: r.id,
+      profileVersion: Number(r.profileVersion),
+      encryptedDiscipline: r.encryptedDiscipline,
+      encryptedAffiliation: r.encryptedAffiliation,
+      encryptedScholarId: r.encryptedScholarId,
+      encryptedPublicationCount: r.encryptedPublicationCount,
+      encryptedReviewCount: r.encryptedReviewCount,
+      encryptedActiveReviews: r.encryptedActiveReviews,
+      account: r.account,
+      status: Number(r.status) as ReviewerStatus,
+      updatedAt: r.updatedAt,
+      lastActiveAt: r.lastActiveAt
+    };
+  }
+
+  /** Bucket handles of a paper's keyword vector; only its author may decrypt them. */
+  async getPaperVector(paperId: BigNumberish): Promise<string[]> {
+    return [...(await this.contract.getPaperVector(paperId))];
+  }
+
+  /** Bucket handles of a reviewer's expertise vector; only the registering wallet may decrypt them. */
+  async getReviewerVector(reviewerId: BigNumberish): Promise<string[]> {
+    return [...(await this.contract.getReviewerVector(reviewerId))];
+  }
+
+  /** Vector length new papers and profiles must be encoded with. */
+  async profileDimensions(): Promise<number> {
+    return Number(await this.contract.profileDimensions(await this.contract.currentProfileVersion()));
+  }
+
+  /** Admin only. Later papers and profiles use the new length; existing ones are folded when compared. */
+  async addProfileVersion(dimensions: number): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.addProfileVersion(dimensions));
+  }
+
+  /** Ranked candidates, best first. Empty until the oracle has returned the ranking. */
+  async getMatches(paperId: BigNumberish): Promise<RankedMatch[]> {
+    const matches = await this.contract.getMatches(paperId);
+    return matches.map((m, rank) => ({
+      rank,
+      reviewerId: m.reviewerId,
+      encryptedScore: m.matchScore,
+      isRevealed: m.isRevealed,
+      score: m.isRevealed ? Number(m.revealedScore) : null
+    }));
+  }
+
+  async getMatchingProgress(paperId: BigNumberish): Promise<MatchingProgress> {
+    const [active, scoredReviewers] = await this.contract.getMatchingProgress(paperId);
+    return { active, scoredReviewers };
+  }
+
+  async getDecryptionRequest(paperId: BigNumberish, kind: DecryptionKind): Promise<DecryptionRequest> {
+    const [requestId, status, requestedAt] = await this.contract.getDecryptionRequest(paperId, kind);
+    return { kind, requestId, status: Number(status) as DecryptionStatus, requestedAt: Number(requestedAt) };
+  }
+
+  /**
+   * Resolves with the new ranking once the oracle has answered the paper's
+   * latest matching request. Call it after every batch has been scored, as
+   * `runMatching` does; while scoring the previous round's request is still the latest.
+   */
+  async waitForMatch(paperId: BigNumberish, options: OracleWaitOptions = {}): Promise<RankedMatch[]> {
+    if ((await this.getMatchingProgress(paperId)).active) {
+      throw new Error(`Matching of paper ${paperId} is still scoring reviewers`);
+    }
+    await this.waitForDecryption(paperId, DecryptionKind.Matching, options);
+    return this.getMatches(paperId);
+  }
+
+  /** Resolves with the ranking, scores included, once the oracle has answered the paper's latest reveal request. */
+  async waitForReveal(paperId: BigNumberish, options: OracleWaitOptions = {}): Promise<RankedMatch[]> {
+    await this.waitForDecryption(paperId, DecryptionKind.Reveal, options);
+    return this.getMatches(paperId);
+  }
+
+  async submitEncryptedPaper(input: EncryptedPaperInput): Promise<PaperSubmittedResult> {
+    const tx = await this.contract.submitEncryptedPaper(
+      input.title,
+      input.abstract,
+      input.keywords,
+      input.discipline,
+      input.authorAffiliations,
+      input.conflictIds,
+      input.inputProof
+    );
+    const { receipt, args } = await this.waitForEvent(tx, "PaperSubmitted");
+    return { ...receipt, paperId: args.id, timestamp: args.timestamp };
+  }
+
+  /** Encrypts the features for the connected signer without sending anything, e.g. to preview them. */
+  async encryptPaper(features: PaperFeatures, encryptor: Encryptor): Promise<EncryptedPaperInput> {
+    return encryptor.encryptPaper(features, await this.getAddress(), await this.signerAddress());
+  }
+
+  /** Encrypts the features for the connected signer and submits them. */
+  async submitPaper(features: PaperFeatures, encryptor: Encryptor): Promise<PaperSubmittedResult> {
+    return this.submitEncryptedPaper(await this.encryptPaper(features, encryptor));
+  }
+
+  async addEncryptedReviewer(input: EncryptedReviewerInput): Promise<ReviewerAddedResult> {
+    const tx = await this.contract.addEncryptedReviewer(
+      input.expertise,
+      input.discipline,
+      input.affiliation,
+      input.scholarId,
+      input.publicationCount,
+      input.reviewCount,
+      input.inputProof
+    );
+    const { receipt, args } = await this.waitForEvent(tx, "ReviewerAdded");
+    return { ...receipt, reviewerId: args.id };
+  }
+
+  /** Encrypts the features for the connected signer and registers the reviewer. */
+  async addReviewer(features: ReviewerFeatures, encryptor: Encryptor): Promise<ReviewerAddedResult> {
+    const input = await encryptor.encryptReviewer(features, await this.getAddress(), await this.signerAddress());
+    return this.addEncryptedReviewer(input);
+  }
+
+  /** Owner only. Replaces the profile's encrypted fields; review counts are kept. */
+  async updateEncryptedReviewer(reviewerId: BigNumberish, input: EncryptedProfileInput): Promise<TxResult> {
+    const tx = await this.contract.updateEncryptedReviewer(
+      reviewerId,
+      input.expertise,
+      input.discipline,
+      input.affiliation,
+      input.scholarId,
+      input.publicationCount,
+      input.inputProof
+    );
+    return this.waitForReceipt(tx);
+  }
+
+  /** Encrypts the features for the connected signer and updates their profile. */
+  async updateReviewer(
+    reviewerId: BigNumberish,
+    features: ReviewerProfileFeatures,
+    encryptor: Encryptor
+  ): Promise<TxResult> {
+    const input = await encryptor.encryptProfile(features, await this.getAddress(), await this.signerAddress());
+    return this.updateEncryptedReviewer(reviewerId, input);
+  }
+
+  /** Owner only. A paused profile is skipped by matching and cannot be invited. */
+  async setReviewerPaused(reviewerId: BigNumberish, paused: boolean): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.setReviewerPaused(reviewerId, paused));
+  }
+
+  async getAvailabilityWindow(reviewerId: BigNumberish): Promise<AvailabilityWindow> {
+    const w = await this.contract.availabilityWindows(reviewerId);
+    return {
+      encrypted: w.encrypted,
+      from: w.from,
+      until: w.until,
+      encryptedFrom: w.encryptedFrom,
+      encryptedUntil: w.encryptedUntil
+    };
+  }
+
+  /** One call for the whole list, however many reviewers it holds. */
+  async getReviewerAvailability(reviewerIds: BigNumberish[]): Promise<ReviewerAvailability[]> {
+    const [availability, lastActiveAt] = await this.contract.getReviewerAvailability(reviewerIds);
+    return reviewerIds.map((reviewerId, i) => ({
+      reviewerId: BigInt(reviewerId),
+      availability: Number(availability[i]) as Availability,
+      lastActiveAt: lastActiveAt[i]
+    }));
+  }
+
+  /** Owner only. Publishes the window; `until` 0 leaves it open-ended. */
+  async setAvailability(reviewerId: BigNumberish, window: AvailabilityWindowInput): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.setAvailability(reviewerId, window.from, window.until));
+  }
+
+  /** Owner only. */
+  async setEncryptedAvailability(reviewerId: BigNumberish, input: EncryptedAvailabilityInput): Promise<TxResult> {
+    return this.waitForReceipt(
+      await this.contract.setEncryptedAvailability(reviewerId, input.from, input.until, input.inputProof)
+    );
+  }
+
+  /** Encrypts the window for the connected signer, so only matching can tell whether they are available. */
+  async setPrivateAvailability(
+    reviewerId: BigNumberish,
+    window: AvailabilityWindowInput,
+    encryptor: Encryptor
+  ): Promise<TxResult> {
+    const input = await encryptor.encryptAvailability(window, await this.getAddress(), await this.signerAddress());
+    return this.setEncryptedAvailability(reviewerId, input);
+  }
+
+  /** Owner only, and final. */
+  async deregisterReviewer(reviewerId: BigNumberish): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.deregisterReviewer(reviewerId));
+  }
+
+  /**
+   * Starts a matching round that keeps the best `k` reviewers (1..MAX_TOP_K).
+   * Editors only; the first editor to match a paper becomes its handling editor.
+   * Refused while a matching or reveal decryption of the paper is still pending.
+   */
+  async requestMatchingReviewers(paperId: BigNumberish, k: number): Promise<MatchingRequestedResult> {
+    const tx = await this.contract.requestMatchingReviewers(paperId, k);
+    const { receipt, args } = await this.waitForEvent(tx, "MatchingRequested");
+    return { ...receipt, paperId: args.paperId };
+  }
+
+  /**
+   * Scores the next batch of reviewers. Returns true while more batches remain;
+   * once it returns false the ranking has been sent to the decryption oracle.
+   */
+  async continueMatching(paperId: BigNumberish): Promise<boolean> {
+    const tx = await this.contract.continueMatching(paperId);
+    await this.waitForReceipt(tx);
+    return (await this.getMatchingProgress(paperId)).active;
+  }
+
+  /** Requests matching and keeps scoring batches until every reviewer has been scored. */
+  async runMatching(paperId: BigNumberish, k: number): Promise<MatchingRequestedResult> {
+    const result = await this.requestMatchingReviewers(paperId, k);
+    while ((await this.getMatchingProgress(paperId)).active) {
+      await this.continueMatching(paperId);
+    }
+    return result;
+  }
+
+  async maxTopK(): Promise<number> {
+    return Number(await this.contract.MAX_TOP_K());
+  }
+
+  /**
+   * Starts the reveal of the candidate at `rank` (0 is the best match).
+   * `MatchRevealed` is only emitted once the decryption oracle has called
+   * back, so watch `onMatchRevealed` or `waitForReveal` for it. A paper has
+   * one decryption in flight at a time, and none while it is being re-matched.
+   */
+  async revealMatchedReviewer(paperId: BigNumberish, rank: number): Promise<TxResult> {
+    const tx = await this.contract.revealMatchedReviewer(paperId, rank);
+    return this.waitForReceipt(tx);
+  }
+
+  /** Handling editor only; moves a paper with accepted reviewers to UnderReview. */
+  async startReview(paperId: BigNumberish): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.startReview(paperId));
+  }
+
+  /** Handling editor only; moves a paper under review to Decided. */
+  async recordDecision(paperId: BigNumberish): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.recordDecision(paperId));
+  }
+
+  /** Author only, any time before the decision. */
+  async withdrawPaper(paperId: BigNumberish): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.withdrawPaper(paperId));
+  }
+
+  /** Handling editor only. The reviewer must be in the paper's current ranking. */
+  async inviteReviewer(paperId: BigNumberish, reviewerId: BigNumberish): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.inviteReviewer(paperId, reviewerId));
+  }
+
+  /** Must be sent from the wallet bound to the reviewer profile. */
+  async respondToInvitation(paperId: BigNumberish, reviewerId: BigNumberish, accept: boolean): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.respondToInvitation(paperId, reviewerId, accept));
+  }
+
+  /** Handling editor only; frees one slot of the reviewer's encrypted load. */
+  async completeReview(paperId: BigNumberish, reviewerId: BigNumberish): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.completeReview(paperId, reviewerId));
+  }
+
+  /** Reviews in progress at which a reviewer stops being matched. */
+  async maxConcurrentReviews(): Promise<number> {
+    return Number(await this.contract.maxConcurrentReviews());
+  }
+
+  /** Admin only. */
+  async setMaxConcurrentReviews(cap: number): Promise<TxResult> {
+    return this.waitForReceipt(await this.contract.setMaxConcurrentReviews(cap));
+  }
+
+  async getInvitationStatus(paperId: BigNumberish, reviewerId: BigNumberish): Promise<InvitationStatus> {
+    return Number(await this.contract.getInvitationStatus(paperId, reviewerId)) as InvitationStatus;
+  }
+
+  /** Every invitation a reviewer received, oldest first. */
+  async getInvitations(reviewerId: BigNumberish): Promise<Invitation[]> {
+    const [paperIds, statuses] = await this.contract.getInvitations(reviewerId);
+    return paperIds.map((paperId, i) => ({
+      paperId,
+      reviewerId: BigInt(reviewerId),
+      status: Number(statuses[i]) as InvitationStatus
+    }));
+  }
+
+  /** Reviewer profiles registered by `account` itself. */
+  async getReviewerIds(account: string): Promise<bigint[]> {
+    return [...(await this.contract.getReviewerIds(account))];
+  }
+
+  async queryPaperSubmitted(fromBlock: BlockTag = 0, toBlock: BlockTag = "latest"): Promise<PaperSubmittedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.PaperSubmitted(), fromBlock, toBlock);
+    return logs.map(log => ({ ...toMeta(log), paperId: log.args.id, timestamp: log.args.timestamp }));
+  }
+
+  async queryReviewerAdded(fromBlock: BlockTag = 0, toBlock: BlockTag = "latest"): Promise<ReviewerAddedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.ReviewerAdded(), fromBlock, toBlock);
+    return logs.map(log => ({ ...toMeta(log), reviewerId: log.args.id }));
+  }
+
+  async queryReviewerUpdated(fromBlock: BlockTag = 0, toBlock: BlockTag = "latest"): Promise<ReviewerUpdatedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.ReviewerUpdated(), fromBlock, toBlock);
+    return logs.map(log => ({ ...toMeta(log), reviewerId: log.args.id, timestamp: log.args.timestamp }));
+  }
+
+  async queryReviewerStatusChanged(
+    fromBlock: BlockTag = 0,
+    toBlock: BlockTag = "latest"
+  ): Promise<ReviewerStatusChangedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.ReviewerStatusChanged(), fromBlock, toBlock);
+    return logs.map(log => ({
+      ...toMeta(log),
+      reviewerId: log.args.id,
+      status: Number(log.args.status) as ReviewerStatus
+    }));
+  }
+
+  async queryAvailabilityChanged(
+    fromBlock: BlockTag = 0,
+    toBlock: BlockTag = "latest"
+  ): Promise<AvailabilityChangedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.AvailabilityChanged(), fromBlock, toBlock);
+    return logs.map(log => ({
+      ...toMeta(log),
+      reviewerId: log.args.reviewerId,
+      encrypted: log.args.encrypted,
+      from: log.args.from,
+      until: log.args.until
+    }));
+  }
+
+  async queryMatchingRequested(fromBlock: BlockTag = 0, toBlock: BlockTag = "latest"): Promise<MatchingRequestedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.MatchingRequested(), fromBlock, toBlock);
+    return logs.map(log => ({ ...toMeta(log), paperId: log.args.paperId }));
+  }
+
+  async queryMatchingCompleted(fromBlock: BlockTag = 0, toBlock: BlockTag = "latest"): Promise<MatchingCompletedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.MatchingCompleted(), fromBlock, toBlock);
+    return logs.map(log => ({ ...toMeta(log), paperId: log.args.paperId, matchCount: log.args.matchCount }));
+  }
+
+  async queryMatchRevealed(fromBlock: BlockTag = 0, toBlock: BlockTag = "latest"): Promise<MatchRevealedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.MatchRevealed(), fromBlock, toBlock);
+    return logs.map(log => ({
+      ...toMeta(log),
+      paperId: log.args.paperId,
+      reviewerId: log.args.reviewerId,
+      rank: Number(log.args.rank),
+      score: Number(log.args.score)
+    }));
+  }
+
+  async queryReviewerInvited(fromBlock: BlockTag = 0, toBlock: BlockTag = "latest"): Promise<ReviewerInvitedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.ReviewerInvited(), fromBlock, toBlock);
+    return logs.map(log => ({
+      ...toMeta(log),
+      paperId: log.args.paperId,
+      reviewerId: log.args.reviewerId
+    }));
+  }
+
+  async queryInvitationAnswered(fromBlock: BlockTag = 0, toBlock: BlockTag = "latest"): Promise<InvitationAnsweredEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.InvitationAnswered(), fromBlock, toBlock);
+    return logs.map(log => ({
+      ...toMeta(log),
+      paperId: log.args.paperId,
+      reviewerId: log.args.reviewerId,
+      accepted: log.args.accepted
+    }));
+  }
+
+  /** Every status a paper went through, oldest first; pass no paperId for all papers. */
+  async queryPaperStatusChanged(
+    paperId?: BigNumberish,
+    fromBlock: BlockTag = 0,
+    toBlock: BlockTag = "latest"
+  ): Promise<PaperStatusChangedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.PaperStatusChanged(paperId), fromBlock, toBlock);
+    return logs.map(log => ({
+      ...toMeta(log),
+      paperId: log.args.paperId,
+      status: Number(log.args.status) as PaperStatus,
+      timestamp: log.args.timestamp
+    }));
+  }
+
+  async queryReviewCompleted(fromBlock: BlockTag = 0, toBlock: BlockTag = "latest"): Promise<ReviewCompletedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.ReviewCompleted(), fromBlock, toBlock);
+    return logs.map(log => ({ ...toMeta(log), paperId: log.args.paperId, reviewerId: log.args.reviewerId }));
+  }
+
+  /** Each `on*` helper returns an unsubscribe function. */
+  onPaperSubmitted(listener: (paperId: bigint, timestamp: bigint) => void): () => void {
+    const filter = this.contract.filters.PaperSubmitted();
+    const handler = (id: bigint, timestamp: bigint) => listener(id, timestamp);
+    this.contract.on(filter, handler);
+    return () => { this.contract.off(filter, handler); };
+  }
+
+  onReviewerAdded(listener: (reviewerId: bigint) => void): () => void {
+    const filter = this.contract.filters.ReviewerAdded();
+    const handler = (id: bigint) => listener(id);
+    this.contract.on(filter, handler);
+    return () => { this.contract.off(filter, handler); };
+  }
+
+  onMatchingRequested(listener: (paperId: bigint) => void): () => void {
+    const filter = this.contract.filters.MatchingRequested();
+    const handler = (paperId: bigint) => listener(paperId);
+    this.contract.on(filter, handler);
+    return () => { this.contract.off(filter, handler); };
+  }
+
+  onMatchRevealed(listener: (paperId: bigint, reviewerId: bigint, rank: number, score: number) => void): () => void {
+    const filter = this.contract.filters.MatchRevealed();
+    const handler = (paperId: bigint, reviewerId: bigint, rank: bigint, score: bigint) =>
+      listener(paperId, reviewerId, Number(rank), Number(score));
+    this.contract.on(filter, handler);
+    return () => { this.contract.off(filter, handler); };
+  }
+
+  onPaperStatusChanged(listener: (paperId: bigint, status: PaperStatus, timestamp: bigint) => void): () => void {
+    const filter = this.contract.filters.PaperStatusChanged();
+    const handler = (paperId: bigint, status: bigint, timestamp: bigint) =>
+      listener(paperId, Number(status) as PaperStatus, timestamp);
+    this.contract.on(filter, handler);
+    return () => { this.contract.off(filter, handler); };
+  }
+
+  /**
+   * Invitations addressed to any of `reviewerIds`, e.g. to refresh a reviewer's
+   * inbox. The event does not name the wallet, so pass `getReviewerIds(account)`.
+   */
+  onReviewerInvited(reviewerIds: bigint[], listener: (paperId: bigint, reviewerId: bigint) => void): () => void {
+    const filter = this.contract.filters.ReviewerInvited();
+    const handler = (paperId: bigint, reviewerId: bigint) => {
+      if (reviewerIds.includes(reviewerId)) listener(paperId, reviewerId);
+    };
+    this.contract.on(filter, handler);
+    return () => { this.contract.off(filter, handler); };
+  }
+
+  onInvitationAnswered(listener: (paperId: bigint, reviewerId: bigint, accepted: boolean) => void): () => void {
+    const filter = this.contract.filters.InvitationAnswered();
+    const handler = (paperId: bigint, reviewerId: bigint, accepted: boolean) => listener(paperId, reviewerId, accepted);
+    this.contract.on(filter, handler);
+    return () => { this.contract.off(filter, handler); };
+  }
+
+  private async signerAddress(): Promise<string> {
+    const runner = this.contract.runner as Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new Error("ReviewerRecClient needs a signer to encrypt inputs");
+    }
+    return runner.getAddress();
+  }
+
+  private async waitForDecryption(paperId: BigNumberish, kind: DecryptionKind, options: OracleWaitOptions) {
+    const timeout = options.timeout ?? 120000;
+    const pollInterval = options.pollInterval ?? 3000;
+    const what = kind === DecryptionKind.Matching ? "matching" : "reveal";
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const request = await this.getDecryptionRequest(paperId, kind);
+      if (request.status === DecryptionStatus.None) {
+        throw new Error(`No ${what} decryption was requested for paper ${paperId}`);
+      }
+      if (request.status === DecryptionStatus.Fulfilled) return request;
+      if (Date.now() + pollInterval > deadline) {
+        throw new Error(
+          `Decryption oracle has not answered ${what} request ${request.requestId} of paper ${paperId} within ${timeout / 1000}s`
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+    }
+  }
+
+  private async mined(tx: ContractTransactionResponse) {
+    const receipt = this.tracker
+      ? await this.tracker.track(tx, { iface: this.contract.interface })
+      : await tx.wait();
+    if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+    return receipt;
+  }
+
+  private async waitForReceipt(tx: ContractTransactionResponse): Promise<TxResult> {
+    const receipt = await this.mined(tx);
+    return { transactionHash: receipt.hash, blockNumber: receipt.blockNumber };
+  }
+
+  private async waitForEvent<K extends keyof ReviewerRecFHE["filters"]>(
+    tx: ContractTransactionResponse,
+    eventName: K
+  ): Promise<{ receipt: TxResult; args: TypedEventLog<ReviewerRecFHE["filters"][K]>["args"] }> {
+    const receipt = await this.mined(tx);
+    const address = (await this.contract.getAddress()).toLowerCase();
+    const { topicHash } = this.contract.filters[eventName].fragment;
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== address || log.topics[0] !== topicHash) continue;
+      const parsed = this.contract.interface.parseLog(log) as TypedLogDescription<ReviewerRecFHE["filters"][K]> | null;
+      if (parsed) {
+        return {
+          receipt: { transactionHash: receipt.hash, blockNumber: receipt.blockNumber },
+          args: parsed.args
+        };
+      }
+    }
+    throw new Error(`${eventName} not emitted by transaction ${receipt.hash}`);
+  }
+}
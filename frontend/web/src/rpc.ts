@@ -0,0 +1,211 @@
+// rpc.ts
+import { FetchRequest, JsonRpcApiProvider, JsonRpcProvider, Network } from "ethers";
+import type { JsonRpcError, JsonRpcPayload, JsonRpcResult } from "ethers";
+
+/** One entry of `networks` in config.json. */
+export interface RpcNetworkConfig {
+  chainId: number;
+  /** Tried in this order until health data says otherwise */
+  rpcUrls: string[];
+}
+
+export interface RpcConfig {
+  /** Key of `networks` to connect to */
+  network: string;
+  networks: Record<string, RpcNetworkConfig>;
+}
+
+export interface SelectedNetwork extends RpcNetworkConfig {
+  name: string;
+}
+
+/**
+ * Picks the network to read from. `RPC_NETWORK` overrides the configured name,
+ * for instance `localhost` to use a Hardhat node, and `RPC_URLS` (comma-separated)
+ * replaces its endpoint list.
+ */
+export function selectRpcNetwork(config: RpcConfig, env: Record<string, string | undefined> = {}): SelectedNetwork {
+  const name = env.RPC_NETWORK || config.network;
+  const network = config.networks[name];
+  if (!network) {
+    throw new Error(`Unknown RPC network "${name}"; configured: ${Object.keys(config.networks).join(", ")}`);
+  }
+  const rpcUrls = env.RPC_URLS
+    ? env.RPC_URLS.split(",").map(url => url.trim()).filter(Boolean)
+    : network.rpcUrls;
+  if (rpcUrls.length === 0) {
+    throw new Error(`No RPC endpoints configured for "${name}"`);
+  }
+  return { name, chainId: network.chainId, rpcUrls };
+}
+
+export interface EndpointHealth {
+  url: string;
+  /** Smoothed round trip of successful calls in milliseconds; null until one succeeds */
+  latency: number | null;
+  successes: number;
+  failures: number;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  lastError?: string;
+  /** Epoch milliseconds before which the endpoint is only tried as a last resort */
+  benchedUntil: number;
+  /** Higher is better; 0 while benched */
+  score: number;
+}
+
+export interface ProviderManagerOptions {
+  /** Milliseconds before a call to one endpoint is abandoned for the next. Defaults to 10000. */
+  timeout?: number;
+  /** Weight of the newest sample in the latency average. Defaults to 0.3. */
+  smoothing?: number;
+  /** Milliseconds a failed endpoint sits out, doubling with each consecutive failure up to 8x. Defaults to 30000. */
+  cooldown?: number;
+}
+
+interface Endpoint {
+  url: string;
+  provider: JsonRpcProvider;
+  latency: number | null;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  benchedUntil: number;
+}
+
+/**
+ * Read access to one chain through a list of RPC endpoints. Every call goes to
+ * the healthiest endpoint; a transport error or timeout benches it and the same
+ * call is retried on the next one, so a dying endpoint is left mid-session
+ * without the caller noticing. JSON-RPC errors such as reverts are answers,
+ * not failures, and are passed through.
+ */
+export class ProviderManager {
+  readonly network: Network;
+  /** Shared by every reader of the chain; never swapped, so listeners survive a failover */
+  readonly provider: JsonRpcApiProvider;
+  private readonly endpoints: Endpoint[];
+  private readonly timeout: number;
+  private readonly smoothing: number;
+  private readonly cooldown: number;
+
+  constructor(selected: SelectedNetwork, options: ProviderManagerOptions = {}) {
+    this.timeout = options.timeout ?? 10000;
+    this.smoothing = options.smoothing ?? 0.3;
+    this.cooldown = options.cooldown ?? 30000;
+    this.network = new Network(selected.name, selected.chainId);
+    this.endpoints = selected.rpcUrls.map(url => {
+      const request = new FetchRequest(url);
+      request.timeout = this.timeout;
+      return {
+        url,
+        provider: new JsonRpcProvider(request, this.network, { staticNetwork: this.network, batchMaxCount: 1 }),
+        latency: null,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        benchedUntil: 0
+      };
+    });
+    this.provider = new FailoverProvider(this);
+  }
+
+  /** Endpoints best first, the order the next call will try them in. */
+  health(): EndpointHealth[] {
+    return this.ranked().map(e => ({
+      url: e.url,
+      latency: e.latency,
+      successes: e.successes,
+      failures: e.failures,
+      consecutiveFailures: e.consecutiveFailures,
+      lastError: e.lastError,
+      benchedUntil: e.benchedUntil,
+      score: this.score(e)
+    }));
+  }
+
+  /**
+   * Asks every endpoint for its chain id at once, recording latency and
+   * benching any that are down or serve a different chain.
+   */
+  async probe(): Promise<EndpointHealth[]> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const started = Date.now();
+      try {
+        const chainId = BigInt(await endpoint.provider.send("eth_chainId", []));
+        if (chainId !== this.network.chainId) {
+          throw new Error(`serves chain ${chainId}, expected ${this.network.chainId}`);
+        }
+        this.succeeded(endpoint, Date.now() - started);
+      } catch (e) {
+        this.failed(endpoint, e);
+      }
+    }));
+    return this.health();
+  }
+
+  /** Sends a request to each endpoint in rank order until one answers. */
+  async send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<Array<JsonRpcResult | JsonRpcError>> {
+    const errors: string[] = [];
+    for (const endpoint of this.ranked()) {
+      const started = Date.now();
+      try {
+        const result = await endpoint.provider._send(payload);
+        this.succeeded(endpoint, Date.now() - started);
+        return result;
+      } catch (e) {
+        this.failed(endpoint, e);
+        errors.push(`${endpoint.url}: ${endpoint.lastError}`);
+      }
+    }
+    throw new Error(`All RPC endpoints for ${this.network.name} failed (${errors.join("; ")})`);
+  }
+
+  destroy(): void {
+    this.provider.destroy();
+    for (const endpoint of this.endpoints) endpoint.provider.destroy();
+  }
+
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    const ready = this.endpoints.filter(e => e.benchedUntil <= now);
+    const benched = this.endpoints.filter(e => e.benchedUntil > now);
+    // Stable sorts keep the configured order among equals
+    return [
+      ...ready.sort((a, b) => this.score(b) - this.score(a)),
+      ...benched.sort((a, b) => a.benchedUntil - b.benchedUntil)
+    ];
+  }
+
+  /** Laplace-smoothed success rate over latency in seconds; an untried endpoint is assumed to be as slow as the timeout. */
+  private score(e: Endpoint): number {
+    if (e.benchedUntil > Date.now()) return 0;
+    const reliability = (e.successes + 1) / (e.successes + e.failures + 2);
+    return reliability / (1 + (e.latency ?? this.timeout) / 1000);
+  }
+
+  private succeeded(e: Endpoint, elapsed: number): void {
+    e.latency = e.latency === null ? elapsed : e.latency + this.smoothing * (elapsed - e.latency);
+    e.successes += 1;
+    e.consecutiveFailures = 0;
+    e.benchedUntil = 0;
+  }
+
+  private failed(e: Endpoint, error: unknown): void {
+    e.failures += 1;
+    e.consecutiveFailures += 1;
+    e.lastError = (error as any)?.shortMessage || (error as any)?.message || String(error);
+    e.benchedUntil = Date.now() + this.cooldown * Math.min(2 ** (e.consecutiveFailures - 1), 8);
+  }
+}
+
+class FailoverProvider extends JsonRpcApiProvider {
+  constructor(private readonly manager: ProviderManager) {
+    super(manager.network, { staticNetwork: manager.network });
+  }
+
+  _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<Array<JsonRpcResult | JsonRpcError>> {
+    return this.manager.send(payload);
+  }
+}
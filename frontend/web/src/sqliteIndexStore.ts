@@ -0,0 +1,96 @@
+// sqliteIndexStore.ts
+import { decodeEvent, encodeEvent } from "./indexer";
+import type { BlockRef, EventOfKind, IndexBatch, IndexedEventKind, IndexStore } from "./indexer";
+
+/**
+ * The subset of a synchronous SQLite binding that the store relies on. Both
+ * `DatabaseSync` from `node:sqlite` and `Database` from `better-sqlite3`
+ * satisfy it, so Node scripts can bring whichever one they already use.
+ */
+export interface SqliteDatabaseLike {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatementLike;
+}
+
+export interface SqliteStatementLike {
+  run(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_kind ON events (kind, block_number, log_index);
+  CREATE TABLE IF NOT EXISTS blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS head (id INTEGER PRIMARY KEY CHECK (id = 0), number INTEGER NOT NULL, hash TEXT NOT NULL);
+`;
+
+/** Persists the index in SQLite; use one database file per chain and contract. */
+export class SqliteIndexStore implements IndexStore {
+  constructor(private readonly db: SqliteDatabaseLike) {
+    db.exec(SCHEMA);
+  }
+
+  async getHead(): Promise<BlockRef | null> {
+    const [row] = this.db.prepare("SELECT number, hash FROM head WHERE id = 0").all() as BlockRef[];
+    return row ? { number: Number(row.number), hash: row.hash } : null;
+  }
+
+  async getRecentBlocks(): Promise<BlockRef[]> {
+    const rows = this.db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC").all() as BlockRef[];
+    return rows.map(row => ({ number: Number(row.number), hash: row.hash }));
+  }
+
+  async commit({ events, blocks, head, pruneBelow }: IndexBatch): Promise<void> {
+    this.transaction(() => {
+      const insertEvent = this.db.prepare(
+        "INSERT OR REPLACE INTO events (block_number, log_index, kind, data) VALUES (?, ?, ?, ?)"
+      );
+      for (const e of events) insertEvent.run(e.blockNumber, e.logIndex, e.kind, encodeEvent(e));
+      const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+      for (const block of blocks) insertBlock.run(block.number, block.hash);
+      this.db.prepare("DELETE FROM blocks WHERE number < ?").run(pruneBelow);
+      this.setHead(head);
+    });
+  }
+
+  async rollback(to: BlockRef | null): Promise<void> {
+    const keep = to ? to.number : -1;
+    this.transaction(() => {
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(keep);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(keep);
+      this.setHead(to);
+    });
+  }
+
+  async getEvents<K extends IndexedEventKind>(kind: K): Promise<EventOfKind<K>[]> {
+    const rows = this.db
+      .prepare("SELECT data FROM events WHERE kind = ? ORDER BY block_number, log_index")
+      .all(kind) as { data: string }[];
+    return rows.map(row => decodeEvent(row.data) as EventOfKind<K>);
+  }
+
+  private setHead(head: BlockRef | null): void {
+    if (head) {
+      this.db.prepare("INSERT OR REPLACE INTO head (id, number, hash) VALUES (0, ?, ?)").run(head.number, head.hash);
+    } else {
+      this.db.prepare("DELETE FROM head").run();
+    }
+  }
+
+  private transaction(body: () => void): void {
+    this.db.exec("BEGIN");
+    try {
+      body();
+      this.db.exec("COMMIT");
+    } catch (e) {
+      this.db.exec("ROLLBACK");
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,156 @@
+// taxonomy.ts
+import { normalise } from "./features";
+import disciplinesJson from "./disciplines.json";
+
+/**
+ * Versioned two-level discipline taxonomy: top-level fields with subfields
+ * under them, arXiv style. The on-chain code of a field is its own number;
+ * a subfield puts its number above the field's, in the bits
+ * `ReviewerRecFHE._disciplineScore` reads. Codes are permanent: a new version
+ * may add disciplines and aliases but never renumber one. Codes only travel
+ * into ciphertexts, so the frontend never has to decode one.
+ */
+
+/** Bits of an on-chain code holding the top-level field. */
+export const FIELD_BITS = 16;
+export const FIELD_MASK = (1 << FIELD_BITS) - 1;
+
+/** One entry of the taxonomy JSON. `code` is local: unique among fields, or among a field's subfields. */
+export interface DisciplineEntry {
+  id: string;
+  code: number;
+  name: string;
+  parent?: string;
+  aliases?: string[];
+}
+
+export interface TaxonomyJson {
+  version: number;
+  disciplines: DisciplineEntry[];
+}
+
+export interface Discipline {
+  id: string;
+  name: string;
+  /** What goes into the encrypted discipline field */
+  code: number;
+  /** Id of the top-level field; undefined for a field */
+  parent?: string;
+  aliases: string[];
+}
+
+/** How two disciplines sit in the taxonomy, which decides the partial credit matching gives. */
+export type DisciplineRelation = "same" | "parent" | "sibling" | "unrelated";
+
+export const fieldOf = (code: number) => code & FIELD_MASK;
+
+export const isField = (code: number) => code <= FIELD_MASK;
+
+/** Relation between two on-chain codes, computed the way the contract does it. */
+export function disciplineRelation(a: number, b: number): DisciplineRelation {
+  if (a === b) return "same";
+  if (fieldOf(a) !== fieldOf(b)) return "unrelated";
+  return isField(a) || isField(b) ? "parent" : "sibling";
+}
+
+const isLocalCode = (code: unknown): code is number =>
+  typeof code === "number" && Number.isInteger(code) && code > 0 && code <= FIELD_MASK;
+
+export class Taxonomy {
+  private readonly byId = new Map<string, Discipline>();
+  private readonly byName = new Map<string, Discipline>();
+
+  private constructor(readonly version: number, disciplines: Discipline[]) {
+    for (const d of disciplines) {
+      this.byId.set(d.id, d);
+    }
+    for (const d of disciplines) {
+      for (const name of [d.id, d.name, ...d.aliases]) {
+        const key = normalise(name);
+        const taken = this.byName.get(key);
+        if (taken && taken !== d) {
+          throw new Error(`Invalid taxonomy: "${name}" names both ${taken.id} and ${d.id}`);
+        }
+        this.byName.set(key, d);
+      }
+    }
+  }
+
+  /** Validates a taxonomy document, rejecting duplicate ids, codes or names and subfields nested below subfields. */
+  static fromJson(json: TaxonomyJson): Taxonomy {
+    if (!Number.isInteger(json.version) || json.version < 1) {
+      throw new Error(`Invalid taxonomy: bad version ${json.version}`);
+    }
+    const fields = new Map<string, DisciplineEntry>();
+    for (const entry of json.disciplines) {
+      if (entry.parent === undefined) fields.set(entry.id, entry);
+    }
+    const ids = new Set<string>();
+    const codes = new Set<number>();
+    const disciplines = json.disciplines.map((entry): Discipline => {
+      if (!entry.id || !entry.name) {
+        throw new Error("Invalid taxonomy: every discipline needs an id and a name");
+      }
+      if (ids.has(entry.id)) {
+        throw new Error(`Invalid taxonomy: duplicate id ${entry.id}`);
+      }
+      if (!isLocalCode(entry.code)) {
+        throw new Error(`Invalid taxonomy: code of ${entry.id} must be a whole number in 1..${FIELD_MASK}`);
+      }
+      let code = entry.code;
+      if (entry.parent !== undefined) {
+        const field = fields.get(entry.parent);
+        if (!field) {
+          throw new Error(`Invalid taxonomy: parent of ${entry.id} is not a top-level field`);
+        }
+        code = field.code + entry.code * (FIELD_MASK + 1);
+      }
+      if (codes.has(code)) {
+        throw new Error(`Invalid taxonomy: ${entry.id} reuses code ${code}`);
+      }
+      ids.add(entry.id);
+      codes.add(code);
+      return { id: entry.id, name: entry.name, code, parent: entry.parent, aliases: entry.aliases ?? [] };
+    });
+    return new Taxonomy(json.version, disciplines);
+  }
+
+  /** Top-level fields, in document order. */
+  get fields(): Discipline[] {
+    return [...this.byId.values()].filter(d => d.parent === undefined);
+  }
+
+  /** Subfields of a field, in document order. */
+  children(id: string): Discipline[] {
+    return [...this.byId.values()].filter(d => d.parent === id);
+  }
+
+  /** Looks a discipline up by id, name or alias, ignoring case, accents and punctuation. */
+  find(name: string): Discipline | undefined {
+    return this.byName.get(normalise(name));
+  }
+
+  /** On-chain code for a discipline id, name or alias; throws for anything outside the taxonomy. */
+  code(name: string): number {
+    const discipline = this.find(name);
+    if (!discipline) {
+      throw new RangeError(`Unknown discipline "${name}"`);
+    }
+    return discipline.code;
+  }
+
+  /** True when `name` is `ancestor` itself or one of its subfields; drives the reviewer filters. */
+  isWithin(name: string, ancestor: string): boolean {
+    const discipline = this.find(name);
+    const parent = this.find(ancestor);
+    return !!discipline && !!parent && (discipline === parent || discipline.parent === parent.id);
+  }
+}
+
+/** The taxonomy shipped with the frontend. */
+export const taxonomy = Taxonomy.fromJson(disciplinesJson);
+
+/** Maps a discipline name or alias to its code in the shipped taxonomy. */
+export function disciplineCode(discipline: string): number {
+  return taxonomy.code(discipline);
+}
@@ -0,0 +1,308 @@
+// transactions.ts
+import { AbiCoder, isError, isHexString } from "ethers";
+import type { Interface, Provider, TransactionReceipt, TransactionResponse } from "ethers";
+
+export type TransactionStatus = "pending" | "mined" | "confirmed" | "reverted" | "replaced";
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  /** What the transaction does, e.g. "Respond to invitation" */
+  label: string;
+  status: TransactionStatus;
+  /** Blocks on top of and including the one the transaction was mined in; 0 while pending */
+  confirmations: number;
+  blockNumber?: number;
+  /** Decoded revert reason, or why the transaction was replaced */
+  error?: string;
+  /** Transaction that took this one's nonce */
+  replacedBy?: string;
+  /** Epoch milliseconds */
+  submittedAt: number;
+  updatedAt: number;
+}
+
+export interface TrackOptions {
+  /** Defaults to the called function's name when `iface` can decode it */
+  label?: string;
+  /** ABI of the contract being called, used for the label and for custom errors */
+  iface?: Interface;
+}
+
+/** Anything the ReviewerRecClient can hand its writes to. */
+export interface TransactionTracker {
+  track(tx: TransactionResponse, options?: TrackOptions): Promise<TransactionReceipt>;
+}
+
+export type TransactionListener = (transactions: TrackedTransaction[]) => void;
+
+/** The part of `localStorage` the manager saves transactions to. */
+export interface TransactionStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface TransactionManagerOptions {
+  /** Blocks after which a transaction counts as confirmed. Defaults to 2. */
+  confirmations?: number;
+  /** Finished transactions kept for the drawer; older ones are dropped first. Defaults to 50. */
+  limit?: number;
+  /** Keeps the list across reloads, one entry per chain; see `resume` */
+  storage?: TransactionStorage;
+}
+
+export const USER_REJECTED = "Transaction rejected by user";
+
+const FINISHED: TransactionStatus[] = ["confirmed", "reverted", "replaced"];
+
+const storageKey = (chainId: number) => `reviewer-rec-transactions-${chainId}`;
+
+/** Searches an error and the errors it wraps for revert data, which providers nest at different depths. */
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (!error || typeof error !== "object" || depth > 5) return undefined;
+  const e = error as Record<string, unknown>;
+  if (isHexString(e.data) && (e.data as string).length >= 10) return e.data as string;
+  for (const key of ["data", "error", "info", "cause"]) {
+    const found = findRevertData(e[key], depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * A one-line reason for a failed call or transaction: the `require` message or
+ * panic code when the revert data carries one, a custom error decoded with
+ * `iface`, and the provider's own message otherwise.
+ */
+export function decodeTransactionError(error: unknown, iface?: Interface): string {
+  const e = error as any;
+  if (isError(error, "ACTION_REJECTED") || e?.code === 4001) return USER_REJECTED;
+  const data = findRevertData(error);
+  if (data) {
+    const builtin = AbiCoder.getBuiltinCallException("call", {}, data);
+    if (builtin.reason) return builtin.reason;
+    const custom = iface?.parseError(data);
+    if (custom) return `${custom.name}(${custom.args.join(", ")})`;
+  }
+  return e?.reason || e?.shortMessage || e?.message || "Unknown error";
+}
+
+/** `respondToInvitation` becomes "Respond to invitation". */
+function describeCall(tx: TransactionResponse, iface?: Interface): string {
+  const name = iface?.parseTransaction({ data: tx.data, value: tx.value })?.name;
+  if (!name) return "Transaction";
+  const words = name.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Follows every transaction the app submits until it is settled: pending until
+ * mined, then confirmed once enough blocks are built on it, or reverted or
+ * replaced. Reverted transactions are replayed as calls against the block
+ * before them to recover the reason, since receipts do not carry it. A
+ * transaction the wallet only repriced is followed under its new hash. Each
+ * confirmation is counted only after checking that the receipt is still in the
+ * same block, so a transaction a reorg took out is followed again instead.
+ */
+export class TransactionManager implements TransactionTracker {
+  readonly confirmations: number;
+  private readonly limit: number;
+  private readonly storage?: TransactionStorage;
+  private transactions: TrackedTransaction[] = [];
+  private readonly listeners = new Set<TransactionListener>();
+  /** Chains whose saved list has been read back, and so may be written */
+  private readonly resumed = new Set<number>();
+
+  constructor(options: TransactionManagerOptions = {}) {
+    this.confirmations = options.confirmations ?? 2;
+    this.limit = options.limit ?? 50;
+    this.storage = options.storage;
+  }
+
+  /** Newest first. */
+  list(): TrackedTransaction[] {
+    return this.transactions;
+  }
+
+  subscribe(listener: TransactionListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Drops confirmed, reverted and replaced transactions. */
+  clear(): void {
+    this.transactions = this.transactions.filter(t => !FINISHED.includes(t.status));
+    this.emit();
+  }
+
+  /**
+   * Brings back the chain's transactions saved by an earlier session and
+   * follows those still pending or unconfirmed again, decoding their errors
+   * with the ABI in `interfaces` under the address they call. A chain's list is
+   * only saved once it has been resumed, so nothing is overwritten before it is read.
+   */
+  resume(chainId: number, provider: Provider, interfaces: Record<string, Interface> = {}): void {
+    if (!this.storage || this.resumed.has(chainId)) return;
+    this.resumed.add(chainId);
+    let saved: TrackedTransaction[];
+    try {
+      saved = JSON.parse(this.storage.getItem(storageKey(chainId)) ?? "[]");
+    } catch {
+      saved = [];
+    }
+    saved = saved.filter(s => !this.transactions.some(t => t.hash === s.hash));
+    this.transactions = [...this.transactions, ...saved].sort((a, b) => b.submittedAt - a.submittedAt);
+    this.emit();
+    const byAddress = new Map(Object.entries(interfaces).map(([address, iface]) => [address.toLowerCase(), iface]));
+    for (const t of saved) {
+      if (!FINISHED.includes(t.status)) this.refollow(t.hash, provider, tx => byAddress.get(tx.to?.toLowerCase() ?? ""));
+    }
+  }
+
+  /**
+   * Resolves with the receipt once the transaction is mined, leaving the
+   * confirmations to be counted in the background. Rejects with the decoded
+   * reason when it reverts and when it is replaced by a different transaction.
+   */
+  async track(tx: TransactionResponse, options: TrackOptions = {}): Promise<TransactionReceipt> {
+    const label = options.label ?? describeCall(tx, options.iface);
+    const now = Date.now();
+    this.add({ hash: tx.hash, chainId: Number(tx.chainId), label, status: "pending", confirmations: 0, submittedAt: now, updatedAt: now });
+    return this.follow(tx, { ...options, label });
+  }
+
+  private async follow(tx: TransactionResponse, options: TrackOptions): Promise<TransactionReceipt> {
+    let receipt: TransactionReceipt | null;
+    try {
+      receipt = await tx.wait();
+    } catch (e) {
+      if (isError(e, "TRANSACTION_REPLACED")) {
+        const { replacement } = e;
+        if (e.reason === "repriced") {
+          this.update(tx.hash, { status: "replaced", replacedBy: replacement.hash, error: "Repriced by the wallet" });
+          return this.track(replacement, options);
+        }
+        const error = e.cancelled ? "Cancelled" : "Replaced by another transaction";
+        this.update(tx.hash, { status: "replaced", replacedBy: replacement.hash, error });
+        throw new Error(`${error} (${replacement.hash})`);
+      }
+      if (isError(e, "CALL_EXCEPTION") && e.receipt) {
+        const error = await this.revertReason(tx, e.receipt, options.iface);
+        this.update(tx.hash, { status: "reverted", blockNumber: e.receipt.blockNumber, confirmations: 1, error });
+        throw new Error(error);
+      }
+      this.update(tx.hash, { error: decodeTransactionError(e, options.iface) });
+      throw e;
+    }
+    if (!receipt) {
+      this.update(tx.hash, { status: "replaced", error: "Dropped" });
+      throw new Error(`Transaction ${tx.hash} was dropped`);
+    }
+
+    this.update(tx.hash, { status: "mined", blockNumber: receipt.blockNumber, confirmations: 1 });
+    this.countConfirmations(receipt, options.iface);
+    return receipt;
+  }
+
+  /** Looks the transaction up again, after a reload or a reorg, and waits for it to be mined once more. */
+  private async refollow(
+    hash: string,
+    provider: Provider,
+    ifaceFor: (tx: TransactionResponse) => Interface | undefined
+  ): Promise<void> {
+    let tx: TransactionResponse | null;
+    try {
+      tx = await provider.getTransaction(hash);
+    } catch {
+      // The node could not be asked; the entry stays as it is until the next session
+      return;
+    }
+    if (!tx) {
+      this.update(hash, { status: "replaced", error: "Dropped" });
+      return;
+    }
+    const label = this.transactions.find(t => t.hash === hash)?.label;
+    await this.follow(tx, { label, iface: ifaceFor(tx) }).catch(() => undefined);
+  }
+
+  private async revertReason(tx: TransactionResponse, receipt: TransactionReceipt, iface?: Interface): Promise<string> {
+    try {
+      await tx.provider.call({
+        to: tx.to,
+        from: tx.from,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit,
+        blockTag: receipt.blockNumber - 1
+      });
+    } catch (e) {
+      return decodeTransactionError(e, iface);
+    }
+    // The call passes on the earlier state, so something mined before it in the same block changed the outcome
+    return "Transaction reverted";
+  }
+
+  private async countConfirmations(receipt: TransactionReceipt, iface?: Interface): Promise<void> {
+    if (this.confirmations <= 1) {
+      this.update(receipt.hash, { status: "confirmed" });
+      return;
+    }
+    const { provider } = receipt;
+    let done = false;
+    const onBlock = async (blockNumber: number) => {
+      let current: TransactionReceipt | null;
+      try {
+        current = await provider.getTransactionReceipt(receipt.hash);
+      } catch {
+        return;
+      }
+      if (done) return;
+      if (current?.blockHash !== receipt.blockHash) {
+        done = true;
+        provider.off("block", onBlock);
+        this.update(receipt.hash, { status: "pending", blockNumber: undefined, confirmations: 0 });
+        this.refollow(receipt.hash, provider, () => iface);
+        return;
+      }
+      const confirmations = Math.max(blockNumber - receipt.blockNumber + 1, 1);
+      if (confirmations >= this.confirmations) {
+        done = true;
+        provider.off("block", onBlock);
+        this.update(receipt.hash, { status: "confirmed", confirmations: this.confirmations });
+      } else if (confirmations > (this.transactions.find(t => t.hash === receipt.hash)?.confirmations ?? 0)) {
+        this.update(receipt.hash, { confirmations });
+      }
+    };
+    await provider.on("block", onBlock);
+    // Blocks mined before the subscription, e.g. while the page was closed, count too
+    provider.getBlockNumber().then(onBlock, () => undefined);
+  }
+
+  private add(transaction: TrackedTransaction): void {
+    const finished = this.transactions.filter(t => FINISHED.includes(t.status));
+    const overflow = new Set(finished.slice(Math.max(this.limit - 1, 0)));
+    this.transactions = [transaction, ...this.transactions.filter(t => !overflow.has(t))];
+    this.emit();
+  }
+
+  private update(hash: string, changes: Partial<TrackedTransaction>): void {
+    this.transactions = this.transactions.map(t => t.hash === hash ? { ...t, ...changes, updatedAt: Date.now() } : t);
+    this.emit();
+  }
+
+  private emit(): void {
+    this.save();
+    for (const listener of this.listeners) listener(this.transactions);
+  }
+
+  private save(): void {
+    if (!this.storage) return;
+    for (const chainId of this.resumed) {
+      try {
+        this.storage.setItem(storageKey(chainId), JSON.stringify(this.transactions.filter(t => t.chainId === chainId)));
+      } catch {
+        // Storage is full or disabled; the drawer still works for this session
+      }
+    }
+  }
+}
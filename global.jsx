@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-interface mutations-boilerplateProps { data: string }
@@ -1,19 +1,79 @@
+import "dotenv/config";
 import { HardhatUserConfig } from "hardhat/config";
+import { NetworksUserConfig } from "hardhat/types";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+import { Wallet } from "ethers";
+import fs from "fs";
+
+import registry from "./frontend/web/src/config.json";
+
+import "./tasks/cleanDiffcache";
+import "./tasks/decryptionRelayer";
+
+/** The network this run targets, from `--network` or HARDHAT_NETWORK. */
+function selectedNetwork(): string | undefined {
+  const flag = process.argv.indexOf("--network");
+  return flag === -1 ? process.env.HARDHAT_NETWORK : process.argv[flag + 1];
+}
+
+/**
+ * Deployer keys come from the environment, never from a prompt:
+ * `<NETWORK>_PRIVATE_KEY`, then `DEPLOYER_PRIVATE_KEY`, then an encrypted JSON
+ * keystore at `DEPLOYER_KEYSTORE` unlocked with `DEPLOYER_KEYSTORE_PASSWORD`.
+ * Unlocking runs scrypt, which takes seconds, so the keystore is only opened
+ * for the network the run targets, and never for a local node, which has its
+ * own unlocked accounts.
+ */
+function deployerAccounts(network: string, local: boolean): string[] {
+  const key =
+    process.env[`${network.toUpperCase()}_PRIVATE_KEY`] ??
+    process.env.DEPLOYER_PRIVATE_KEY;
+  if (key) return [key];
+
+  const keystore = process.env.DEPLOYER_KEYSTORE;
+  if (!keystore || local || selectedNetwork() !== network) return [];
+  const wallet = Wallet.fromEncryptedJsonSync(
+    fs.readFileSync(keystore, "utf8"),
+    process.env.DEPLOYER_KEYSTORE_PASSWORD ?? "",
+  );
+  return [wallet.privateKey];
+}
+
+/**
+ * One hardhat network per entry of the network registry the frontend reads
+ * (`networks` in frontend/web/src/config.json), so adding a chain there is
+ * enough to deploy to it. `<NETWORK>_RPC_URL` overrides the first listed endpoint.
+ * Local nodes keep their own unlocked accounts unless a key is configured.
+ */
+function registryNetworks(): NetworksUserConfig {
+  const networks: NetworksUserConfig = {};
+  for (const [name, entry] of Object.entries(registry.networks)) {
+    const accounts = deployerAccounts(
+      name,
+      "fhevmMock" in entry && entry.fhevmMock,
+    );
+    networks[name] = {
+      chainId: entry.chainId,
+      url: process.env[`${name.toUpperCase()}_RPC_URL`] ?? entry.rpcUrls[0],
+      ...(accounts.length > 0 ? { accounts } : {}),
+    };
+  }
+  return networks;
+}
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
+  namedAccounts: {
+    deployer: 0,
+  },
   networks: {
     hardhat: {
       chainId: 31337,
     },
-    sepolia: {
-      chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
-    },
+    ...registryNetworks(),
   },
   solidity: {
     version: "0.8.24",
@@ -34,6 +94,8 @@ const config: HardhatUserConfig = {
     tests: "./test",
     cache: "./cache",
     artifacts: "./artifacts",
+    deploy: "./deploy",
+    deployments: "./deployments",
   },
   typechain: {
     outDir: "types",
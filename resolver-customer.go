@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\resolver-customer.go
-// Generated at: 2025-10-16T06:41:25.384Z
\ No newline at end of file
@@ -0,0 +1,223 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+
+// Never descend into these, whatever .diffcache claims
+const PROTECTED = new Set([
+  ".git",
+  "node_modules",
+  "contracts",
+  "deploy",
+  "deployments",
+  "tasks",
+  "test",
+  "types",
+]);
+
+// Manifests and configs at the root, refused even where git cannot say what it tracks
+const PROTECTED_FILES = new Set([
+  ".env",
+  ".gitignore",
+  "README.md",
+  "hardhat.config.ts",
+  "package-lock.json",
+  "package.json",
+  "tsconfig.json",
+]);
+
+export interface CleanupEntry {
+  /** Path exactly as recorded in .diffcache */
+  recorded: string;
+  /** Path relative to the project root, with "/" separators */
+  relative: string;
+  kind: "file" | "folder" | "missing";
+  /** Committed by an older deploy; removed through git so the deletion is staged */
+  tracked: boolean;
+}
+
+export interface CleanupPlan {
+  /** Directory the entries were recorded under on the machine that wrote them */
+  recordedRoot: string;
+  entries: CleanupEntry[];
+  /** Entries that map outside the project or onto a protected path */
+  refused: string[];
+}
+
+const splitPath = (p: string): string[] => p.split(/[\\/]+/).filter(Boolean);
+
+function commonPrefix(paths: string[][]): string[] {
+  if (paths.length === 0) return [];
+  const prefix = [...paths[0]];
+  for (const segments of paths.slice(1)) {
+    const mismatch = prefix.findIndex((segment, i) => segments[i] !== segment);
+    if (mismatch !== -1) prefix.length = mismatch;
+  }
+  return prefix;
+}
+
+/** Files git tracks under `projectRoot`, relative to it; empty outside a checkout. */
+export function trackedFiles(projectRoot: string): Set<string> {
+  try {
+    const listing = execFileSync("git", ["ls-files", "-z"], {
+      cwd: projectRoot,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+    return new Set(listing.split("\0").filter(Boolean));
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Maps the absolute paths recorded in .diffcache onto this checkout. The cache
+ * may have been written on another machine (often with Windows paths), so the
+ * recorded project root is taken to be the ancestor of the entries' common
+ * directory under which most entries exist locally. Older deploys committed
+ * what they sprayed, so listed files git tracks are planned like any other,
+ * flagged for `git rm`.
+ */
+export function planDiffcacheCleanup(
+  recorded: string[],
+  projectRoot: string,
+  tracked: Set<string> = trackedFiles(projectRoot),
+): CleanupPlan {
+  const split = recorded.map(splitPath);
+  // Drop the last segment so a single entry still yields its directory
+  const prefix = commonPrefix(split.map((s) => s.slice(0, -1)));
+
+  let bestDepth = prefix.length;
+  let bestHits = -1;
+  for (let depth = prefix.length; depth >= 0; depth--) {
+    const hits = split.filter((s) =>
+      fs.existsSync(path.join(projectRoot, ...s.slice(depth))),
+    ).length;
+    if (hits > bestHits) {
+      bestHits = hits;
+      bestDepth = depth;
+    }
+  }
+
+  const entries: CleanupEntry[] = [];
+  const refused: string[] = [];
+  split.forEach((segments, i) => {
+    const rest = segments.slice(bestDepth);
+    const absolute = path.resolve(projectRoot, ...rest);
+    const relative = path.relative(projectRoot, absolute);
+    if (
+      rest.length === 0 ||
+      rest.includes("..") ||
+      relative.startsWith("..") ||
+      path.isAbsolute(relative) ||
+      PROTECTED.has(rest[0]) ||
+      PROTECTED_FILES.has(rest.join("/"))
+    ) {
+      refused.push(recorded[i]);
+      return;
+    }
+    const stat = fs.existsSync(absolute) ? fs.lstatSync(absolute) : undefined;
+    entries.push({
+      recorded: recorded[i],
+      relative: rest.join("/"),
+      kind: !stat ? "missing" : stat.isDirectory() ? "folder" : "file",
+      tracked: tracked.has(rest.join("/")),
+    });
+  });
+
+  return {
+    recordedRoot: prefix.slice(0, bestDepth).join("/"),
+    entries,
+    refused,
+  };
+}
+
+/**
+ * Deletes the files of a plan, then its folders once they are empty. Tracked
+ * files go through `git rm`, leaving the deletion staged for review. Returns
+ * how many paths were removed.
+ */
+export function applyDiffcacheCleanup(
+  plan: CleanupPlan,
+  projectRoot: string,
+): number {
+  const files = plan.entries.filter((e) => e.kind === "file");
+  const tracked = files.filter((e) => e.tracked).map((e) => e.relative);
+  if (tracked.length > 0) {
+    execFileSync("git", ["rm", "-q", "--", ...tracked], {
+      cwd: projectRoot,
+      stdio: ["ignore", "ignore", "inherit"],
+    });
+  }
+  let removed = tracked.length;
+  for (const entry of files.filter((e) => !e.tracked)) {
+    fs.unlinkSync(path.join(projectRoot, entry.relative));
+    removed++;
+  }
+
+  // Deepest first so they are empty by the time we reach them; git rm may have removed some already
+  const folders = plan.entries
+    .filter((e) => e.kind === "folder")
+    .sort((a, b) => b.relative.length - a.relative.length);
+  for (const entry of folders) {
+    const dir = path.join(projectRoot, entry.relative);
+    if (!fs.existsSync(dir)) {
+      removed++;
+      continue;
+    }
+    if (fs.readdirSync(dir).length > 0) {
+      console.warn(
+        `Kept ${entry.relative}: it contains files not listed in .diffcache`,
+      );
+      continue;
+    }
+    fs.rmdirSync(dir);
+    removed++;
+  }
+  return removed;
+}
+
+task(
+  "clean-diffcache",
+  "Removes files previously sprayed by the deploy script, as listed in .diffcache",
+)
+  .addFlag(
+    "confirm",
+    "Actually delete the listed files; without it only a dry-run listing is printed",
+  )
+  .setAction(async ({ confirm }: { confirm: boolean }, hre) => {
+    const projectRoot = hre.config.paths.root;
+    const cacheFile = path.join(projectRoot, ".diffcache");
+    if (!fs.existsSync(cacheFile)) {
+      console.log("No .diffcache found; nothing to clean.");
+      return;
+    }
+
+    const recorded = JSON.parse(fs.readFileSync(cacheFile, "utf8")) as string[];
+    const plan = planDiffcacheCleanup(recorded, projectRoot);
+
+    console.log(
+      `Entries recorded under: ${plan.recordedRoot || "(filesystem root)"}`,
+    );
+    for (const entry of plan.entries) {
+      const note = entry.tracked ? " (tracked; staged with git rm)" : "";
+      console.log(`  ${entry.kind.padEnd(7)} ${entry.relative}${note}`);
+    }
+    for (const refused of plan.refused) {
+      console.log(`  refused ${refused} (outside the project or protected)`);
+    }
+
+    if (!confirm) {
+      console.log(
+        "\nDry run only. Re-run with --confirm to delete the files above.",
+      );
+      return;
+    }
+
+    const removed = applyDiffcacheCleanup(plan, projectRoot);
+
+    if (plan.refused.length === 0) {
+      fs.unlinkSync(cacheFile);
+    }
+    console.log(`\nRemoved ${removed} path(s).`);
+  });
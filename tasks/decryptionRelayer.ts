@@ -0,0 +1,243 @@
+import {
+  AbiCoder,
+  Interface,
+  concat,
+  dataLength,
+  dataSlice,
+  solidityPacked,
+} from "ethers";
+import type { CallExceptionError, Provider, Signer } from "ethers";
+import { task, types } from "hardhat/config";
+
+/** What the relayer needs from the node: logs, plus the mock's custom `fhevm_*` RPC methods. */
+export type MockNodeProvider = Provider & {
+  send(method: string, params: unknown[]): Promise<any>;
+};
+
+export interface DecryptionRelayerOptions {
+  /** First block to scan. Defaults to the next block, so only new requests are answered. */
+  fromBlock?: number;
+  log?: (message: string) => void;
+}
+
+export interface AnsweredRequest {
+  requestId: bigint;
+  /** Contract that asked for the decryption and receives the callback */
+  contract: string;
+  callbackSelector: string;
+  transactionHash?: string;
+  /** Why the callback was refused, e.g. "Invalid request" for one answered before */
+  error?: string;
+}
+
+const oracleEvents = new Interface([
+  "event DecryptionRequest(uint256 indexed counter, uint256 requestID, bytes32[] cts, address contractCaller, bytes4 callbackSelector)",
+]);
+
+/** Only version 0 of the decryption proof's extra data exists. */
+const EXTRA_DATA = solidityPacked(["uint8"], [0]);
+
+/**
+ * Plays the Zama decryption oracle against a local FHEVM mock node, where no
+ * real oracle is listening. Each `DecryptionRequest` of the node's
+ * IDecryptionOracle is decrypted by the mock, signed with the mock KMS keys
+ * `FHE.checkSignatures` trusts there, and sent back to the requesting
+ * contract's callback from the relayer's own account.
+ */
+export class DecryptionRelayer {
+  private nextBlock: number | undefined;
+
+  private constructor(
+    private readonly signer: Signer,
+    private readonly provider: MockNodeProvider,
+    readonly oracleAddress: string,
+    private readonly log: (message: string) => void,
+    fromBlock?: number,
+  ) {
+    this.nextBlock = fromBlock;
+  }
+
+  /** Fails unless the signer's node runs the FHEVM mock. */
+  static async connect(
+    signer: Signer,
+    options: DecryptionRelayerOptions = {},
+  ): Promise<DecryptionRelayer> {
+    const provider = signer.provider as MockNodeProvider | null;
+    if (!provider || typeof provider.send !== "function") {
+      throw new Error(
+        "The relayer needs a signer connected to a JSON-RPC node",
+      );
+    }
+    let metadata: { DecryptionOracleAddress: string };
+    try {
+      metadata = await provider.send("fhevm_relayer_metadata", []);
+    } catch (e) {
+      throw new Error(
+        `Node does not run the FHEVM mock (${(e as Error).message}); start one with \`npx hardhat node\``,
+      );
+    }
+    return new DecryptionRelayer(
+      signer,
+      provider,
+      metadata.DecryptionOracleAddress,
+      options.log ?? (() => undefined),
+      options.fromBlock,
+    );
+  }
+
+  /** Answers every request mined since the previous call, in chain order. */
+  async poll(): Promise<AnsweredRequest[]> {
+    const latest = await this.provider.getBlockNumber();
+    if (this.nextBlock === undefined) {
+      this.nextBlock = latest + 1;
+      return [];
+    }
+    if (this.nextBlock > latest) return [];
+
+    const logs = await this.provider.getLogs({
+      address: this.oracleAddress,
+      topics: [oracleEvents.getEvent("DecryptionRequest")!.topicHash],
+      fromBlock: this.nextBlock,
+      toBlock: latest,
+    });
+    this.nextBlock = latest + 1;
+
+    const answered: AnsweredRequest[] = [];
+    for (const log of logs) {
+      const { requestID, cts, contractCaller, callbackSelector } =
+        oracleEvents.parseLog(log)!.args;
+      answered.push(
+        await this.answer(
+          requestID,
+          [...cts],
+          contractCaller,
+          callbackSelector,
+        ),
+      );
+    }
+    return answered;
+  }
+
+  /** Polls until the returned function is called. Errors are logged and the next poll goes ahead. */
+  start(pollInterval = 1000): () => void {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const loop = async () => {
+      try {
+        await this.poll();
+      } catch (e) {
+        this.log(`Poll failed: ${(e as Error).message}`);
+      }
+      if (!stopped) timer = setTimeout(loop, pollInterval);
+    };
+    loop();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+
+  private async answer(
+    requestId: bigint,
+    handles: string[],
+    contract: string,
+    callbackSelector: string,
+  ): Promise<AnsweredRequest> {
+    const request: AnsweredRequest = { requestId, contract, callbackSelector };
+    try {
+      const clearTexts: string[] = await this.provider.send(
+        "fhevm_getClearText",
+        [handles],
+      );
+      if (clearTexts.some((value) => value === "0x")) {
+        throw new Error("the mock has no cleartext for some of its handles");
+      }
+      const { decryptedResult, signatures } = await this.provider.send(
+        "fhevm_createDecryptionSignatures",
+        [
+          {
+            handlesBytes32Hex: handles,
+            clearTextValuesHex: clearTexts,
+            extraData: EXTRA_DATA,
+          },
+        ],
+      );
+      // The KMS signs the cleartexts followed by a signatures offset word that
+      // FHE.checkSignatures appends itself, so the callback takes them without it
+      const cleartexts = dataSlice(
+        decryptedResult,
+        0,
+        dataLength(decryptedResult) - 32,
+      );
+      // The proof checkSignatures expects: signer count, each KMS signature, then the extra data
+      const proof = concat([
+        solidityPacked(["uint8"], [signatures.length]),
+        ...signatures,
+        EXTRA_DATA,
+      ]);
+      const tx = await this.signer.sendTransaction({
+        to: contract,
+        data: concat([
+          callbackSelector,
+          AbiCoder.defaultAbiCoder().encode(
+            ["uint256", "bytes", "bytes"],
+            [requestId, cleartexts, proof],
+          ),
+        ]),
+      });
+      request.transactionHash = tx.hash;
+      await tx.wait();
+      this.log(`Answered request ${requestId} of ${contract} in ${tx.hash}`);
+    } catch (e) {
+      const error = e as Partial<CallExceptionError> | null;
+      request.error =
+        error?.reason || error?.shortMessage || error?.message || String(e);
+      this.log(
+        `Request ${requestId} of ${contract} not answered: ${request.error}`,
+      );
+    }
+    return request;
+  }
+}
+
+task(
+  "decryption-relayer",
+  "Answers decryption oracle requests on a local FHEVM mock node until stopped",
+)
+  .addOptionalParam(
+    "fromBlock",
+    "Also answer requests from this block on; by default only new ones are",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam(
+    "interval",
+    "Milliseconds between checks for new requests",
+    1000,
+    types.int,
+  )
+  .setAction(
+    async (
+      { fromBlock, interval }: { fromBlock?: number; interval: number },
+      hre,
+    ) => {
+      if (hre.network.name === "hardhat") {
+        throw new Error(
+          "The in-process network dies with this task; run `npx hardhat node` and pass --network localhost",
+        );
+      }
+      // Sets up the plugin's mock RPC methods, which tasks get only on request
+      await hre.fhevm.initializeCLIApi();
+      const [signer] = await hre.ethers.getSigners();
+      const relayer = await DecryptionRelayer.connect(signer, {
+        fromBlock,
+        log: (message) => console.log(message),
+      });
+      console.log(
+        `Relaying decryptions of oracle ${relayer.oracleAddress} on ${hre.network.name} from ${signer.address}`,
+      );
+      relayer.start(interval);
+      // Runs until interrupted
+      await new Promise(() => undefined);
+    },
+  );
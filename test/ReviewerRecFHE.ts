@@ -0,0 +1,1362 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import type {
+  PaperFeatures,
+  ReviewerFeatures,
+  ReviewerProfileFeatures,
+} from "../frontend/web/src/encryption";
+import { RelayerEncryptor } from "../frontend/web/src/encryption";
+import { extractPaperFeatures } from "../frontend/web/src/manuscript";
+import {
+  Availability,
+  DecryptionKind,
+  DecryptionStatus,
+  InvitationStatus,
+  PaperStatus,
+  ReviewerRecClient,
+  ReviewerStatus,
+} from "../frontend/web/src/reviewerRecClient";
+import { ReviewerRecFHE, ReviewerRecFHE__factory } from "../types";
+import { buckets, referenceTopK } from "./helpers/referenceMatching";
+
+type Signers = {
+  // Deploys the contract, so also holds the admin role
+  editor: HardhatEthersSigner;
+  author: HardhatEthersSigner;
+  reviewer: HardhatEthersSigner;
+  otherEditor: HardhatEthersSigner;
+  stranger: HardhatEthersSigner;
+};
+
+const encryptor = new RelayerEncryptor(fhevm);
+
+const paper: PaperFeatures = {
+  title: 101,
+  abstract: 202,
+  keywords: buckets({ 1: 2, 2: 1 }),
+  discipline: 3,
+};
+
+const reviewers: ReviewerFeatures[] = [
+  {
+    expertise: buckets({ 1: 3 }),
+    discipline: 3,
+    affiliation: 10,
+    publicationCount: 5,
+    reviewCount: 2,
+  },
+  {
+    expertise: buckets({ 3: 2 }),
+    discipline: 3,
+    affiliation: 11,
+    publicationCount: 50,
+    reviewCount: 9,
+  },
+  {
+    expertise: buckets({ 2: 1 }),
+    discipline: 1,
+    affiliation: 12,
+    publicationCount: 18,
+    reviewCount: 4,
+  },
+];
+
+async function deployFixture(signers: Signers) {
+  const factory = (await ethers.getContractFactory(
+    "ReviewerRecFHE",
+    signers.editor,
+  )) as ReviewerRecFHE__factory;
+  const contract = (await factory.deploy()) as ReviewerRecFHE;
+  const grants: [Promise<string>, HardhatEthersSigner][] = [
+    [contract.EDITOR_ROLE(), signers.editor],
+    [contract.EDITOR_ROLE(), signers.otherEditor],
+    [contract.AUTHOR_ROLE(), signers.author],
+    [contract.REVIEWER_ROLE(), signers.reviewer],
+  ];
+  for (const [role, signer] of grants) {
+    await contract.grantRole(await role, signer.address);
+  }
+  return { contract, address: await contract.getAddress() };
+}
+
+async function submitPaper(
+  contract: ReviewerRecFHE,
+  address: string,
+  signer: HardhatEthersSigner,
+  features: PaperFeatures = paper,
+) {
+  const input = await encryptor.encryptPaper(features, address, signer.address);
+  return contract
+    .connect(signer)
+    .submitEncryptedPaper(
+      input.title,
+      input.abstract,
+      input.keywords,
+      input.discipline,
+      input.authorAffiliations,
+      input.conflictIds,
+      input.inputProof,
+    );
+}
+
+async function addReviewer(
+  contract: ReviewerRecFHE,
+  address: string,
+  signer: HardhatEthersSigner,
+  features: ReviewerFeatures,
+) {
+  const input = await encryptor.encryptReviewer(
+    features,
+    address,
+    signer.address,
+  );
+  return contract
+    .connect(signer)
+    .addEncryptedReviewer(
+      input.expertise,
+      input.discipline,
+      input.affiliation,
+      input.scholarId,
+      input.publicationCount,
+      input.reviewCount,
+      input.inputProof,
+    );
+}
+
+async function updateReviewer(
+  contract: ReviewerRecFHE,
+  address: string,
+  signer: HardhatEthersSigner,
+  reviewerId: bigint,
+  features: ReviewerProfileFeatures,
+) {
+  const input = await encryptor.encryptProfile(
+    features,
+    address,
+    signer.address,
+  );
+  return contract
+    .connect(signer)
+    .updateEncryptedReviewer(
+      reviewerId,
+      input.expertise,
+      input.discipline,
+      input.affiliation,
+      input.scholarId,
+      input.publicationCount,
+      input.inputProof,
+    );
+}
+
+describe("ReviewerRecFHE lifecycle", function () {
+  let signers: Signers;
+  let contract: ReviewerRecFHE;
+  let address: string;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      editor: ethSigners[0],
+      author: ethSigners[1],
+      reviewer: ethSigners[2],
+      otherEditor: ethSigners[3],
+      stranger: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the FHEVM mock");
+      this.skip();
+    }
+    ({ contract, address } = await deployFixture(signers));
+  });
+
+  async function matchAll(k: number): Promise<bigint> {
+    for (const features of reviewers) {
+      await addReviewer(contract, address, signers.reviewer, features);
+    }
+    await submitPaper(contract, address, signers.author);
+    const paperId = await contract.paperCount();
+    await rank(paperId, k);
+    return paperId;
+  }
+
+  /** Runs a matching round over every batch and waits for the ranking. */
+  async function rank(paperId: bigint, k: number) {
+    await contract.connect(signers.editor).requestMatchingReviewers(paperId, k);
+    while ((await contract.getMatchingProgress(paperId)).active) {
+      await contract.connect(signers.editor).continueMatching(paperId);
+    }
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  /** Invites the candidate at `rank` and has the reviewer accept. */
+  async function consent(paperId: bigint, rank: number): Promise<bigint> {
+    const { reviewerId } = (await contract.getMatches(paperId))[rank];
+    await contract.inviteReviewer(paperId, reviewerId);
+    await contract
+      .connect(signers.reviewer)
+      .respondToInvitation(paperId, reviewerId, true);
+    return reviewerId;
+  }
+
+  describe("submission", function () {
+    it("stores an encrypted paper and emits PaperSubmitted", async function () {
+      await expect(submitPaper(contract, address, signers.author))
+        .to.emit(contract, "PaperSubmitted")
+        .withArgs(1n, anyValue);
+
+      expect(await contract.paperCount()).to.equal(1n);
+      const stored = await contract.encryptedPapers(1);
+      expect(stored.id).to.equal(1n);
+      expect(stored.encryptedDiscipline).to.not.equal(ethers.ZeroHash);
+      expect(stored.profileVersion).to.equal(1n);
+      expect(await contract.getPaperVector(1)).to.have.length(16);
+    });
+
+    it("lets the author decrypt their own paper features", async function () {
+      await submitPaper(contract, address, signers.author);
+      const stored = await contract.encryptedPapers(1);
+      const vector = await contract.getPaperVector(1);
+
+      const discipline = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        stored.encryptedDiscipline,
+        address,
+        signers.author,
+      );
+      expect(discipline).to.equal(BigInt(paper.discipline));
+      expect(vector).to.have.length(paper.keywords.length);
+      const bucket = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        vector[1],
+        address,
+        signers.author,
+      );
+      expect(bucket).to.equal(BigInt(paper.keywords[1]));
+    });
+
+    it("submits a drafted manuscript and returns its paper id", async function () {
+      const features = extractPaperFeatures({
+        title: "Private Reviewer Matching",
+        abstract: "We rank reviewers without revealing their profiles.",
+        keywords: "FHE, peer review",
+        discipline: "Cryptography",
+        authorAffiliations: "10",
+        conflictIds: "",
+      });
+      const client = new ReviewerRecClient(contract.connect(signers.author));
+
+      const input = await client.encryptPaper(features, encryptor);
+      expect(input.authorAffiliations).to.have.length(1);
+      const receipt = await client.submitEncryptedPaper(input);
+
+      expect(receipt.paperId).to.equal(1n);
+      const discipline = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        (await contract.encryptedPapers(receipt.paperId)).encryptedDiscipline,
+        address,
+        signers.author,
+      );
+      expect(discipline).to.equal(BigInt(features.discipline));
+    });
+
+    it("stores the declared conflicts encrypted for the author only", async function () {
+      await submitPaper(contract, address, signers.author, {
+        ...paper,
+        authorAffiliations: [10, 12],
+        conflictIds: [4242],
+      });
+
+      const [affiliations, scholarIds] = await contract.getPaperConflicts(1);
+      expect(affiliations).to.have.length(2);
+      expect(scholarIds).to.have.length(1);
+      const advisor = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        scholarIds[0],
+        address,
+        signers.author,
+      );
+      expect(advisor).to.equal(4242n);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          affiliations[0],
+          address,
+          signers.editor,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("rejects more conflict entries than the contract allows", async function () {
+      const max = Number(await contract.MAX_CONFLICT_IDS());
+      const input = await encryptor.encryptPaper(
+        { ...paper, conflictIds: [7] },
+        address,
+        signers.author.address,
+      );
+      await expect(
+        contract
+          .connect(signers.author)
+          .submitEncryptedPaper(
+            input.title,
+            input.abstract,
+            input.keywords,
+            input.discipline,
+            [],
+            Array(max + 1).fill(input.conflictIds[0]),
+            input.inputProof,
+          ),
+      ).to.be.revertedWith("Too many conflict IDs");
+    });
+
+    it("clamps bucket weights and checks the vector length", async function () {
+      const input = fhevm.createEncryptedInput(
+        address,
+        signers.reviewer.address,
+      );
+      // Bypasses the client, which refuses weights above MAX_BUCKET_WEIGHT
+      for (let i = 0; i < 16; i++) input.add8(i === 0 ? 200 : 1);
+      for (let i = 0; i < 5; i++) input.add32(i + 1);
+      const { handles, inputProof } = await input.encrypt();
+      const [discipline, affiliation, scholarId, pubs, reviews] =
+        handles.slice(16);
+
+      await contract
+        .connect(signers.reviewer)
+        .addEncryptedReviewer(
+          handles.slice(0, 16),
+          discipline,
+          affiliation,
+          scholarId,
+          pubs,
+          reviews,
+          inputProof,
+        );
+      const [first] = await contract.getReviewerVector(1);
+      const weight = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        first,
+        address,
+        signers.reviewer,
+      );
+      expect(weight).to.equal(await contract.MAX_BUCKET_WEIGHT());
+
+      await expect(
+        contract
+          .connect(signers.reviewer)
+          .addEncryptedReviewer(
+            handles.slice(0, 8),
+            discipline,
+            affiliation,
+            scholarId,
+            pubs,
+            reviews,
+            inputProof,
+          ),
+      ).to.be.revertedWith("Wrong vector length");
+    });
+
+    it("stores an encrypted reviewer and emits ReviewerAdded", async function () {
+      await expect(
+        addReviewer(contract, address, signers.reviewer, reviewers[0]),
+      )
+        .to.emit(contract, "ReviewerAdded")
+        .withArgs(1n);
+
+      expect(await contract.reviewerCount()).to.equal(1n);
+      const stored = await contract.encryptedReviewers(1);
+      const publications = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        stored.encryptedPublicationCount,
+        address,
+        signers.reviewer,
+      );
+      expect(publications).to.equal(BigInt(reviewers[0].publicationCount));
+    });
+
+    it("rejects an input proof made for another sender", async function () {
+      const input = await encryptor.encryptPaper(
+        paper,
+        address,
+        signers.author.address,
+      );
+      await expect(
+        contract
+          .connect(signers.editor)
+          .submitEncryptedPaper(
+            input.title,
+            input.abstract,
+            input.keywords,
+            input.discipline,
+            input.authorAffiliations,
+            input.conflictIds,
+            input.inputProof,
+          ),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("matching", function () {
+    it("reverts with Invalid paper ID for unknown papers", async function () {
+      await addReviewer(contract, address, signers.reviewer, reviewers[0]);
+      await expect(contract.requestMatchingReviewers(0, 1)).to.be.revertedWith(
+        "Invalid paper ID",
+      );
+      await expect(contract.requestMatchingReviewers(1, 1)).to.be.revertedWith(
+        "Invalid paper ID",
+      );
+    });
+
+    it("reverts when there are no reviewers", async function () {
+      await submitPaper(contract, address, signers.author);
+      await expect(contract.requestMatchingReviewers(1, 1)).to.be.revertedWith(
+        "No reviewers available",
+      );
+    });
+
+    it("emits MatchingRequested and refuses a concurrent round", async function () {
+      // One more reviewer than fits in a batch keeps the round open
+      const batchSize =
+        Number(await contract.MATCH_BATCH_BUCKETS()) / paper.keywords.length;
+      for (let i = 0; i <= batchSize; i++) {
+        await addReviewer(contract, address, signers.reviewer, reviewers[0]);
+      }
+      await submitPaper(contract, address, signers.author);
+
+      await expect(contract.requestMatchingReviewers(1, 2))
+        .to.emit(contract, "MatchingRequested")
+        .withArgs(1n)
+        .and.to.emit(contract, "MatchingProgress")
+        .withArgs(1n, BigInt(batchSize));
+      await expect(contract.requestMatchingReviewers(1, 2)).to.be.revertedWith(
+        "Matching in progress",
+      );
+
+      await expect(contract.continueMatching(1))
+        .to.emit(contract, "MatchingProgress")
+        .withArgs(1n, BigInt(batchSize + 1));
+      await expect(contract.continueMatching(1)).to.be.revertedWith(
+        "No matching in progress",
+      );
+    });
+
+    it("records the ranking through processMatching", async function () {
+      const paperId = await matchAll(3);
+      const expected = referenceTopK(paper, reviewers, 3);
+
+      const completed = await contract.queryFilter(
+        contract.filters.MatchingCompleted(paperId),
+      );
+      expect(completed).to.have.length(1);
+      expect(completed[0].args.matchCount).to.equal(BigInt(expected.length));
+
+      const matches = await contract.getMatches(paperId);
+      expect(matches.map((m) => Number(m.reviewerId))).to.deep.equal(
+        expected.map((r) => r.reviewerId),
+      );
+      for (const match of matches) {
+        expect(match.paperId).to.equal(paperId);
+        expect(match.isRevealed).to.equal(false);
+      }
+      expect(await contract.getMatchCount(paperId)).to.equal(
+        BigInt(expected.length),
+      );
+    });
+
+    it("rejects processMatching for unknown or replayed requests", async function () {
+      await expect(
+        contract.processMatching(12345, "0x", "0x"),
+      ).to.be.revertedWith("Invalid request");
+
+      await matchAll(1);
+      // The mock oracle answered request 0; answering it again must fail
+      await expect(contract.processMatching(0, "0x", "0x")).to.be.revertedWith(
+        "Invalid request",
+      );
+    });
+  });
+
+  describe("reveal", function () {
+    it("reverts with No match found before matching", async function () {
+      await submitPaper(contract, address, signers.author);
+      await contract.assignEditor(1, signers.editor.address);
+      await expect(contract.revealMatchedReviewer(1, 0)).to.be.revertedWith(
+        "No match found",
+      );
+    });
+
+    it("reveals a score through finalizeReveal and emits MatchRevealed", async function () {
+      const paperId = await matchAll(2);
+      const [best] = referenceTopK(paper, reviewers, 2);
+
+      await consent(paperId, 0);
+      await contract.revealMatchedReviewer(paperId, 0);
+      await fhevm.awaitDecryptionOracle();
+
+      const revealed = await contract.queryFilter(
+        contract.filters.MatchRevealed(paperId),
+      );
+      expect(revealed).to.have.length(1);
+      expect(revealed[0].args.reviewerId).to.equal(BigInt(best.reviewerId));
+      expect(revealed[0].args.rank).to.equal(0n);
+      expect(revealed[0].args.score).to.equal(BigInt(best.score));
+
+      const [first, second] = await contract.getMatches(paperId);
+      expect(first.isRevealed).to.equal(true);
+      expect(first.revealedScore).to.equal(BigInt(best.score));
+      expect(second.isRevealed).to.equal(false);
+    });
+
+    it("reverts with Invalid rank past the ranking", async function () {
+      const paperId = await matchAll(2);
+      await expect(
+        contract.revealMatchedReviewer(paperId, 2),
+      ).to.be.revertedWith("Invalid rank");
+    });
+
+    it("reverts with Already revealed on a second reveal", async function () {
+      const paperId = await matchAll(1);
+      await consent(paperId, 0);
+      await contract.revealMatchedReviewer(paperId, 0);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        contract.revealMatchedReviewer(paperId, 0),
+      ).to.be.revertedWith("Already revealed");
+    });
+
+    it("rejects finalizeReveal for unknown requests", async function () {
+      await expect(
+        contract.finalizeReveal(12345, "0x", "0x"),
+      ).to.be.revertedWith("Invalid request");
+    });
+  });
+
+  describe("decryption requests", function () {
+    const quickly = { timeout: 100, pollInterval: 10 };
+
+    it("tracks the matching request until the oracle answers it", async function () {
+      for (const features of reviewers) {
+        await addReviewer(contract, address, signers.reviewer, features);
+      }
+      await submitPaper(contract, address, signers.author);
+      const client = new ReviewerRecClient(contract.connect(signers.editor));
+      await client.runMatching(1, 2);
+
+      const pending = await client.getDecryptionRequest(
+        1,
+        DecryptionKind.Matching,
+      );
+      expect(pending.status).to.equal(DecryptionStatus.Pending);
+      expect(pending.requestedAt).to.be.greaterThan(0);
+      const [requested] = await contract.queryFilter(
+        contract.filters.DecryptionRequested(1),
+      );
+      expect(requested.args.requestId).to.equal(pending.requestId);
+      expect(requested.args.kind).to.equal(BigInt(DecryptionKind.Matching));
+
+      const waiting = client.waitForMatch(1, { pollInterval: 10 });
+      await fhevm.awaitDecryptionOracle();
+      const matches = await waiting;
+      expect(matches.map((m) => Number(m.reviewerId))).to.deep.equal(
+        referenceTopK(paper, reviewers, 2).map((r) => r.reviewerId),
+      );
+      expect(
+        (await client.getDecryptionRequest(1, DecryptionKind.Matching)).status,
+      ).to.equal(DecryptionStatus.Fulfilled);
+    });
+
+    it("waits for a reveal and gives up while the oracle is silent", async function () {
+      const paperId = await matchAll(2);
+      await consent(paperId, 0);
+      const client = new ReviewerRecClient(contract.connect(signers.editor));
+      await expect(client.waitForReveal(paperId, quickly)).to.be.rejectedWith(
+        /No reveal decryption was requested/,
+      );
+
+      await client.revealMatchedReviewer(paperId, 0);
+      await expect(client.waitForReveal(paperId, quickly)).to.be.rejectedWith(
+        /has not answered reveal request \d+ of paper 1/,
+      );
+
+      await fhevm.awaitDecryptionOracle();
+      const [first, second] = await client.waitForReveal(paperId, quickly);
+      expect(first.isRevealed).to.equal(true);
+      expect(second.isRevealed).to.equal(false);
+    });
+
+    it("holds a re-match until the previous ranking has been decrypted", async function () {
+      for (const features of reviewers) {
+        await addReviewer(contract, address, signers.reviewer, features);
+      }
+      await submitPaper(contract, address, signers.author);
+      const editor = contract.connect(signers.editor);
+      await editor.requestMatchingReviewers(1, 1);
+      while ((await contract.getMatchingProgress(1)).active) {
+        await editor.continueMatching(1);
+      }
+
+      await expect(editor.requestMatchingReviewers(1, 3)).to.be.revertedWith(
+        "Decryption pending",
+      );
+      await fhevm.awaitDecryptionOracle();
+      const ids = async () =>
+        (await contract.getMatches(1)).map((m) => Number(m.reviewerId));
+      expect(await ids()).to.deep.equal(
+        referenceTopK(paper, reviewers, 1).map((r) => r.reviewerId),
+      );
+
+      await rank(1n, 3);
+      expect(await ids()).to.deep.equal(
+        referenceTopK(paper, reviewers, 3).map((r) => r.reviewerId),
+      );
+    });
+
+    it("holds a re-match until a pending reveal is answered, and reveals nothing while re-matching", async function () {
+      const paperId = await matchAll(2);
+      const [best, runnerUp] = referenceTopK(paper, reviewers, 2);
+      await consent(paperId, 0);
+      await consent(paperId, 1);
+      const editor = contract.connect(signers.editor);
+      await editor.revealMatchedReviewer(paperId, 0);
+
+      await expect(
+        editor.requestMatchingReviewers(paperId, 2),
+      ).to.be.revertedWith("Decryption pending");
+      await expect(editor.revealMatchedReviewer(paperId, 1)).to.be.revertedWith(
+        "Decryption pending",
+      );
+      await fhevm.awaitDecryptionOracle();
+      const [first] = await contract.getMatches(paperId);
+      expect(first.reviewerId).to.equal(BigInt(best.reviewerId));
+      expect(first.revealedScore).to.equal(BigInt(best.score));
+
+      await editor.requestMatchingReviewers(paperId, 2);
+      await expect(editor.revealMatchedReviewer(paperId, 1)).to.be.revertedWith(
+        "Matching in progress",
+      );
+      while ((await contract.getMatchingProgress(paperId)).active) {
+        await editor.continueMatching(paperId);
+      }
+      await fhevm.awaitDecryptionOracle();
+      await editor.revealMatchedReviewer(paperId, 1);
+      await fhevm.awaitDecryptionOracle();
+      const [, second] = await contract.getMatches(paperId);
+      expect(second.reviewerId).to.equal(BigInt(runnerUp.reviewerId));
+      // The new round charges the load penalty for the review the runner-up accepted
+      expect(second.revealedScore).to.equal(
+        BigInt(runnerUp.score) - (await contract.LOAD_PENALTY()),
+      );
+    });
+  });
+
+  describe("consent", function () {
+    it("walks an invitation from pending to accepted", async function () {
+      const paperId = await matchAll(2);
+      const [first] = await contract.getMatches(paperId);
+
+      await expect(contract.inviteReviewer(paperId, first.reviewerId))
+        .to.emit(contract, "ReviewerInvited")
+        .withArgs(paperId, first.reviewerId);
+      expect(
+        await contract.getInvitationStatus(paperId, first.reviewerId),
+      ).to.equal(InvitationStatus.Pending);
+
+      await expect(
+        contract
+          .connect(signers.reviewer)
+          .respondToInvitation(paperId, first.reviewerId, true),
+      )
+        .to.emit(contract, "InvitationAnswered")
+        .withArgs(paperId, first.reviewerId, true);
+
+      const [paperIds, statuses] = await contract.getInvitations(
+        first.reviewerId,
+      );
+      expect(paperIds).to.deep.equal([paperId]);
+      expect(statuses).to.deep.equal([BigInt(InvitationStatus.Accepted)]);
+    });
+
+    it("refuses to reveal before the reviewer accepts", async function () {
+      const paperId = await matchAll(1);
+      const [first] = await contract.getMatches(paperId);
+
+      await expect(
+        contract.revealMatchedReviewer(paperId, 0),
+      ).to.be.revertedWith("Reviewer has not consented");
+
+      await contract.inviteReviewer(paperId, first.reviewerId);
+      await expect(
+        contract.revealMatchedReviewer(paperId, 0),
+      ).to.be.revertedWith("Reviewer has not consented");
+    });
+
+    it("keeps a declining reviewer sealed for good", async function () {
+      const paperId = await matchAll(1);
+      const [first] = await contract.getMatches(paperId);
+      await contract.inviteReviewer(paperId, first.reviewerId);
+      await contract
+        .connect(signers.reviewer)
+        .respondToInvitation(paperId, first.reviewerId, false);
+
+      await expect(
+        contract.revealMatchedReviewer(paperId, 0),
+      ).to.be.revertedWith("Reviewer has not consented");
+      await expect(
+        contract.inviteReviewer(paperId, first.reviewerId),
+      ).to.be.revertedWith("Already invited");
+      await expect(
+        contract
+          .connect(signers.reviewer)
+          .respondToInvitation(paperId, first.reviewerId, true),
+      ).to.be.revertedWith("No pending invitation");
+    });
+
+    it("only lets the reviewer's own wallet answer", async function () {
+      const paperId = await matchAll(1);
+      const [first] = await contract.getMatches(paperId);
+      await contract.inviteReviewer(paperId, first.reviewerId);
+
+      await expect(
+        contract.respondToInvitation(paperId, first.reviewerId, true),
+      ).to.be.revertedWith("Not the invited reviewer");
+    });
+
+    it("only invites ranked reviewers with a wallet", async function () {
+      // Curated by the editor, so the profile has no wallet to answer from
+      await addReviewer(contract, address, signers.editor, reviewers[0]);
+      await submitPaper(contract, address, signers.author);
+      await contract.requestMatchingReviewers(1, 1);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(contract.inviteReviewer(1, 2)).to.be.revertedWith(
+        "Not a matched reviewer",
+      );
+      await expect(contract.inviteReviewer(1, 1)).to.be.revertedWith(
+        "Reviewer cannot be contacted",
+      );
+      await expect(
+        contract.connect(signers.otherEditor).inviteReviewer(1, 1),
+      ).to.be.revertedWith("Not the paper's editor");
+    });
+
+    it("tracks the reviewer's load from acceptance to completion", async function () {
+      const paperId = await matchAll(1);
+      const reviewerId = await consent(paperId, 0);
+      const decryptCounts = async () => {
+        const stored = await contract.encryptedReviewers(reviewerId);
+        const counts: bigint[] = [];
+        // One at a time: the mock relayer cannot serve concurrent decryptions
+        for (const handle of [
+          stored.encryptedActiveReviews,
+          stored.encryptedReviewCount,
+        ]) {
+          counts.push(
+            await fhevm.userDecryptEuint(
+              FhevmType.euint32,
+              handle,
+              address,
+              signers.reviewer,
+            ),
+          );
+        }
+        return counts;
+      };
+      const completedBefore = BigInt(
+        reviewers[Number(reviewerId) - 1].reviewCount,
+      );
+      expect(await decryptCounts()).to.deep.equal([1n, completedBefore]);
+
+      await expect(contract.completeReview(paperId, reviewerId))
+        .to.emit(contract, "ReviewCompleted")
+        .withArgs(paperId, reviewerId);
+      expect(await decryptCounts()).to.deep.equal([0n, completedBefore + 1n]);
+      expect(await contract.getInvitationStatus(paperId, reviewerId)).to.equal(
+        InvitationStatus.Completed,
+      );
+
+      // Completion does not take back the consent to be revealed
+      await contract.revealMatchedReviewer(paperId, 0);
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.getMatches(paperId))[0].isRevealed).to.equal(true);
+    });
+
+    it("only completes accepted reviews, from the handling editor", async function () {
+      const paperId = await matchAll(2);
+      const [first, second] = await contract.getMatches(paperId);
+      await contract.inviteReviewer(paperId, second.reviewerId);
+      await expect(
+        contract.completeReview(paperId, second.reviewerId),
+      ).to.be.revertedWith("Review not in progress");
+
+      await consent(paperId, 0);
+      await expect(
+        contract
+          .connect(signers.otherEditor)
+          .completeReview(paperId, first.reviewerId),
+      ).to.be.revertedWith("Not the paper's editor");
+      await contract.completeReview(paperId, first.reviewerId);
+      await expect(
+        contract.completeReview(paperId, first.reviewerId),
+      ).to.be.revertedWith("Review not in progress");
+    });
+
+    it("lists the profiles a reviewer registered", async function () {
+      await addReviewer(contract, address, signers.reviewer, reviewers[0]);
+      await addReviewer(contract, address, signers.editor, reviewers[1]);
+      await addReviewer(contract, address, signers.reviewer, reviewers[2]);
+
+      expect(
+        await contract.getReviewerIds(signers.reviewer.address),
+      ).to.deep.equal([1n, 3n]);
+    });
+  });
+
+  describe("reviewer self-service", function () {
+    it("lets the owner replace their profile, keeping the review count", async function () {
+      await addReviewer(contract, address, signers.reviewer, reviewers[0]);
+      const registered = await contract.encryptedReviewers(1);
+      expect(registered.status).to.equal(ReviewerStatus.Active);
+
+      await ethers.provider.send("evm_increaseTime", [3600]);
+      await expect(
+        updateReviewer(contract, address, signers.reviewer, 1n, reviewers[1]),
+      )
+        .to.emit(contract, "ReviewerUpdated")
+        .withArgs(1n, anyValue);
+
+      const updated = await contract.encryptedReviewers(1);
+      expect(updated.updatedAt).to.be.greaterThan(registered.updatedAt);
+      const decrypted: bigint[] = [];
+      for (const handle of [
+        updated.encryptedPublicationCount,
+        updated.encryptedReviewCount,
+      ]) {
+        decrypted.push(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint32,
+            handle,
+            address,
+            signers.reviewer,
+          ),
+        );
+      }
+      expect(decrypted).to.deep.equal([
+        BigInt(reviewers[1].publicationCount),
+        BigInt(reviewers[0].reviewCount),
+      ]);
+      const [, , , bucket] = await contract.getReviewerVector(1);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          bucket,
+          address,
+          signers.reviewer,
+        ),
+      ).to.equal(BigInt(reviewers[1].expertise[3]));
+    });
+
+    it("only lets the owning wallet change a profile", async function () {
+      await addReviewer(contract, address, signers.reviewer, reviewers[0]);
+      // Curated by an editor, so nobody owns it
+      await addReviewer(contract, address, signers.editor, reviewers[1]);
+
+      await expect(
+        updateReviewer(contract, address, signers.stranger, 1n, reviewers[1]),
+      ).to.be.revertedWith("Not the profile owner");
+      await expect(
+        updateReviewer(contract, address, signers.reviewer, 2n, reviewers[1]),
+      ).to.be.revertedWith("Not the profile owner");
+      await expect(
+        contract.connect(signers.editor).setReviewerPaused(1, true),
+      ).to.be.revertedWith("Not the profile owner");
+      await expect(
+        contract.connect(signers.editor).deregisterReviewer(2),
+      ).to.be.revertedWith("Not the profile owner");
+    });
+
+    it("leaves a profile to its owner after the reviewer role is revoked", async function () {
+      await addReviewer(contract, address, signers.reviewer, reviewers[0]);
+      await contract.revokeRole(
+        await contract.REVIEWER_ROLE(),
+        signers.reviewer.address,
+      );
+      await expect(
+        addReviewer(contract, address, signers.reviewer, reviewers[1]),
+      ).to.be.revertedWith("Missing role");
+
+      const owner = contract.connect(signers.reviewer);
+      await updateReviewer(
+        contract,
+        address,
+        signers.reviewer,
+        1n,
+        reviewers[1],
+      );
+      await owner.setReviewerPaused(1, true);
+      await owner.setAvailability(1, 0, 0);
+      await owner.deregisterReviewer(1);
+      expect((await contract.encryptedReviewers(1)).status).to.equal(
+        ReviewerStatus.Deregistered,
+      );
+    });
+
+    it("skips paused reviewers in matching and invitations until they resume", async function () {
+      for (const features of reviewers) {
+        await addReviewer(contract, address, signers.reviewer, features);
+      }
+      await expect(
+        contract.connect(signers.reviewer).setReviewerPaused(1, true),
+      )
+        .to.emit(contract, "ReviewerStatusChanged")
+        .withArgs(1n, ReviewerStatus.Paused);
+      await expect(
+        contract.connect(signers.reviewer).setReviewerPaused(1, true),
+      ).to.be.revertedWith("Status unchanged");
+
+      await submitPaper(contract, address, signers.author);
+      await rank(1n, 3);
+      const ranked = (await contract.getMatches(1)).map((m) => m.reviewerId);
+      expect(ranked).to.not.include(1n);
+      expect(ranked).to.deep.equal(
+        referenceTopK(paper, reviewers, 3)
+          .map((r) => BigInt(r.reviewerId))
+          .filter((id) => id !== 1n),
+      );
+
+      const [first] = ranked;
+      await contract.connect(signers.reviewer).setReviewerPaused(first, true);
+      await expect(contract.inviteReviewer(1, first)).to.be.revertedWith(
+        "Reviewer not available",
+      );
+      await contract.connect(signers.reviewer).setReviewerPaused(first, false);
+      await contract.inviteReviewer(1, first);
+    });
+
+    it("retires a deregistered profile for good", async function () {
+      for (const features of reviewers) {
+        await addReviewer(contract, address, signers.reviewer, features);
+      }
+      await submitPaper(contract, address, signers.author);
+      await rank(1n, 3);
+      const [first] = await contract.getMatches(1);
+      await contract.inviteReviewer(1, first.reviewerId);
+
+      const owner = contract.connect(signers.reviewer);
+      await ethers.provider.send("evm_increaseTime", [3600]);
+      await expect(owner.deregisterReviewer(first.reviewerId))
+        .to.emit(contract, "ReviewerStatusChanged")
+        .withArgs(first.reviewerId, ReviewerStatus.Deregistered);
+      expect(await contract.getReviewerVector(first.reviewerId)).to.deep.equal(
+        [],
+      );
+      const [, lastActiveAt] = await contract.getReviewerAvailability([
+        first.reviewerId,
+      ]);
+      expect(lastActiveAt[0]).to.equal(
+        (await ethers.provider.getBlock("latest"))!.timestamp,
+      );
+      for (const attempt of [
+        () => owner.deregisterReviewer(first.reviewerId),
+        () => owner.setReviewerPaused(first.reviewerId, false),
+        () => owner.respondToInvitation(1, first.reviewerId, true),
+        () =>
+          updateReviewer(
+            contract,
+            address,
+            signers.reviewer,
+            first.reviewerId,
+            reviewers[0],
+          ),
+      ]) {
+        await expect(attempt()).to.be.revertedWith("Profile deregistered");
+      }
+
+      await rank(1n, 3);
+      expect(
+        (await contract.getMatches(1)).map((m) => m.reviewerId),
+      ).to.not.include(first.reviewerId);
+      // The id stays taken
+      expect(
+        await contract.getReviewerIds(signers.reviewer.address),
+      ).to.deep.equal([1n, 2n, 3n]);
+    });
+  });
+
+  describe("availability", function () {
+    const DAY = 86_400;
+
+    async function now(): Promise<number> {
+      return (await ethers.provider.getBlock("latest"))!.timestamp;
+    }
+
+    async function rankedIds(): Promise<bigint[]> {
+      await rank(1n, 3);
+      return (await contract.getMatches(1)).map((m) => m.reviewerId);
+    }
+
+    it("skips reviewers outside a public window until it opens", async function () {
+      for (const features of reviewers) {
+        await addReviewer(contract, address, signers.reviewer, features);
+      }
+      await submitPaper(contract, address, signers.author);
+      const opens = (await now()) + DAY;
+      await expect(
+        contract
+          .connect(signers.reviewer)
+          .setAvailability(1, opens, opens + 7 * DAY),
+      )
+        .to.emit(contract, "AvailabilityChanged")
+        .withArgs(1n, false, opens, opens + 7 * DAY);
+
+      const [availability] = await contract.getReviewerAvailability([1, 2]);
+      expect(availability.map(Number)).to.deep.equal([
+        Availability.Unavailable,
+        Availability.Available,
+      ]);
+      expect(await rankedIds()).to.not.include(1n);
+
+      await ethers.provider.send("evm_increaseTime", [2 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await rankedIds()).to.include(1n);
+      await contract.inviteReviewer(1, 1);
+
+      await ethers.provider.send("evm_increaseTime", [7 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+      expect(
+        (await contract.getReviewerAvailability([1]))[0].map(Number),
+      ).to.deep.equal([Availability.Unavailable]);
+    });
+
+    it("zeroes the score outside an encrypted window without revealing it", async function () {
+      for (const features of reviewers) {
+        await addReviewer(contract, address, signers.reviewer, features);
+      }
+      await submitPaper(contract, address, signers.author);
+      const start = await now();
+      const seal = async (reviewerId: number, from: number, until: number) => {
+        const input = await encryptor.encryptAvailability(
+          { from, until },
+          address,
+          signers.reviewer.address,
+        );
+        return contract
+          .connect(signers.reviewer)
+          .setEncryptedAvailability(
+            reviewerId,
+            input.from,
+            input.until,
+            input.inputProof,
+          );
+      };
+      await expect(seal(1, start + DAY, start + 2 * DAY))
+        .to.emit(contract, "AvailabilityChanged")
+        .withArgs(1n, true, 0, 0);
+      await seal(3, start - DAY, start + 30 * DAY);
+
+      const window = await contract.availabilityWindows(1);
+      expect([window.encrypted, window.from, window.until]).to.deep.equal([
+        true,
+        0n,
+        0n,
+      ]);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          window.encryptedFrom,
+          address,
+          signers.reviewer,
+        ),
+      ).to.equal(BigInt(start + DAY));
+      const [availability] = await contract.getReviewerAvailability([1, 3]);
+      expect(availability.map(Number)).to.deep.equal([
+        Availability.Sealed,
+        Availability.Sealed,
+      ]);
+
+      const expected = referenceTopK(paper, reviewers, 3).map((r) =>
+        BigInt(r.reviewerId),
+      );
+      expect(await rankedIds()).to.deep.equal(
+        expected.filter((id) => id !== 1n),
+      );
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await rankedIds()).to.deep.equal(expected);
+    });
+
+    it("records the owner's last activity and rejects inverted windows", async function () {
+      await addReviewer(contract, address, signers.reviewer, reviewers[0]);
+      const registered = (await contract.encryptedReviewers(1)).lastActiveAt;
+      const owner = contract.connect(signers.reviewer);
+
+      await expect(owner.setAvailability(1, 10, 5)).to.be.revertedWith(
+        "Invalid window",
+      );
+      await expect(
+        contract.connect(signers.editor).setAvailability(1, 0, 0),
+      ).to.be.revertedWith("Not the profile owner");
+
+      const touches = [
+        () => owner.setAvailability(1, 0, 0),
+        () => owner.setReviewerPaused(1, true),
+        () => owner.setReviewerPaused(1, false),
+        () =>
+          updateReviewer(contract, address, signers.reviewer, 1n, reviewers[0]),
+      ];
+      let previous = registered;
+      for (const touch of touches) {
+        await ethers.provider.send("evm_increaseTime", [60]);
+        await touch();
+        const lastActiveAt = (await contract.encryptedReviewers(1))
+          .lastActiveAt;
+        expect(lastActiveAt).to.be.greaterThan(previous);
+        previous = lastActiveAt;
+      }
+      const [, lastActiveAt] = await contract.getReviewerAvailability([1]);
+      expect(lastActiveAt).to.deep.equal([previous]);
+    });
+  });
+
+  describe("paper lifecycle", function () {
+    async function statusHistory(paperId: bigint): Promise<PaperStatus[]> {
+      const logs = await contract.queryFilter(
+        contract.filters.PaperStatusChanged(paperId),
+      );
+      return logs.map((log) => Number(log.args.status));
+    }
+
+    it("walks a paper from submission to decision with an event per step", async function () {
+      const paperId = await matchAll(1);
+      expect((await contract.encryptedPapers(paperId)).status).to.equal(
+        PaperStatus.Matching,
+      );
+
+      await consent(paperId, 0);
+      await contract.startReview(paperId);
+      await expect(contract.recordDecision(paperId))
+        .to.emit(contract, "PaperStatusChanged")
+        .withArgs(paperId, PaperStatus.Decided, anyValue);
+
+      expect(await statusHistory(paperId)).to.deep.equal([
+        PaperStatus.Submitted,
+        PaperStatus.Matching,
+        PaperStatus.ReviewersAssigned,
+        PaperStatus.UnderReview,
+        PaperStatus.Decided,
+      ]);
+      const stored = await contract.encryptedPapers(paperId);
+      expect(stored.statusUpdatedAt).to.be.greaterThan(stored.timestamp);
+    });
+
+    it("refuses transitions out of order", async function () {
+      const paperId = await matchAll(2);
+      await expect(contract.startReview(paperId)).to.be.revertedWith(
+        "Reviewers not assigned",
+      );
+      await expect(contract.recordDecision(paperId)).to.be.revertedWith(
+        "Paper not under review",
+      );
+
+      await consent(paperId, 0);
+      // Matching again to find more reviewers keeps the paper assigned
+      await contract.requestMatchingReviewers(paperId, 2);
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.encryptedPapers(paperId)).status).to.equal(
+        PaperStatus.ReviewersAssigned,
+      );
+
+      await expect(
+        contract.connect(signers.otherEditor).startReview(paperId),
+      ).to.be.revertedWith("Not the paper's editor");
+      await contract.startReview(paperId);
+      await expect(
+        contract.requestMatchingReviewers(paperId, 2),
+      ).to.be.revertedWith("Paper not open for matching");
+    });
+
+    it("lets only the author withdraw, stopping matching and invitations", async function () {
+      for (const features of [...reviewers, ...reviewers]) {
+        await addReviewer(contract, address, signers.reviewer, features);
+      }
+      await submitPaper(contract, address, signers.author);
+      await contract.requestMatchingReviewers(1, 1);
+      expect((await contract.getMatchingProgress(1)).active).to.equal(true);
+
+      await expect(contract.withdrawPaper(1)).to.be.revertedWith(
+        "Not the paper's author",
+      );
+      await expect(contract.connect(signers.author).withdrawPaper(1))
+        .to.emit(contract, "PaperStatusChanged")
+        .withArgs(1n, PaperStatus.Withdrawn, anyValue);
+
+      expect((await contract.getMatchingProgress(1)).active).to.equal(false);
+      await expect(contract.continueMatching(1)).to.be.revertedWith(
+        "No matching in progress",
+      );
+      await expect(contract.requestMatchingReviewers(1, 1)).to.be.revertedWith(
+        "Paper not open for matching",
+      );
+      await expect(contract.inviteReviewer(1, 1)).to.be.revertedWith(
+        "Paper closed",
+      );
+      await expect(
+        contract.connect(signers.author).withdrawPaper(1),
+      ).to.be.revertedWith("Paper closed");
+    });
+  });
+
+  describe("access control", function () {
+    it("gives the deployer the admin role only", async function () {
+      const admin = await contract.ADMIN_ROLE();
+      expect(await contract.hasRole(admin, signers.editor.address)).to.equal(
+        true,
+      );
+      expect(await contract.hasRole(admin, signers.author.address)).to.equal(
+        false,
+      );
+    });
+
+    it("lets only admins grant and revoke roles", async function () {
+      const editorRole = await contract.EDITOR_ROLE();
+      await expect(
+        contract
+          .connect(signers.stranger)
+          .grantRole(editorRole, signers.stranger.address),
+      ).to.be.revertedWith("Missing role");
+
+      await expect(contract.revokeRole(editorRole, signers.otherEditor.address))
+        .to.emit(contract, "RoleRevoked")
+        .withArgs(
+          editorRole,
+          signers.otherEditor.address,
+          signers.editor.address,
+        );
+      await expect(
+        contract.revokeRole(
+          await contract.ADMIN_ROLE(),
+          signers.editor.address,
+        ),
+      ).to.be.revertedWith("Cannot revoke own admin role");
+    });
+
+    it("lets only admins change the concurrent review cap", async function () {
+      await expect(
+        contract.connect(signers.otherEditor).setMaxConcurrentReviews(5),
+      ).to.be.revertedWith("Missing role");
+      await expect(contract.setMaxConcurrentReviews(0)).to.be.revertedWith(
+        "Invalid cap",
+      );
+      await expect(contract.setMaxConcurrentReviews(5))
+        .to.emit(contract, "MaxConcurrentReviewsUpdated")
+        .withArgs(5);
+      expect(await contract.maxConcurrentReviews()).to.equal(5n);
+    });
+
+    it("lets only admins add profile versions of a valid length", async function () {
+      await expect(
+        contract.connect(signers.otherEditor).addProfileVersion(32),
+      ).to.be.revertedWith("Missing role");
+      for (const dimensions of [4, 12, 64]) {
+        await expect(contract.addProfileVersion(dimensions)).to.be.revertedWith(
+          "Invalid dimensions",
+        );
+      }
+
+      await expect(contract.addProfileVersion(32))
+        .to.emit(contract, "ProfileVersionAdded")
+        .withArgs(2, 32);
+      expect(await contract.currentProfileVersion()).to.equal(2);
+      expect(await contract.profileDimensions(1)).to.equal(16);
+    });
+
+    it("only accepts papers from authors", async function () {
+      await expect(
+        submitPaper(contract, address, signers.stranger),
+      ).to.be.revertedWith("Missing role");
+    });
+
+    it("only accepts reviewer profiles from editors or reviewers", async function () {
+      await expect(
+        addReviewer(contract, address, signers.stranger, reviewers[0]),
+      ).to.be.revertedWith("Missing role");
+      await expect(
+        addReviewer(contract, address, signers.editor, reviewers[0]),
+      ).to.emit(contract, "ReviewerAdded");
+    });
+
+    it("binds a paper to the first editor that matches it", async function () {
+      await addReviewer(contract, address, signers.reviewer, reviewers[0]);
+      await submitPaper(contract, address, signers.author);
+
+      await expect(
+        contract.connect(signers.author).requestMatchingReviewers(1, 1),
+      ).to.be.revertedWith("Missing role");
+      await expect(contract.requestMatchingReviewers(1, 1))
+        .to.emit(contract, "EditorAssigned")
+        .withArgs(1n, signers.editor.address);
+      expect((await contract.encryptedPapers(1)).editor).to.equal(
+        signers.editor.address,
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        contract.connect(signers.otherEditor).requestMatchingReviewers(1, 1),
+      ).to.be.revertedWith("Not the paper's editor");
+      await expect(
+        contract.connect(signers.otherEditor).revealMatchedReviewer(1, 0),
+      ).to.be.revertedWith("Not the paper's editor");
+    });
+
+    it("lets only the handling editor decrypt match scores", async function () {
+      const paperId = await matchAll(1);
+      const [match] = await contract.getMatches(paperId);
+      const [best] = referenceTopK(paper, reviewers, 1);
+
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          match.matchScore,
+          address,
+          signers.editor,
+        ),
+      ).to.equal(BigInt(best.score));
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          match.matchScore,
+          address,
+          signers.otherEditor,
+        ),
+      ).to.be.rejected;
+
+      await contract.assignEditor(paperId, signers.otherEditor.address);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          match.matchScore,
+          address,
+          signers.otherEditor,
+        ),
+      ).to.equal(BigInt(best.score));
+    });
+
+    it("only reassigns papers to editors", async function () {
+      await submitPaper(contract, address, signers.author);
+      await expect(
+        contract.assignEditor(1, signers.stranger.address),
+      ).to.be.revertedWith("Not an editor");
+      await expect(
+        contract
+          .connect(signers.otherEditor)
+          .assignEditor(1, signers.otherEditor.address),
+      ).to.be.revertedWith("Missing role");
+    });
+  });
+});
@@ -0,0 +1,498 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import type {
+  PaperFeatures,
+  ReviewerFeatures,
+} from "../frontend/web/src/encryption";
+import { RelayerEncryptor } from "../frontend/web/src/encryption";
+import { ReviewerRecClient } from "../frontend/web/src/reviewerRecClient";
+import { disciplineCode } from "../frontend/web/src/taxonomy";
+import {
+  buckets,
+  DISCIPLINE_WEIGHT,
+  isConflicted,
+  LOAD_PENALTY,
+  PARENT_DISCIPLINE_WEIGHT,
+  referenceScore,
+  referenceTopK,
+  seededRandom,
+  SIBLING_DISCIPLINE_WEIGHT,
+} from "./helpers/referenceMatching";
+
+async function deployClient(
+  signer: HardhatEthersSigner,
+): Promise<ReviewerRecClient> {
+  const factory = await ethers.getContractFactory("ReviewerRecFHE", signer);
+  const contract = await factory.deploy();
+  await contract.waitForDeployment();
+  const client = new ReviewerRecClient(contract);
+  // One account plays every part so the tests can focus on matching
+  for (const role of ["editor", "author", "reviewer"] as const) {
+    await client.grantRole(role, signer.address);
+  }
+  return client;
+}
+
+/** Reviewers that fit in one matching transaction when every vector has `dimensions` buckets. */
+async function batchSize(
+  client: ReviewerRecClient,
+  dimensions = 16,
+): Promise<number> {
+  return Number(await client.contract.MATCH_BATCH_BUCKETS()) / dimensions;
+}
+
+async function matchPaper(
+  client: ReviewerRecClient,
+  paper: PaperFeatures,
+  reviewers: ReviewerFeatures[],
+  k: number,
+): Promise<bigint> {
+  const encryptor = new RelayerEncryptor(fhevm);
+  for (const reviewer of reviewers) {
+    await client.addReviewer(reviewer, encryptor);
+  }
+  const { paperId } = await client.submitPaper(paper, encryptor);
+  await client.runMatching(paperId, k);
+  await fhevm.awaitDecryptionOracle();
+  return paperId;
+}
+
+// Unknown, the paper's field, two of its subfields and an unrelated field
+const RANDOM_DISCIPLINES = [
+  0,
+  1,
+  disciplineCode("Machine Learning"),
+  disciplineCode("Computer Vision"),
+  disciplineCode("Cryptography"),
+];
+
+function randomReviewer(next: () => number): ReviewerFeatures {
+  return {
+    // Four populated buckets keep overlaps (and therefore ties) frequent
+    expertise: buckets({
+      [Math.floor(next() * 4)]: 1 + Math.floor(next() * 3),
+    }),
+    discipline:
+      RANDOM_DISCIPLINES[Math.floor(next() * RANDOM_DISCIPLINES.length)],
+    // Few institutions, so several reviewers share the conflicted ones
+    affiliation: 1 + Math.floor(next() * 6),
+    scholarId: 1 + Math.floor(next() * 100000),
+    publicationCount: Math.floor(next() * 50),
+    reviewCount: Math.floor(next() * 10),
+  };
+}
+
+describe("ReviewerRecFHE matching engine", function () {
+  let editor: HardhatEthersSigner;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      console.warn("Matching tests only run against the FHEVM mock");
+      this.skip();
+    }
+    [editor] = await ethers.getSigners();
+  });
+
+  const paper: PaperFeatures = {
+    title: 11,
+    abstract: 22,
+    keywords: buckets({ 0: 2, 2: 3 }),
+    discipline: 1,
+  };
+
+  const singleReviewerCases: [string, ReviewerFeatures][] = [
+    [
+      "discipline and keywords",
+      {
+        expertise: buckets({ 2: 4, 5: 1 }),
+        discipline: 1,
+        affiliation: 7,
+        publicationCount: 12,
+        reviewCount: 0,
+      },
+    ],
+    [
+      "keywords only, publications capped",
+      {
+        expertise: buckets({ 0: 15 }),
+        discipline: 2,
+        affiliation: 7,
+        publicationCount: 80,
+        reviewCount: 0,
+      },
+    ],
+    [
+      "discipline only",
+      {
+        expertise: buckets({ 3: 6 }),
+        discipline: 1,
+        affiliation: 7,
+        publicationCount: 25,
+        reviewCount: 0,
+      },
+    ],
+  ];
+
+  for (const [name, reviewer] of singleReviewerCases) {
+    it(`scores a reviewer matching on ${name} like the reference`, async function () {
+      const client = await deployClient(editor);
+      const paperId = await matchPaper(client, paper, [reviewer], 1);
+
+      const [match] = await client.getMatches(paperId);
+      expect(match.reviewerId).to.equal(1n);
+      const score = await fhevm.debugger.decryptEuint(
+        FhevmType.euint32,
+        match.encryptedScore,
+      );
+      expect(score).to.equal(BigInt(referenceScore(paper, reviewer)));
+    });
+  }
+
+  it("records no match when no reviewer scores above zero", async function () {
+    const client = await deployClient(editor);
+    const stranger: ReviewerFeatures = {
+      expertise: buckets({ 3: 6 }),
+      discipline: 2,
+      affiliation: 1,
+      publicationCount: 40,
+      reviewCount: 0,
+    };
+    const paperId = await matchPaper(client, paper, [stranger], 3);
+
+    expect(await client.getMatches(paperId)).to.deep.equal([]);
+  });
+
+  for (const k of [1, 3, 5]) {
+    it(`ranks the top ${k} across several batches like the reference`, async function () {
+      const client = await deployClient(editor);
+      const next = seededRandom(20240611);
+      const reviewers = Array.from(
+        { length: (await batchSize(client)) + 3 },
+        () => randomReviewer(next),
+      );
+
+      const paperId = await matchPaper(client, paper, reviewers, k);
+      const expected = referenceTopK(paper, reviewers, k);
+
+      const matches = await client.getMatches(paperId);
+      expect(matches.map((m) => Number(m.reviewerId))).to.deep.equal(
+        expected.map((r) => r.reviewerId),
+      );
+      for (const [rank, match] of matches.entries()) {
+        expect(match.rank).to.equal(rank);
+        const score = await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          match.encryptedScore,
+        );
+        expect(score).to.equal(BigInt(expected[rank].score));
+      }
+    });
+  }
+
+  it("keeps the lower reviewer id first on tied scores", async function () {
+    const client = await deployClient(editor);
+    const twin = singleReviewerCases[0][1];
+    const paperId = await matchPaper(client, paper, [twin, twin, twin], 3);
+
+    const matches = await client.getMatches(paperId);
+    expect(matches.map((m) => m.reviewerId)).to.deep.equal([1n, 2n, 3n]);
+  });
+
+  it("gives partial credit to the parent field and sibling subfields", async function () {
+    const client = await deployClient(editor);
+    const fhePaper = { ...paper, discipline: disciplineCode("FHE") };
+    const reviewers = [
+      "Homomorphic Encryption",
+      "Cryptography",
+      "Zero-Knowledge Proofs",
+      // Same subfield number as the paper, but under another field
+      "Computation and Language",
+    ].map(
+      (discipline): ReviewerFeatures => ({
+        expertise: buckets({ 3: 6 }),
+        discipline: disciplineCode(discipline),
+        affiliation: 7,
+        publicationCount: 25,
+        reviewCount: 0,
+      }),
+    );
+    const paperId = await matchPaper(client, fhePaper, reviewers, 4);
+
+    const matches = await client.getMatches(paperId);
+    expect(matches.map((m) => m.reviewerId)).to.deep.equal([1n, 2n, 3n]);
+    const scores = [];
+    for (const match of matches) {
+      scores.push(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          match.encryptedScore,
+        ),
+      );
+    }
+    expect(scores).to.deep.equal(
+      [
+        DISCIPLINE_WEIGHT,
+        PARENT_DISCIPLINE_WEIGHT,
+        SIBLING_DISCIPLINE_WEIGHT,
+      ].map(BigInt),
+    );
+    expect(
+      referenceTopK(fhePaper, reviewers, 4).map((r) => r.score),
+    ).to.deep.equal([
+      DISCIPLINE_WEIGHT,
+      PARENT_DISCIPLINE_WEIGHT,
+      SIBLING_DISCIPLINE_WEIGHT,
+    ]);
+  });
+
+  it("reveals ranked candidates one at a time", async function () {
+    const client = await deployClient(editor);
+    const reviewers = singleReviewerCases.map(([, reviewer]) => reviewer);
+    const paperId = await matchPaper(client, paper, reviewers, 3);
+    const expected = referenceTopK(paper, reviewers, 3);
+
+    const { reviewerId } = (await client.getMatches(paperId))[1];
+    await client.inviteReviewer(paperId, reviewerId);
+    await client.respondToInvitation(paperId, reviewerId, true);
+    await client.revealMatchedReviewer(paperId, 1);
+    await fhevm.awaitDecryptionOracle();
+
+    const matches = await client.getMatches(paperId);
+    expect(matches.map((m) => m.isRevealed)).to.deep.equal([
+      false,
+      true,
+      false,
+    ]);
+    expect(matches[1].score).to.equal(expected[1].score);
+    expect(matches[0].score).to.equal(null);
+
+    const [revealed] = await client.queryMatchRevealed();
+    expect(revealed.rank).to.equal(1);
+    expect(revealed.reviewerId).to.equal(matches[1].reviewerId);
+  });
+
+  describe("conflicts of interest", function () {
+    const strong = singleReviewerCases[0][1];
+
+    it("never ranks a reviewer from one of the authors' institutions", async function () {
+      const client = await deployClient(editor);
+      const reviewers = [
+        { ...strong, affiliation: 31 },
+        { ...strong, affiliation: 32 },
+        { ...strong, affiliation: 33 },
+      ];
+      const conflicted = { ...paper, authorAffiliations: [31, 33] };
+      const paperId = await matchPaper(client, conflicted, reviewers, 3);
+
+      const matches = await client.getMatches(paperId);
+      expect(matches.map((m) => m.reviewerId)).to.deep.equal([2n]);
+    });
+
+    it("never ranks a declared co-author or advisor", async function () {
+      const client = await deployClient(editor);
+      const reviewers = [
+        { ...strong, scholarId: 9001 },
+        { ...strong, scholarId: 9002 },
+        { ...strong },
+      ];
+      const conflicted = { ...paper, conflictIds: [9002] };
+      const paperId = await matchPaper(client, conflicted, reviewers, 3);
+
+      const matches = await client.getMatches(paperId);
+      expect(matches.map((m) => m.reviewerId)).to.deep.equal([1n, 3n]);
+    });
+
+    it("keeps conflicted reviewers out of the top-k across batches", async function () {
+      const client = await deployClient(editor);
+      const max = Number(await client.maxTopK());
+      const next = seededRandom(31337);
+      const count = (await batchSize(client)) * 3 + 1;
+      const reviewers = Array.from({ length: count }, () => ({
+        ...randomReviewer(next),
+        // Everyone overlaps, so only the conflict check can keep them out
+        expertise: paper.keywords,
+      }));
+      const conflicted: PaperFeatures = {
+        ...paper,
+        authorAffiliations: [reviewers[0].affiliation, 6, 5],
+        conflictIds: [1, 2, 3, 4, 5].map((i) => reviewers[i].scholarId!),
+      };
+
+      const paperId = await matchPaper(client, conflicted, reviewers, max);
+      const expected = referenceTopK(conflicted, reviewers, max);
+
+      const matches = await client.getMatches(paperId);
+      expect(matches.map((m) => Number(m.reviewerId))).to.deep.equal(
+        expected.map((r) => r.reviewerId),
+      );
+      for (const match of matches) {
+        const reviewer = reviewers[Number(match.reviewerId) - 1];
+        expect(isConflicted(conflicted, reviewer)).to.equal(false);
+      }
+    });
+
+    it("refuses to declare zero, which profiles use for unknown", async function () {
+      const encryptor = new RelayerEncryptor(fhevm);
+      const address = await editor.getAddress();
+      await expect(
+        encryptor.encryptPaper(
+          { ...paper, conflictIds: [0] },
+          address,
+          address,
+        ),
+      ).to.be.rejectedWith(RangeError);
+    });
+  });
+
+  describe("workload balancing", function () {
+    const twins = [singleReviewerCases[0][1], singleReviewerCases[0][1]];
+
+    /** Matches a fresh copy of the paper against the reviewers already registered. */
+    async function rematch(client: ReviewerRecClient, k: number) {
+      const { paperId } = await client.submitPaper(
+        paper,
+        new RelayerEncryptor(fhevm),
+      );
+      await client.runMatching(paperId, k);
+      await fhevm.awaitDecryptionOracle();
+      return client.getMatches(paperId);
+    }
+
+    async function assign(
+      client: ReviewerRecClient,
+      paperId: bigint,
+      reviewerId: bigint,
+    ) {
+      await client.inviteReviewer(paperId, reviewerId);
+      await client.respondToInvitation(paperId, reviewerId, true);
+    }
+
+    it("penalises each review a reviewer has in progress", async function () {
+      const client = await deployClient(editor);
+      const paperId = await matchPaper(client, paper, twins, 2);
+      await assign(client, paperId, 1n);
+
+      const matches = await rematch(client, 2);
+      expect(matches.map((m) => m.reviewerId)).to.deep.equal([2n, 1n]);
+      const loaded = await fhevm.debugger.decryptEuint(
+        FhevmType.euint32,
+        matches[1].encryptedScore,
+      );
+      expect(loaded).to.equal(BigInt(referenceScore(paper, twins[0], 1)));
+      expect(loaded).to.equal(
+        BigInt(referenceScore(paper, twins[0]) - LOAD_PENALTY),
+      );
+    });
+
+    it("stops matching a reviewer at the cap until a review is completed", async function () {
+      const client = await deployClient(editor);
+      await client.setMaxConcurrentReviews(1);
+      const paperId = await matchPaper(client, paper, twins, 2);
+      await assign(client, paperId, 1n);
+
+      const capped = await rematch(client, 2);
+      expect(capped.map((m) => m.reviewerId)).to.deep.equal([2n]);
+
+      await client.completeReview(paperId, 1n);
+      const freed = await rematch(client, 2);
+      expect(freed.map((m) => m.reviewerId)).to.deep.equal([1n, 2n]);
+    });
+  });
+
+  describe("profile versions", function () {
+    it("folds longer vectors onto older profiles when scoring", async function () {
+      const client = await deployClient(editor);
+      const encryptor = new RelayerEncryptor(fhevm);
+      const next = seededRandom(4096);
+      const older = Array.from({ length: 3 }, () => randomReviewer(next));
+      for (const reviewer of older) {
+        await client.addReviewer(reviewer, encryptor);
+      }
+
+      await client.addProfileVersion(32);
+      expect(await client.profileDimensions()).to.equal(32);
+      const newer: ReviewerFeatures = {
+        ...randomReviewer(next),
+        expertise: buckets({ 2: 5, 18: 15, 16: 9 }, 32),
+      };
+      await client.addReviewer(newer, encryptor);
+      const wide: PaperFeatures = {
+        ...paper,
+        // Buckets 16 and 18 fold onto 0 and 2, where the older profiles live
+        keywords: buckets({ 2: 1, 16: 2, 18: 3 }, 32),
+      };
+      const { paperId } = await client.submitPaper(wide, encryptor);
+      await client.runMatching(paperId, 4);
+      await fhevm.awaitDecryptionOracle();
+
+      const reviewers = [...older, newer];
+      const expected = referenceTopK(wide, reviewers, 4);
+      const matches = await client.getMatches(paperId);
+      expect(matches.map((m) => Number(m.reviewerId))).to.deep.equal(
+        expected.map((r) => r.reviewerId),
+      );
+      for (const [rank, match] of matches.entries()) {
+        const score = await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          match.encryptedScore,
+        );
+        expect(score).to.equal(BigInt(expected[rank].score));
+      }
+    });
+
+    it("only accepts vectors of the current length", async function () {
+      const client = await deployClient(editor);
+      const encryptor = new RelayerEncryptor(fhevm);
+      await client.addProfileVersion(32);
+
+      await expect(client.submitPaper(paper, encryptor)).to.be.revertedWith(
+        "Wrong vector length",
+      );
+      await expect(
+        client.addReviewer(singleReviewerCases[0][1], encryptor),
+      ).to.be.revertedWith("Wrong vector length");
+    });
+  });
+
+  it("rejects k outside 1..MAX_TOP_K", async function () {
+    const client = await deployClient(editor);
+    const encryptor = new RelayerEncryptor(fhevm);
+    await client.addReviewer(singleReviewerCases[0][1], encryptor);
+    const { paperId } = await client.submitPaper(paper, encryptor);
+    const max = await client.maxTopK();
+
+    await expect(
+      client.contract.requestMatchingReviewers(paperId, 0),
+    ).to.be.revertedWith("Invalid k");
+    await expect(
+      client.contract.requestMatchingReviewers(paperId, max + 1),
+    ).to.be.revertedWith("Invalid k");
+  });
+
+  it("never decrypts the manuscript while matching", async function () {
+    const client = await deployClient(editor);
+    const reviewer = singleReviewerCases[0][1];
+    const encryptor = new RelayerEncryptor(fhevm);
+    await client.addReviewer(reviewer, encryptor);
+    const { paperId } = await client.submitPaper(paper, encryptor);
+    const stored = await client.getPaper(paperId);
+    const vector = await client.getPaperVector(paperId);
+
+    const tx = await client.contract.requestMatchingReviewers(paperId, 3);
+    const receipt = await tx.wait();
+    const requested = fhevm
+      .parseDecryptionRequestEvents(receipt!.logs)
+      .flatMap((e) => e.handlesBytes32Hex.map((h) => h.toLowerCase()));
+    for (const handle of [
+      stored.encryptedTitle,
+      stored.encryptedAbstract,
+      stored.encryptedDiscipline,
+      ...vector,
+    ]) {
+      expect(requested).to.not.include(handle.toLowerCase());
+    }
+  });
+});
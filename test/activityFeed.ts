@@ -0,0 +1,100 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import type { Activity } from "../frontend/web/src/activityFeed";
+import { ActivityFeed } from "../frontend/web/src/activityFeed";
+import type {
+  PaperFeatures,
+  ReviewerFeatures,
+} from "../frontend/web/src/encryption";
+import { RelayerEncryptor } from "../frontend/web/src/encryption";
+import { ReviewerRecClient } from "../frontend/web/src/reviewerRecClient";
+import { buckets } from "./helpers/referenceMatching";
+
+const paper: PaperFeatures = {
+  title: 1,
+  abstract: 2,
+  keywords: buckets({ 0: 1, 1: 1 }),
+  discipline: 4,
+};
+
+const reviewer: ReviewerFeatures = {
+  expertise: buckets({ 0: 1 }),
+  discipline: 4,
+  affiliation: 9,
+  publicationCount: 3,
+  reviewCount: 0,
+};
+
+describe("ActivityFeed", function () {
+  let signer: HardhatEthersSigner;
+  let client: ReviewerRecClient;
+  const encryptor = new RelayerEncryptor(fhevm);
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      console.warn("Activity feed tests only run against the FHEVM mock");
+      this.skip();
+    }
+    [signer] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const factory = await ethers.getContractFactory("ReviewerRecFHE", signer);
+    client = new ReviewerRecClient(await factory.deploy());
+    for (const role of ["editor", "author", "reviewer"] as const) {
+      await client.grantRole(role, signer.address);
+    }
+  });
+
+  it("delivers each new event once, in chain order", async function () {
+    // A long interval keeps the timer out of the way; the test drives check() itself
+    const feed = new ActivityFeed(client, {
+      mode: "poll",
+      pollInterval: 60_000,
+    });
+    const received: Activity[] = [];
+    const unsubscribe = feed.subscribe((batch) => received.push(...batch));
+    // The initial check only records where new activity starts
+    expect(await feed.check()).to.deep.equal([]);
+
+    const { reviewerId } = await client.addReviewer(reviewer, encryptor);
+    await client.updateReviewer(reviewerId, reviewer, encryptor);
+    const { paperId } = await client.submitPaper(paper, encryptor);
+    await feed.check();
+    await client.runMatching(paperId, 1);
+    await fhevm.awaitDecryptionOracle();
+    await feed.check();
+    await feed.check();
+    unsubscribe();
+
+    expect(received.map((a) => a.kind)).to.deep.equal([
+      "ReviewerAdded",
+      "ReviewerUpdated",
+      "PaperSubmitted",
+      "PaperStatusChanged",
+      "PaperStatusChanged",
+      "MatchingCompleted",
+    ]);
+    const positions = received.map((a) => [a.blockNumber, a.logIndex]);
+    expect(positions).to.deep.equal(
+      [...positions].sort((a, b) => a[0] - b[0] || a[1] - b[1]),
+    );
+  });
+
+  it("replays history from fromBlock", async function () {
+    const start = await ethers.provider.getBlockNumber();
+    await client.addReviewer(reviewer, encryptor);
+    await client.addReviewer(reviewer, encryptor);
+
+    const feed = new ActivityFeed(client, { mode: "poll", fromBlock: start });
+    const activity = await feed.check();
+
+    expect(
+      activity.flatMap((a) =>
+        a.kind === "ReviewerAdded" ? [a.reviewerId] : [],
+      ),
+    ).to.deep.equal([1n, 2n]);
+  });
+});
@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  applyDiffcacheCleanup,
+  planDiffcacheCleanup,
+} from "../tasks/cleanDiffcache";
+
+describe("clean-diffcache", function () {
+  let root: string;
+
+  beforeEach(function () {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "diffcache-"));
+    fs.mkdirSync(path.join(root, "frontend", "web", "src", "api"), {
+      recursive: true,
+    });
+    fs.writeFileSync(path.join(root, "util.py"), "");
+    fs.writeFileSync(
+      path.join(root, "frontend", "web", "src", "api", "a.md"),
+      "",
+    );
+  });
+
+  afterEach(function () {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("maps Windows paths recorded on another machine onto the project", function () {
+    const plan = planDiffcacheCleanup(
+      [
+        "D:\\MyCode\\demo\\util.py",
+        "D:\\MyCode\\demo\\frontend\\web\\src\\api",
+        "D:\\MyCode\\demo\\frontend\\web\\src\\api\\a.md",
+        "D:\\MyCode\\demo\\gone.go",
+      ],
+      root,
+    );
+
+    expect(plan.recordedRoot).to.equal("D:/MyCode/demo");
+    expect(plan.refused).to.deep.equal([]);
+    expect(plan.entries.map((e) => [e.relative, e.kind])).to.deep.equal([
+      ["util.py", "file"],
+      ["frontend/web/src/api", "folder"],
+      ["frontend/web/src/api/a.md", "file"],
+      ["gone.go", "missing"],
+    ]);
+  });
+
+  it("finds the project root when every entry sits in a subdirectory", function () {
+    const plan = planDiffcacheCleanup(
+      ["/home/dev/demo/frontend/web/src/api/a.md"],
+      root,
+    );
+
+    expect(plan.recordedRoot).to.equal("home/dev/demo");
+    expect(plan.entries[0].relative).to.equal("frontend/web/src/api/a.md");
+  });
+
+  it("refuses entries that escape the project or hit protected directories", function () {
+    const plan = planDiffcacheCleanup(
+      [
+        "/home/dev/demo/util.py",
+        "/home/dev/demo/../secrets.txt",
+        "/home/dev/demo/contracts/ReviewerRecFHE.sol",
+        "/home/dev/demo/node_modules/x.js",
+      ],
+      root,
+    );
+
+    expect(plan.entries.map((e) => e.relative)).to.deep.equal(["util.py"]);
+    expect(plan.refused).to.have.length(3);
+  });
+
+  it("refuses the root manifests but plans files git tracks", function () {
+    fs.writeFileSync(path.join(root, "README.md"), "");
+    fs.writeFileSync(path.join(root, "hardhat.config.ts"), "");
+    execFileSync("git", ["init", "-q"], { cwd: root });
+    execFileSync("git", ["add", "util.py"], { cwd: root });
+
+    const plan = planDiffcacheCleanup(
+      [
+        "/home/dev/demo/util.py",
+        "/home/dev/demo/README.md",
+        "/home/dev/demo/hardhat.config.ts",
+        "/home/dev/demo/frontend/web/src/api/a.md",
+      ],
+      root,
+    );
+
+    expect(plan.entries.map((e) => [e.relative, e.tracked])).to.deep.equal([
+      ["util.py", true],
+      ["frontend/web/src/api/a.md", false],
+    ]);
+    expect(plan.refused).to.deep.equal([
+      "/home/dev/demo/README.md",
+      "/home/dev/demo/hardhat.config.ts",
+    ]);
+  });
+
+  it("stages the removal of committed litter and deletes the rest", function () {
+    fs.writeFileSync(path.join(root, "keep.ts"), "");
+    const git = (...args: string[]) =>
+      execFileSync(
+        "git",
+        ["-c", "user.name=dev", "-c", "user.email=dev@example.com", ...args],
+        { cwd: root, encoding: "utf8" },
+      );
+    git("init", "-q");
+    git("add", "util.py", "keep.ts");
+    git("commit", "-q", "-m", "sprayed");
+
+    const plan = planDiffcacheCleanup(
+      [
+        "D:\\MyCode\\demo\\util.py",
+        "D:\\MyCode\\demo\\frontend\\web\\src\\api",
+        "D:\\MyCode\\demo\\frontend\\web\\src\\api\\a.md",
+      ],
+      root,
+    );
+    expect(applyDiffcacheCleanup(plan, root)).to.equal(3);
+
+    expect(fs.existsSync(path.join(root, "util.py"))).to.equal(false);
+    expect(
+      fs.existsSync(path.join(root, "frontend", "web", "src", "api")),
+    ).to.equal(false);
+    expect(fs.existsSync(path.join(root, "keep.ts"))).to.equal(true);
+    expect(git("status", "--porcelain")).to.equal("D  util.py\n");
+  });
+});
@@ -0,0 +1,106 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import type {
+  PaperFeatures,
+  ReviewerFeatures,
+} from "../frontend/web/src/encryption";
+import { RelayerEncryptor } from "../frontend/web/src/encryption";
+import {
+  DecryptionKind,
+  DecryptionStatus,
+  ReviewerRecClient,
+} from "../frontend/web/src/reviewerRecClient";
+import { DecryptionRelayer } from "../tasks/decryptionRelayer";
+import { buckets } from "./helpers/referenceMatching";
+
+const paper: PaperFeatures = {
+  title: 1,
+  abstract: 2,
+  keywords: buckets({ 0: 1, 1: 1 }),
+  discipline: 4,
+};
+
+const reviewer: ReviewerFeatures = {
+  expertise: buckets({ 0: 1 }),
+  discipline: 4,
+  affiliation: 9,
+  publicationCount: 3,
+  reviewCount: 0,
+};
+
+describe("decryption-relayer", function () {
+  let signer: HardhatEthersSigner;
+  let client: ReviewerRecClient;
+  let deployBlock: number;
+  const encryptor = new RelayerEncryptor(fhevm);
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      console.warn("The relayer only answers requests on the FHEVM mock");
+      this.skip();
+    }
+    [signer] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const factory = await ethers.getContractFactory("ReviewerRecFHE", signer);
+    const contract = await factory.deploy();
+    deployBlock = (await contract.deploymentTransaction()!.wait())!.blockNumber;
+    client = new ReviewerRecClient(contract);
+    for (const role of ["editor", "author", "reviewer"] as const) {
+      await client.grantRole(role, signer.address);
+    }
+    await client.addReviewer(reviewer, encryptor);
+    await client.addReviewer(reviewer, encryptor);
+    await client.submitPaper(paper, encryptor);
+  });
+
+  afterEach(async function () {
+    // The plugin's own oracle still holds the requests answered here and refuses them once the contract has
+    await fhevm.awaitDecryptionOracle().catch(() => undefined);
+  });
+
+  it("answers matching and reveal requests through the contract callbacks", async function () {
+    const relayer = await DecryptionRelayer.connect(signer);
+    expect(await relayer.poll()).to.deep.equal([]);
+
+    await client.runMatching(1, 2);
+    const [matching] = await relayer.poll();
+    expect(matching.error).to.equal(undefined);
+    expect(matching.contract).to.equal(await client.getAddress());
+    expect(
+      (await client.getDecryptionRequest(1, DecryptionKind.Matching)).requestId,
+    ).to.equal(matching.requestId);
+    expect(await client.queryMatchingCompleted(deployBlock)).to.have.length(1);
+    const [first] = await client.waitForMatch(1, { timeout: 100 });
+
+    await client.inviteReviewer(1, first.reviewerId);
+    await client.respondToInvitation(1, first.reviewerId, true);
+    await client.revealMatchedReviewer(1, 0);
+    expect(await relayer.poll()).to.have.length(1);
+    const [revealed] = await client.waitForReveal(1, { timeout: 100 });
+    expect(revealed.isRevealed).to.equal(true);
+    expect(
+      (await client.getDecryptionRequest(1, DecryptionKind.Reveal)).status,
+    ).to.equal(DecryptionStatus.Fulfilled);
+  });
+
+  it("reports requests the contract no longer accepts and moves on", async function () {
+    await client.runMatching(1, 2);
+    await DecryptionRelayer.connect(signer, {
+      fromBlock: deployBlock,
+    }).then((relayer) => relayer.poll());
+
+    const logs: string[] = [];
+    const replay = await DecryptionRelayer.connect(signer, {
+      fromBlock: deployBlock,
+      log: (message) => logs.push(message),
+    });
+    const [answered] = await replay.poll();
+    expect(answered.error).to.match(/Invalid request/);
+    expect(logs).to.have.length(1);
+    expect(await replay.poll()).to.deep.equal([]);
+  });
+});
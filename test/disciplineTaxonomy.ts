@@ -0,0 +1,91 @@
+import { expect } from "chai";
+
+import disciplinesJson from "../frontend/web/src/disciplines.json";
+import type { TaxonomyJson } from "../frontend/web/src/taxonomy";
+import {
+  disciplineRelation,
+  Taxonomy,
+  taxonomy,
+} from "../frontend/web/src/taxonomy";
+
+const field = (id: string, code: number) => ({ id, code, name: id });
+
+describe("discipline taxonomy", function () {
+  it("keeps the codes papers and profiles were registered with", function () {
+    expect(
+      taxonomy.fields.map((f) => [f.name, f.code]),
+    ).to.deep.include.members([
+      ["Artificial Intelligence", 1],
+      ["Cryptography", 2],
+      ["Biology", 3],
+      ["Physics", 4],
+      ["Mathematics", 5],
+      ["Computer Science", 6],
+    ]);
+  });
+
+  it("puts a subfield's number above its field's code", function () {
+    const he = taxonomy.find("homomorphic encryption")!;
+    expect(he.parent).to.equal("crypto");
+    expect(he.code).to.equal(2 + 2 * 65536);
+    expect(taxonomy.code("FHE")).to.equal(he.code);
+    expect(taxonomy.code("crypto.he")).to.equal(he.code);
+  });
+
+  it("relates codes as same, parent, sibling or unrelated", function () {
+    const code = (name: string) => taxonomy.code(name);
+    const he = code("Homomorphic Encryption");
+    expect(disciplineRelation(he, he)).to.equal("same");
+    expect(disciplineRelation(he, code("Cryptography"))).to.equal("parent");
+    expect(disciplineRelation(code("Cryptography"), he)).to.equal("parent");
+    expect(disciplineRelation(he, code("Zero-Knowledge Proofs"))).to.equal(
+      "sibling",
+    );
+    expect(disciplineRelation(he, code("Computation and Language"))).to.equal(
+      "unrelated",
+    );
+    expect(disciplineRelation(code("AI"), code("Biology"))).to.equal(
+      "unrelated",
+    );
+  });
+
+  it("filters a field together with its subfields", function () {
+    expect(taxonomy.isWithin("ML", "ai")).to.equal(true);
+    expect(taxonomy.isWithin("AI", "ai")).to.equal(true);
+    expect(taxonomy.isWithin("AI", "ai.ml")).to.equal(false);
+    expect(taxonomy.isWithin("Genomics", "ai")).to.equal(false);
+    expect(taxonomy.isWithin("Encrypted", "ai")).to.equal(false);
+  });
+
+  it("rejects malformed taxonomies", function () {
+    const invalid: TaxonomyJson[] = [
+      { version: 0, disciplines: [] },
+      { version: 1, disciplines: [field("a", 1), field("a", 2)] },
+      { version: 1, disciplines: [field("a", 1), field("b", 1)] },
+      { version: 1, disciplines: [field("a", 0)] },
+      { version: 1, disciplines: [field("a", 65536)] },
+      {
+        version: 1,
+        disciplines: [field("a", 1), { ...field("a.b", 1), parent: "c" }],
+      },
+      {
+        version: 1,
+        disciplines: [
+          field("a", 1),
+          { ...field("a.b", 1), parent: "a" },
+          { ...field("a.b.c", 1), parent: "a.b" },
+        ],
+      },
+      {
+        version: 1,
+        disciplines: [field("a", 1), { ...field("b", 2), aliases: ["A"] }],
+      },
+    ];
+    for (const json of invalid) {
+      expect(() => Taxonomy.fromJson(json), JSON.stringify(json)).to.throw(
+        /Invalid taxonomy/,
+      );
+    }
+    expect(Taxonomy.fromJson(disciplinesJson).version).to.equal(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { BytesLike } from "ethers";
+import { ethers } from "hardhat";
+
+import type {
+  PaperFeatures,
+  ReviewerFeatures,
+} from "../frontend/web/src/encryption";
+import { MockEncryptor } from "../frontend/web/src/encryption";
+import { ReviewerRecClient } from "../frontend/web/src/reviewerRecClient";
+import { buckets } from "./helpers/referenceMatching";
+
+const CONTRACT = "0x00000000000000000000000000000000000000aa";
+
+const paper: PaperFeatures = {
+  title: 11,
+  abstract: 12,
+  keywords: buckets({ 0: 3, 7: 1 }),
+  discipline: 13,
+  authorAffiliations: [21, 22],
+  conflictIds: [31],
+};
+
+const reviewer: ReviewerFeatures = {
+  expertise: buckets({ 2: 5 }),
+  discipline: 13,
+  affiliation: 21,
+  scholarId: 41,
+  publicationCount: 7,
+  reviewCount: 2,
+};
+
+describe("MockEncryptor", function () {
+  let signer: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+  let encryptor: MockEncryptor;
+
+  const plain = (handle: BytesLike) => encryptor.plaintexts.get(String(handle));
+
+  before(async function () {
+    [signer, other] = await ethers.getSigners();
+  });
+
+  beforeEach(function () {
+    encryptor = new MockEncryptor();
+  });
+
+  it("lays out a paper in the order submitEncryptedPaper takes it", async function () {
+    const client = ReviewerRecClient.connect(CONTRACT, signer);
+    const input = await client.encryptPaper(paper, encryptor);
+
+    expect(
+      [input.title, input.abstract, input.discipline].map(plain),
+    ).to.deep.equal([11, 12, 13]);
+    expect(input.keywords.map(plain)).to.deep.equal(paper.keywords);
+    expect(input.authorAffiliations.map(plain)).to.deep.equal([21, 22]);
+    expect(input.conflictIds.map(plain)).to.deep.equal([31]);
+    expect(encryptor.plaintexts.has(String(input.inputProof))).to.equal(false);
+  });
+
+  it("lays out a reviewer in the order addEncryptedReviewer takes it", async function () {
+    const input = await encryptor.encryptReviewer(
+      reviewer,
+      CONTRACT,
+      signer.address,
+    );
+
+    expect(input.expertise.map(plain)).to.deep.equal(reviewer.expertise);
+    expect(
+      [
+        input.discipline,
+        input.affiliation,
+        input.scholarId,
+        input.publicationCount,
+        input.reviewCount,
+      ].map(plain),
+    ).to.deep.equal([13, 21, 41, 7, 2]);
+  });
+
+  it("encrypts identical features identically, but only for the same contract and sender", async function () {
+    const first = await encryptor.encryptReviewer(
+      reviewer,
+      CONTRACT,
+      signer.address,
+    );
+    const again = await new MockEncryptor().encryptReviewer(
+      reviewer,
+      CONTRACT,
+      signer.address,
+    );
+    const otherSender = await encryptor.encryptReviewer(
+      reviewer,
+      CONTRACT,
+      other.address,
+    );
+
+    expect(again).to.deep.equal(first);
+    expect(otherSender.discipline).to.not.equal(first.discipline);
+    expect(otherSender.inputProof).to.not.equal(first.inputProof);
+  });
+
+  it("validates features before producing any handle", async function () {
+    await expect(
+      encryptor.encryptPaper(
+        { ...paper, keywords: [1, 2, 3] },
+        CONTRACT,
+        signer.address,
+      ),
+    ).to.be.rejectedWith(
+      RangeError,
+      /keywords must have a power-of-two length/,
+    );
+    await expect(
+      encryptor.encryptPaper(
+        { ...paper, conflictIds: [0] },
+        CONTRACT,
+        signer.address,
+      ),
+    ).to.be.rejectedWith(RangeError, /conflictIds\[0\] must be non-zero/);
+    expect(encryptor.plaintexts.size).to.equal(0);
+  });
+});
@@ -0,0 +1,168 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import type {
+  PaperFeatures,
+  ReviewerFeatures,
+} from "../frontend/web/src/encryption";
+import { RelayerEncryptor } from "../frontend/web/src/encryption";
+import { EventIndexer, MemoryIndexStore } from "../frontend/web/src/indexer";
+import {
+  ReviewerRecClient,
+  ReviewerStatus,
+} from "../frontend/web/src/reviewerRecClient";
+import {
+  extractReviewerFeatures,
+  extractReviewerProfile,
+} from "../frontend/web/src/reviewerProfile";
+import { buckets } from "./helpers/referenceMatching";
+
+const paper: PaperFeatures = {
+  title: 1,
+  abstract: 2,
+  keywords: buckets({ 0: 1, 1: 1 }),
+  discipline: 4,
+};
+
+const reviewer: ReviewerFeatures = {
+  expertise: buckets({ 0: 1 }),
+  discipline: 4,
+  affiliation: 9,
+  publicationCount: 3,
+  reviewCount: 0,
+};
+
+describe("EventIndexer", function () {
+  let signer: HardhatEthersSigner;
+  let client: ReviewerRecClient;
+  let deployBlock: number;
+  const encryptor = new RelayerEncryptor(fhevm);
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      console.warn("Indexer tests only run against the FHEVM mock");
+      this.skip();
+    }
+    [signer] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const factory = await ethers.getContractFactory("ReviewerRecFHE", signer);
+    const contract = await factory.deploy();
+    deployBlock = (await contract.deploymentTransaction()!.wait())!.blockNumber;
+    client = new ReviewerRecClient(contract);
+    for (const role of ["editor", "author", "reviewer"] as const) {
+      await client.grantRole(role, signer.address);
+    }
+  });
+
+  it("backfills in block ranges and resumes from the last indexed block", async function () {
+    await client.addReviewer(reviewer, encryptor);
+    await client.addReviewer(reviewer, encryptor);
+    const { paperId } = await client.submitPaper(paper, encryptor);
+    await client.runMatching(paperId, 1);
+
+    const store = new MemoryIndexStore();
+    const head = await new EventIndexer(client, store, {
+      fromBlock: deployBlock,
+      blockRange: 2,
+    }).sync();
+    expect(head).to.equal(await ethers.provider.getBlockNumber());
+
+    await client.addReviewer(reviewer, encryptor);
+    // A fresh indexer on the same store only scans the new blocks
+    const indexer = new EventIndexer(client, store, { fromBlock: deployBlock });
+    await indexer.sync();
+
+    expect((await indexer.reviewers()).map((e) => e.reviewerId)).to.deep.equal([
+      1n,
+      2n,
+      3n,
+    ]);
+    expect((await indexer.papers()).map((e) => e.paperId)).to.deep.equal([
+      paperId,
+    ]);
+    expect(await indexer.matchingRequests(paperId)).to.have.length(1);
+  });
+
+  it("keeps the latest status of reviewers maintaining their own profiles", async function () {
+    const draft = {
+      expertise: "homomorphic encryption, lattices",
+      discipline: "FHE",
+      affiliation: "9",
+      scholarId: "",
+      publicationCount: "12",
+      reviewCount: "3",
+    };
+    await client.addReviewer(extractReviewerFeatures(draft), encryptor);
+    await client.addReviewer(extractReviewerFeatures(draft), encryptor);
+    await client.updateReviewer(
+      1n,
+      extractReviewerProfile({ ...draft, publicationCount: "13" }),
+      encryptor,
+    );
+    await client.setReviewerPaused(1n, true);
+    await client.setReviewerPaused(1n, false);
+    await client.deregisterReviewer(2n);
+
+    const indexer = new EventIndexer(client, new MemoryIndexStore(), {
+      fromBlock: deployBlock,
+    });
+    await indexer.sync();
+
+    expect(await indexer.reviewerStatuses()).to.deep.equal(
+      new Map([
+        [1n, ReviewerStatus.Active],
+        [2n, ReviewerStatus.Deregistered],
+      ]),
+    );
+    const first = await client.getReviewer(1n);
+    expect(first.status).to.equal(ReviewerStatus.Active);
+    expect(first.profileVersion).to.equal(1);
+  });
+
+  it("indexes reveals once the oracle has answered", async function () {
+    await client.addReviewer(reviewer, encryptor);
+    const { paperId } = await client.submitPaper(paper, encryptor);
+    await client.runMatching(paperId, 1);
+    await fhevm.awaitDecryptionOracle();
+    await client.inviteReviewer(paperId, 1n);
+    await client.respondToInvitation(paperId, 1n, true);
+    await client.revealMatchedReviewer(paperId, 0);
+    await fhevm.awaitDecryptionOracle();
+
+    const indexer = new EventIndexer(client, new MemoryIndexStore(), {
+      fromBlock: deployBlock,
+    });
+    await indexer.sync();
+
+    const [reveal] = await indexer.reveals(paperId);
+    expect(reveal.reviewerId).to.equal(1n);
+    expect(reveal.rank).to.equal(0);
+    expect(reveal.score).to.equal((await client.getMatches(paperId))[0].score);
+  });
+
+  it("drops events from blocks that were reorganised away", async function () {
+    await client.addReviewer(reviewer, encryptor);
+    const indexer = new EventIndexer(client, new MemoryIndexStore(), {
+      fromBlock: deployBlock,
+    });
+    await indexer.sync();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await client.addReviewer(reviewer, encryptor);
+    await indexer.sync();
+    expect(await indexer.reviewers()).to.have.length(2);
+
+    // Replace the orphaned block with a different one at the same height
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await client.submitPaper(paper, encryptor);
+    await indexer.sync();
+
+    expect((await indexer.reviewers()).map((e) => e.reviewerId)).to.deep.equal([
+      1n,
+    ]);
+    expect(await indexer.papers()).to.have.length(1);
+  });
+});
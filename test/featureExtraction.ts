@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  abstractCode,
+  bucketVector,
+  FEATURE_VERSION,
+  keywordTerms,
+  keywordVector,
+  salientTerms,
+  titleCode,
+  tokenize,
+} from "../frontend/web/src/features";
+import { disciplineCode } from "../frontend/web/src/taxonomy";
+import { similarity } from "./helpers/referenceMatching";
+
+interface ManuscriptText {
+  title: string;
+  abstract: string;
+  keywords: string;
+  discipline: string;
+}
+
+interface GoldenCase {
+  name: string;
+  input: ManuscriptText;
+  expected: ReturnType<typeof extract>;
+}
+
+interface GoldenFile {
+  version: number;
+  cases: GoldenCase[];
+}
+
+// Regenerate with UPDATE_GOLDEN=1 after an intended change to the feature space
+const GOLDEN = path.join(__dirname, "golden", "featureExtraction.json");
+
+function extract(input: ManuscriptText) {
+  return {
+    titleTerms: tokenize(input.title),
+    abstractTerms: salientTerms(input.abstract),
+    keywordTerms: keywordTerms(input.keywords),
+    keywordCounts: bucketVector(keywordTerms(input.keywords)),
+    title: titleCode(input.title),
+    abstract: abstractCode(input.abstract),
+    keywords: keywordVector(input.keywords),
+    discipline: disciplineCode(input.discipline),
+  };
+}
+
+describe("feature extraction", function () {
+  const golden: GoldenFile = JSON.parse(fs.readFileSync(GOLDEN, "utf8"));
+
+  if (process.env.UPDATE_GOLDEN) {
+    it("regenerates the golden file", function () {
+      const updated: GoldenFile = {
+        version: FEATURE_VERSION,
+        cases: golden.cases.map(({ name, input }) => ({
+          name,
+          input,
+          expected: extract(input),
+        })),
+      };
+      fs.writeFileSync(GOLDEN, JSON.stringify(updated, null, 2) + "\n");
+    });
+    return;
+  }
+
+  it("is stamped with the current feature version", function () {
+    expect(golden.version).to.equal(FEATURE_VERSION);
+  });
+
+  for (const { name, input, expected } of golden.cases) {
+    it(`reproduces the golden features for ${name}`, function () {
+      expect(extract(input)).to.deep.equal(expected);
+    });
+  }
+
+  it("ignores case, accents, punctuation and stop words", function () {
+    expect(keywordVector("Homomorphic Encryption, peer-review")).to.deep.equal(
+      keywordVector("the homomorphic ENCRYPTION;  Peer Review"),
+    );
+    expect(titleCode("Théorie des Nombres")).to.equal(
+      titleCode("theorie des nombres"),
+    );
+  });
+
+  it("puts a reviewer's expertise in the same buckets as a paper sharing a keyword", function () {
+    const paper = keywordVector("lattice cryptography, zero knowledge");
+    const reviewer = keywordVector("Zero-Knowledge Proofs");
+    expect(similarity(paper, reviewer)).to.be.greaterThan(0);
+  });
+
+  it("maps discipline aliases and rejects unknown disciplines", function () {
+    expect(disciplineCode("AI")).to.equal(
+      disciplineCode("Artificial Intelligence"),
+    );
+    expect(() => disciplineCode("Alchemy")).to.throw(RangeError);
+    expect(() => disciplineCode("constructor")).to.throw(RangeError);
+  });
+});
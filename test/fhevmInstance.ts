@@ -0,0 +1,42 @@
+import { expect } from "chai";
+import type { JsonRpcApiProvider } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+import type { ReviewerFeatures } from "../frontend/web/src/encryption";
+import {
+  RelayerEncryptor,
+  createMockFhevmInstance,
+} from "../frontend/web/src/encryption";
+import { ReviewerRecClient } from "../frontend/web/src/reviewerRecClient";
+import { buckets } from "./helpers/referenceMatching";
+
+const reviewer: ReviewerFeatures = {
+  expertise: buckets({ 1: 2 }),
+  discipline: 4,
+  affiliation: 9,
+  publicationCount: 3,
+  reviewCount: 0,
+};
+
+describe("createMockFhevmInstance", function () {
+  it("encrypts inputs the contract accepts, using only what the node reports", async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [signer] = await ethers.getSigners();
+    const contract = await (
+      await ethers.getContractFactory("ReviewerRecFHE", signer)
+    ).deploy();
+    const client = new ReviewerRecClient(contract);
+    await client.grantRole("reviewer", signer.address);
+
+    const instance = await createMockFhevmInstance(
+      ethers.provider as unknown as JsonRpcApiProvider,
+    );
+    const { reviewerId } = await client.addReviewer(
+      reviewer,
+      new RelayerEncryptor(instance),
+    );
+    expect(reviewerId).to.equal(1n);
+  });
+});
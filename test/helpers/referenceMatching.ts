@@ -0,0 +1,106 @@
+import type {
+  PaperFeatures,
+  ReviewerFeatures,
+} from "../../frontend/web/src/encryption";
+import { foldVector } from "../../frontend/web/src/encryption";
+import { disciplineRelation } from "../../frontend/web/src/taxonomy";
+
+// Must mirror the constants in contracts/ReviewerRecFHE.sol
+export const DISCIPLINE_WEIGHT = 40;
+export const PARENT_DISCIPLINE_WEIGHT = 25;
+export const SIBLING_DISCIPLINE_WEIGHT = 15;
+export const SIMILARITY_CAP = 30;
+export const PUBLICATION_CAP = 30;
+export const LOAD_PENALTY = 10;
+export const DEFAULT_MAX_CONCURRENT_REVIEWS = 3;
+
+export interface RankedReviewer {
+  reviewerId: number;
+  score: number;
+}
+
+/** A vector of `dimensions` buckets, zero except for the given weights. */
+export function buckets(
+  weights: Record<number, number>,
+  dimensions = 16,
+): number[] {
+  return Array.from({ length: dimensions }, (_, i) => weights[i] ?? 0);
+}
+
+/** Plaintext version of ReviewerRecFHE._similarity, folding the longer vector. */
+export function similarity(a: number[], b: number[]): number {
+  const dimensions = Math.min(a.length, b.length);
+  const x = foldVector(a, dimensions);
+  const y = foldVector(b, dimensions);
+  return x.reduce((sum, weight, i) => sum + weight * y[i], 0);
+}
+
+/** Plaintext version of ReviewerRecFHE._isConflicted. */
+export function isConflicted(
+  paper: PaperFeatures,
+  reviewer: ReviewerFeatures,
+): boolean {
+  return (
+    (paper.authorAffiliations ?? []).includes(reviewer.affiliation) ||
+    (paper.conflictIds ?? []).includes(reviewer.scholarId ?? 0)
+  );
+}
+
+/**
+ * Plaintext version of ReviewerRecFHE._scoreReviewer. `activeReviews` is the
+ * reviewer's on-chain load, which registration starts at zero.
+ */
+export function referenceScore(
+  paper: PaperFeatures,
+  reviewer: ReviewerFeatures,
+  activeReviews = 0,
+  maxConcurrentReviews = DEFAULT_MAX_CONCURRENT_REVIEWS,
+): number {
+  if (isConflicted(paper, reviewer)) return 0;
+  if (activeReviews >= maxConcurrentReviews) return 0;
+  const disciplineScore = {
+    same: DISCIPLINE_WEIGHT,
+    parent: PARENT_DISCIPLINE_WEIGHT,
+    sibling: SIBLING_DISCIPLINE_WEIGHT,
+    unrelated: 0,
+  }[disciplineRelation(paper.discipline, reviewer.discipline)];
+  const dot = similarity(paper.keywords, reviewer.expertise);
+  const overlaps = dot !== 0;
+  const keywordScore = Math.min(dot, SIMILARITY_CAP);
+  const publicationScore = overlaps
+    ? Math.min(reviewer.publicationCount, PUBLICATION_CAP)
+    : 0;
+  const score = disciplineScore + keywordScore + publicationScore;
+  return Math.max(score - activeReviews * LOAD_PENALTY, 0);
+}
+
+/**
+ * Plaintext version of the encrypted top-k: best score first, lower reviewer
+ * id first on ties, reviewers scoring zero never ranked. Ids start at 1.
+ */
+export function referenceTopK(
+  paper: PaperFeatures,
+  reviewers: ReviewerFeatures[],
+  k: number,
+): RankedReviewer[] {
+  return reviewers
+    .map((reviewer, i) => ({
+      reviewerId: i + 1,
+      score: referenceScore(paper, reviewer),
+    }))
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score || a.reviewerId - b.reviewerId)
+    .slice(0, k);
+}
+
+/** Small deterministic PRNG so generated fixtures are stable between runs. */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
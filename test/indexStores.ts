@@ -0,0 +1,192 @@
+/// <reference lib="dom" />
+// IndexedDbIndexStore is written against the browser's IndexedDB types
+import Database from "better-sqlite3";
+import { expect } from "chai";
+import "fake-indexeddb/auto";
+
+import { IndexedDbIndexStore } from "../frontend/web/src/indexedDbIndexStore";
+import type {
+  BlockRef,
+  IndexStore,
+  IndexedEvent,
+} from "../frontend/web/src/indexer";
+import { MemoryIndexStore } from "../frontend/web/src/indexer";
+import type { SqliteDatabaseLike } from "../frontend/web/src/sqliteIndexStore";
+import { SqliteIndexStore } from "../frontend/web/src/sqliteIndexStore";
+
+/** `node:sqlite` ships without a flag from Node 22.13; older runtimes skip its suite. */
+function loadNodeSqlite():
+  | (new (path: string) => SqliteDatabaseLike)
+  | undefined {
+  try {
+    return require("node:sqlite").DatabaseSync;
+  } catch {
+    return undefined;
+  }
+}
+
+const block = (number: number): BlockRef => ({
+  number,
+  hash: `0x${number.toString(16).padStart(64, "0")}`,
+});
+
+const meta = (blockNumber: number, logIndex: number) => ({
+  blockNumber,
+  blockHash: block(blockNumber).hash,
+  transactionHash: `0x${(blockNumber * 100 + logIndex).toString(16).padStart(64, "0")}`,
+  logIndex,
+});
+
+const paper = (blockNumber: number, logIndex: number, paperId: bigint) =>
+  ({
+    kind: "PaperSubmitted",
+    ...meta(blockNumber, logIndex),
+    paperId,
+    timestamp: 2n ** 64n + paperId,
+  }) as const satisfies IndexedEvent;
+
+const reviewer = (blockNumber: number, logIndex: number, reviewerId: bigint) =>
+  ({
+    kind: "ReviewerAdded",
+    ...meta(blockNumber, logIndex),
+    reviewerId,
+  }) as const satisfies IndexedEvent;
+
+interface Backend {
+  name: string;
+  /** Opens the store kept under `name`, or a fresh one; undefined when the binding is missing */
+  open?: (name: string) => IndexStore;
+  /** Whether a store opened again under the same name sees earlier writes */
+  persistent: boolean;
+}
+
+const DatabaseSync = loadNodeSqlite();
+const sqliteBackend = (
+  connect: (path: string) => SqliteDatabaseLike,
+): Backend["open"] => {
+  const databases = new Map<string, SqliteDatabaseLike>();
+  return (name) => {
+    if (!databases.has(name)) databases.set(name, connect(":memory:"));
+    return new SqliteIndexStore(databases.get(name)!);
+  };
+};
+
+const backends: Backend[] = [
+  {
+    name: "MemoryIndexStore",
+    open: () => new MemoryIndexStore(),
+    persistent: false,
+  },
+  {
+    name: "SqliteIndexStore on better-sqlite3",
+    open: sqliteBackend((path) => new Database(path)),
+    persistent: true,
+  },
+  {
+    name: "SqliteIndexStore on node:sqlite",
+    open: DatabaseSync && sqliteBackend((path) => new DatabaseSync(path)),
+    persistent: true,
+  },
+  {
+    name: "IndexedDbIndexStore",
+    open: (name) => new IndexedDbIndexStore(name),
+    persistent: true,
+  },
+];
+
+for (const backend of backends) {
+  describe(backend.name, function () {
+    let name: string;
+    let store: IndexStore;
+
+    before(function () {
+      if (!backend.open) {
+        console.warn(
+          `${backend.name} is not available on Node ${process.version}`,
+        );
+        this.skip();
+      }
+    });
+
+    beforeEach(function () {
+      name = `index-${this.currentTest!.title}`;
+      store = backend.open!(name);
+    });
+
+    it("starts empty", async function () {
+      expect(await store.getHead()).to.equal(null);
+      expect(await store.getRecentBlocks()).to.deep.equal([]);
+      expect(await store.getEvents("PaperSubmitted")).to.deep.equal([]);
+    });
+
+    it("returns committed events by kind in chain order, bigints intact", async function () {
+      await store.commit({
+        events: [paper(12, 3, 2n), reviewer(10, 0, 1n), paper(12, 1, 1n)],
+        blocks: [block(10), block(12)],
+        head: block(12),
+        pruneBelow: 0,
+      });
+      await store.commit({
+        events: [reviewer(15, 0, 2n)],
+        blocks: [block(15), block(20)],
+        head: block(20),
+        pruneBelow: 12,
+      });
+
+      expect(await store.getEvents("PaperSubmitted")).to.deep.equal([
+        paper(12, 1, 1n),
+        paper(12, 3, 2n),
+      ]);
+      expect(await store.getEvents("ReviewerAdded")).to.deep.equal([
+        reviewer(10, 0, 1n),
+        reviewer(15, 0, 2n),
+      ]);
+      expect(await store.getHead()).to.deep.equal(block(20));
+      expect(await store.getRecentBlocks()).to.deep.equal([
+        block(20),
+        block(15),
+        block(12),
+      ]);
+    });
+
+    it("forgets everything above the block it rolls back to", async function () {
+      await store.commit({
+        events: [reviewer(10, 0, 1n), paper(11, 0, 1n), paper(13, 0, 2n)],
+        blocks: [block(10), block(11), block(13)],
+        head: block(13),
+        pruneBelow: 0,
+      });
+
+      await store.rollback(block(11));
+      expect(await store.getHead()).to.deep.equal(block(11));
+      expect(await store.getRecentBlocks()).to.deep.equal([
+        block(11),
+        block(10),
+      ]);
+      expect(await store.getEvents("PaperSubmitted")).to.deep.equal([
+        paper(11, 0, 1n),
+      ]);
+
+      await store.rollback(null);
+      expect(await store.getHead()).to.equal(null);
+      expect(await store.getRecentBlocks()).to.deep.equal([]);
+      expect(await store.getEvents("ReviewerAdded")).to.deep.equal([]);
+    });
+
+    it("keeps the index for the next session", async function () {
+      if (!backend.persistent) this.skip();
+      await store.commit({
+        events: [paper(10, 0, 1n)],
+        blocks: [block(10)],
+        head: block(10),
+        pruneBelow: 0,
+      });
+
+      const reopened = backend.open!(name);
+      expect(await reopened.getHead()).to.deep.equal(block(10));
+      expect(await reopened.getEvents("PaperSubmitted")).to.deep.equal([
+        paper(10, 0, 1n),
+      ]);
+    });
+  });
+}
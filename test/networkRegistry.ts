@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import { config as hardhatConfig } from "hardhat";
+
+import configJson from "../frontend/web/src/config.json";
+import type { NetworkRegistryJson } from "../frontend/web/src/networks";
+import { NetworkRegistry } from "../frontend/web/src/networks";
+
+const ADDRESS = "0x00000000000000000000000000000000000000aa";
+
+const registryJson = (): NetworkRegistryJson => ({
+  network: "sepolia",
+  networks: {
+    sepolia: {
+      chainId: 11155111,
+      label: "Sepolia",
+      nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
+      rpcUrls: ["https://one.example"],
+      explorerUrl: "https://sepolia.etherscan.io",
+      reviewerRecAddress: ADDRESS,
+      fhevm: {
+        aclContractAddress: ADDRESS,
+        kmsContractAddress: ADDRESS,
+        inputVerifierContractAddress: ADDRESS,
+        verifyingContractAddressDecryption: ADDRESS,
+        verifyingContractAddressInputVerification: ADDRESS,
+        gatewayChainId: 55815,
+        relayerUrl: "https://relayer.example",
+      },
+    },
+    localhost: {
+      chainId: 31337,
+      label: "Hardhat (local)",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: ["http://127.0.0.1:8545"],
+      fhevmMock: true,
+    },
+  },
+});
+
+describe("network registry", function () {
+  it("drives the hardhat networks from the shipped registry", function () {
+    const registry = NetworkRegistry.fromJson(configJson);
+    expect(registry.defaultNetwork.name).to.equal(configJson.network);
+    for (const network of registry.all) {
+      expect(hardhatConfig.networks[network.name].chainId).to.equal(
+        network.chainId,
+      );
+    }
+    expect(registry.byChainId(31337)?.name).to.equal("localhost");
+  });
+
+  it("knows where ReviewerRecFHE is deployed and how to link to each chain", function () {
+    const registry = NetworkRegistry.fromJson(registryJson());
+    expect(registry.isDeployed(11155111n)).to.equal(true);
+    expect(registry.isDeployed(31337)).to.equal(false);
+    expect(registry.isDeployed(1)).to.equal(false);
+    expect(registry.explorerLink(11155111, "tx", "0xabc")).to.equal(
+      "https://sepolia.etherscan.io/tx/0xabc",
+    );
+    expect(registry.explorerLink(31337, "address", ADDRESS)).to.equal(
+      undefined,
+    );
+  });
+
+  it("teaches the wallet a chain it does not know before switching", async function () {
+    const registry = NetworkRegistry.fromJson(registryJson());
+    const requests: { method: string; params?: unknown[] }[] = [];
+    const wallet = {
+      known: new Set(["0xaa36a7"]),
+      async request(args: { method: string; params?: unknown[] }) {
+        requests.push(args);
+        const [param] = args.params as { chainId: string }[];
+        if (args.method === "wallet_addEthereumChain") {
+          this.known.add(param.chainId);
+        } else if (!this.known.has(param.chainId)) {
+          throw Object.assign(new Error("Unrecognized chain"), { code: 4902 });
+        }
+        return null;
+      },
+    };
+
+    await registry.switchWallet(wallet, registry.get("sepolia")!);
+    await registry.switchWallet(wallet, registry.get("localhost")!);
+
+    expect(requests.map((r) => r.method)).to.deep.equal([
+      "wallet_switchEthereumChain",
+      "wallet_switchEthereumChain",
+      "wallet_addEthereumChain",
+    ]);
+    expect(requests[2].params).to.deep.equal([
+      {
+        chainId: "0x7a69",
+        chainName: "Hardhat (local)",
+        nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+        rpcUrls: ["http://127.0.0.1:8545"],
+      },
+    ]);
+  });
+
+  it("passes on other wallet errors", async function () {
+    const registry = NetworkRegistry.fromJson(registryJson());
+    const rejected = Object.assign(new Error("User rejected"), { code: 4001 });
+    const wallet = { request: () => Promise.reject(rejected) };
+    await expect(
+      registry.switchWallet(wallet, registry.defaultNetwork),
+    ).to.be.rejectedWith("User rejected");
+  });
+
+  it("rejects malformed registries", function () {
+    const broken: ((json: NetworkRegistryJson) => void)[] = [
+      (json) => (json.networks.localhost.chainId = 11155111),
+      (json) => (json.networks.localhost.rpcUrls = []),
+      (json) => (json.networks.sepolia.reviewerRecAddress = "0x1234"),
+      (json) => (json.network = "mainnet"),
+      (json) => (json.networks.sepolia.fhevm!.aclContractAddress = "0x1234"),
+      (json) => (json.networks.sepolia.fhevm!.relayerUrl = ""),
+      (json) => (json.networks.localhost.fhevm = json.networks.sepolia.fhevm),
+    ];
+    for (const breakIt of broken) {
+      const json = registryJson();
+      breakIt(json);
+      expect(() => NetworkRegistry.fromJson(json)).to.throw(
+        /Invalid network registry/,
+      );
+    }
+  });
+});
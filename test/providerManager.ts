@@ -0,0 +1,213 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { createServer } from "http";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+import { ProviderManager, selectRpcNetwork } from "../frontend/web/src/rpc";
+
+/** An HTTP JSON-RPC endpoint in front of the in-process Hardhat network, with knobs to make it misbehave. */
+interface Endpoint {
+  url: string;
+  calls: number;
+  down: boolean;
+  delay: number;
+  chainId?: number;
+  close(): Promise<void>;
+}
+
+async function startEndpoint(): Promise<Endpoint> {
+  const endpoint = { calls: 0, down: false, delay: 0 } as Endpoint;
+  const answer = async (request: {
+    id: number;
+    method: string;
+    params?: unknown[];
+  }) => {
+    try {
+      const result =
+        request.method === "eth_chainId" && endpoint.chainId !== undefined
+          ? ethers.toQuantity(endpoint.chainId)
+          : await ethers.provider.send(request.method, request.params ?? []);
+      return { jsonrpc: "2.0", id: request.id, result };
+    } catch (e) {
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        error: { code: -32000, message: (e as Error).message },
+      };
+    }
+  };
+  const server: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      endpoint.calls += 1;
+      if (endpoint.down) {
+        res.writeHead(503).end();
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, endpoint.delay));
+      const payload = JSON.parse(body);
+      const reply = Array.isArray(payload)
+        ? await Promise.all(payload.map(answer))
+        : await answer(payload);
+      res
+        .writeHead(200, { "content-type": "application/json" })
+        .end(JSON.stringify(reply));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  endpoint.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  endpoint.close = () =>
+    new Promise((resolve) => server.close(() => resolve()));
+  return endpoint;
+}
+
+describe("ProviderManager", function () {
+  let endpoints: Endpoint[];
+  let manager: ProviderManager | undefined;
+
+  beforeEach(async function () {
+    endpoints = [await startEndpoint(), await startEndpoint()];
+  });
+
+  afterEach(async function () {
+    manager?.destroy();
+    manager = undefined;
+    for (const endpoint of endpoints) await endpoint.close();
+  });
+
+  const connect = (urls: string[], cooldown = 60_000) =>
+    (manager = new ProviderManager(
+      { name: "hardhat", chainId: 31337, rpcUrls: urls },
+      { timeout: 2000, cooldown },
+    ));
+
+  it("fails over from an endpoint that is down and benches it", async function () {
+    const [a, b] = endpoints;
+    a.down = true;
+    const { provider } = connect([a.url, b.url]);
+
+    expect(await provider.getBlockNumber()).to.equal(
+      await ethers.provider.getBlockNumber(),
+    );
+    await provider.getBalance(ethers.ZeroAddress);
+
+    // The benched endpoint is not asked again while a healthy one answers
+    expect([a.calls, b.calls]).to.deep.equal([1, 2]);
+    const [best, worst] = manager!.health();
+    expect(best).to.include({ url: b.url, successes: 2, failures: 0 });
+    expect(worst).to.include({
+      url: a.url,
+      failures: 1,
+      consecutiveFailures: 1,
+      score: 0,
+    });
+    expect(worst.lastError).to.be.a("string");
+  });
+
+  it("moves to the next endpoint when the current one dies mid-session", async function () {
+    const [a, b] = endpoints;
+    const { provider } = connect([a.url, b.url]);
+    await provider.getBlockNumber();
+    expect(b.calls).to.equal(0);
+
+    await a.close();
+    const [signer] = await ethers.getSigners();
+    expect(await provider.getTransactionCount(signer.address)).to.equal(
+      await ethers.provider.getTransactionCount(signer.address),
+    );
+    expect(manager!.health().map((e) => e.url)).to.deep.equal([b.url, a.url]);
+    endpoints = [b];
+  });
+
+  it("returns to a benched endpoint once its cooldown is over", async function () {
+    const [a, b] = endpoints;
+    a.down = true;
+    const { provider } = connect([a.url, b.url], 50);
+    await provider.getBlockNumber();
+    a.down = false;
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    await manager!.probe();
+    expect(manager!.health().find((e) => e.url === a.url)).to.include({
+      consecutiveFailures: 0,
+      benchedUntil: 0,
+    });
+  });
+
+  it("ranks endpoints by probed latency and rejects ones serving another chain", async function () {
+    const [slow, fast] = endpoints;
+    slow.delay = 150;
+    const wrong = await startEndpoint();
+    wrong.chainId = 1;
+    endpoints.push(wrong);
+
+    const health = await connect([slow.url, wrong.url, fast.url]).probe();
+    expect(health.map((e) => e.url)).to.deep.equal([
+      fast.url,
+      slow.url,
+      wrong.url,
+    ]);
+    expect(health[0].latency!).to.be.lessThan(health[1].latency!);
+    expect(health[2].lastError).to.match(/serves chain 1, expected 31337/);
+  });
+
+  it("passes JSON-RPC errors through without failing over", async function () {
+    const [a, b] = endpoints;
+    const { provider } = connect([a.url, b.url]);
+    await expect(provider.send("eth_noSuchMethod", [])).to.be.rejected;
+    expect(b.calls).to.equal(0);
+    expect(manager!.health()[0]).to.include({ url: a.url, failures: 0 });
+  });
+
+  it("reports every endpoint when all of them fail", async function () {
+    const [a, b] = endpoints;
+    a.down = b.down = true;
+    const { provider } = connect([a.url, b.url]);
+    await expect(provider.getBlockNumber()).to.be.rejectedWith(
+      /All RPC endpoints for hardhat failed/,
+    );
+  });
+
+  describe("configuration", function () {
+    const config = {
+      network: "sepolia",
+      networks: {
+        sepolia: {
+          chainId: 11155111,
+          rpcUrls: ["https://one.example", "https://two.example"],
+        },
+        localhost: { chainId: 31337, rpcUrls: ["http://127.0.0.1:8545"] },
+      },
+    };
+
+    it("uses the configured network unless the environment picks another", function () {
+      expect(selectRpcNetwork(config)).to.deep.equal({
+        name: "sepolia",
+        ...config.networks.sepolia,
+      });
+      expect(
+        selectRpcNetwork(config, { RPC_NETWORK: "localhost" }),
+      ).to.deep.equal({
+        name: "localhost",
+        chainId: 31337,
+        rpcUrls: ["http://127.0.0.1:8545"],
+      });
+      expect(
+        selectRpcNetwork(config, {
+          RPC_URLS: " https://mine.example ,https://backup.example",
+        }).rpcUrls,
+      ).to.deep.equal(["https://mine.example", "https://backup.example"]);
+    });
+
+    it("rejects unknown networks and empty endpoint lists", function () {
+      expect(() =>
+        selectRpcNetwork(config, { RPC_NETWORK: "mainnet" }),
+      ).to.throw(/Unknown RPC network "mainnet"/);
+      expect(() => selectRpcNetwork(config, { RPC_URLS: " , " })).to.throw(
+        /No RPC endpoints/,
+      );
+    });
+  });
+});
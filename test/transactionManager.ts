@@ -0,0 +1,215 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { ReviewerRecClient } from "../frontend/web/src/reviewerRecClient";
+import type {
+  TrackedTransaction,
+  TransactionStatus,
+  TransactionStorage,
+} from "../frontend/web/src/transactions";
+import {
+  TransactionManager,
+  USER_REJECTED,
+  decodeTransactionError,
+} from "../frontend/web/src/transactions";
+import type { ReviewerRecFHE } from "../types";
+
+/** Resolves once the manager reports the transaction, or the newest one, in the given state. */
+function reached(
+  manager: TransactionManager,
+  hash: string | undefined,
+  status: TransactionStatus,
+): Promise<TrackedTransaction> {
+  return new Promise((resolve) => {
+    const check = (list: TrackedTransaction[]) => {
+      const entry = hash ? list.find((t) => t.hash === hash) : list[0];
+      if (entry?.status === status) {
+        unsubscribe();
+        resolve(entry);
+      }
+    };
+    const unsubscribe = manager.subscribe(check);
+    check(manager.list());
+  });
+}
+
+/** In-memory stand-in for localStorage. */
+class MemoryStorage implements TransactionStorage {
+  readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+describe("TransactionManager", function () {
+  let signer: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+  let contract: ReviewerRecFHE;
+  let manager: TransactionManager;
+
+  before(async function () {
+    [signer, other] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const factory = await ethers.getContractFactory("ReviewerRecFHE", signer);
+    contract = (await factory.deploy()) as unknown as ReviewerRecFHE;
+    manager = new TransactionManager({ confirmations: 3 });
+  });
+
+  afterEach(async function () {
+    await ethers.provider.send("evm_setAutomine", [true]);
+  });
+
+  it("follows a client write from pending through its confirmations", async function () {
+    const client = new ReviewerRecClient(contract, manager);
+    await ethers.provider.send("evm_setAutomine", [false]);
+
+    const granting = client.grantRole("editor", other.address);
+    const [pending] = await new Promise<TrackedTransaction[]>((resolve) => {
+      const unsubscribe = manager.subscribe((list) => {
+        unsubscribe();
+        resolve(list);
+      });
+    });
+    expect(pending).to.include({
+      label: "Grant role",
+      status: "pending",
+      chainId: 31337,
+      confirmations: 0,
+    });
+
+    await ethers.provider.send("evm_mine", []);
+    const { blockNumber } = await granting;
+    expect(manager.list()[0]).to.include({
+      status: "mined",
+      blockNumber,
+      confirmations: 1,
+    });
+
+    const confirmed = reached(manager, pending.hash, "confirmed");
+    await ethers.provider.send("evm_mine", []);
+    await ethers.provider.send("evm_mine", []);
+    expect(await confirmed).to.include({ confirmations: 3 });
+  });
+
+  it("does not confirm a transaction a reorg took out of the chain", async function () {
+    const client = new ReviewerRecClient(contract, manager);
+    const seen: TransactionStatus[] = [];
+    manager.subscribe((list) => seen.push(list[0].status));
+    await ethers.provider.send("evm_setAutomine", [false]);
+    const beforeSending = await ethers.provider.send("evm_snapshot", []);
+
+    const granting = client.grantRole("editor", other.address);
+    const { hash } = await reached(manager, undefined, "pending");
+    await ethers.provider.send("evm_mine", []);
+    await granting;
+    expect(manager.list()[0]).to.include({ status: "mined" });
+
+    await ethers.provider.send("evm_revert", [beforeSending]);
+    const dropped = reached(manager, hash, "replaced");
+    for (let i = 0; i < 3; i++) await ethers.provider.send("evm_mine", []);
+
+    expect(await dropped).to.include({ error: "Dropped", confirmations: 0 });
+    expect(seen).to.include("pending").and.not.include("confirmed");
+  });
+
+  it("resumes the transactions saved for a chain after a reload", async function () {
+    const storage = new MemoryStorage();
+    storage.setItem("reviewer-rec-transactions-1", "[]");
+    const before = new TransactionManager({ confirmations: 3, storage });
+    before.resume(31337, ethers.provider);
+    await ethers.provider.send("evm_setAutomine", [false]);
+
+    const granting = new ReviewerRecClient(contract, before).grantRole(
+      "editor",
+      other.address,
+    );
+    const { hash } = await reached(before, undefined, "pending");
+
+    const after = new TransactionManager({ confirmations: 3, storage });
+    after.resume(31337, ethers.provider);
+    expect(after.list()).to.have.length(1);
+    expect(after.list()[0]).to.include({
+      hash,
+      label: "Grant role",
+      status: "pending",
+    });
+
+    const confirmed = reached(after, hash, "confirmed");
+    for (let i = 0; i < 3; i++) await ethers.provider.send("evm_mine", []);
+    await granting;
+    expect(await confirmed).to.include({ confirmations: 3 });
+    expect(
+      JSON.parse(storage.getItem("reviewer-rec-transactions-31337")!),
+    ).to.have.length(1);
+    expect(storage.getItem("reviewer-rec-transactions-1")).to.equal("[]");
+  });
+
+  it("decodes the revert reason of a transaction resumed after a reload", async function () {
+    const storage = new MemoryStorage();
+    const before = new TransactionManager({ storage });
+    before.resume(31337, ethers.provider);
+    await ethers.provider.send("evm_setAutomine", [false]);
+    const tx = await contract.assignEditor(99, other.address, {
+      gasLimit: 500_000,
+    });
+    before.track(tx, { iface: contract.interface }).catch(() => undefined);
+    await reached(before, tx.hash, "pending");
+
+    const after = new TransactionManager({ storage });
+    after.resume(31337, ethers.provider, {
+      [await contract.getAddress()]: contract.interface,
+    });
+    const reverted = reached(after, tx.hash, "reverted");
+    await ethers.provider.send("evm_mine", []);
+
+    expect(await reverted).to.include({
+      label: "Assign editor",
+      error: "Invalid paper ID",
+    });
+  });
+
+  it("recovers the revert reason of a mined transaction from the ABI", async function () {
+    await ethers.provider.send("evm_setAutomine", [false]);
+    // An explicit gas limit skips estimation, which would refuse to send it
+    const tx = await contract.assignEditor(99, other.address, {
+      gasLimit: 500_000,
+    });
+    const tracking = manager.track(tx, { iface: contract.interface });
+    await ethers.provider.send("evm_mine", []);
+
+    await expect(tracking).to.be.rejectedWith("Invalid paper ID");
+    expect(manager.list()[0]).to.include({
+      label: "Assign editor",
+      status: "reverted",
+      error: "Invalid paper ID",
+    });
+
+    manager.clear();
+    expect(manager.list()).to.deep.equal([]);
+  });
+
+  it("decodes reverts caught before sending and wallet rejections", async function () {
+    const estimate = await contract
+      .assignEditor(99, other.address)
+      .catch((e: unknown) => e);
+    expect(decodeTransactionError(estimate, contract.interface)).to.equal(
+      "Invalid paper ID",
+    );
+
+    const rejected = Object.assign(new Error("user rejected action"), {
+      code: "ACTION_REJECTED",
+    });
+    expect(decodeTransactionError(rejected)).to.equal(USER_REJECTED);
+    expect(decodeTransactionError({ code: 4001, message: "Denied" })).to.equal(
+      USER_REJECTED,
+    );
+  });
+});
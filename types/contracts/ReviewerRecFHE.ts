@@ -0,0 +1,2123 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace ReviewerRecFHE {
+  export type MatchResultStruct = {
+    paperId: BigNumberish;
+    reviewerId: BigNumberish;
+    matchScore: BytesLike;
+    isRevealed: boolean;
+    revealedScore: BigNumberish;
+  };
+
+  export type MatchResultStructOutput = [
+    paperId: bigint,
+    reviewerId: bigint,
+    matchScore: string,
+    isRevealed: boolean,
+    revealedScore: bigint
+  ] & {
+    paperId: bigint;
+    reviewerId: bigint;
+    matchScore: string;
+    isRevealed: boolean;
+    revealedScore: bigint;
+  };
+}
+
+export interface ReviewerRecFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "AUTHOR_ROLE"
+      | "DISCIPLINE_FIELD_MASK"
+      | "DISCIPLINE_WEIGHT"
+      | "EDITOR_ROLE"
+      | "LOAD_PENALTY"
+      | "MATCH_BATCH_BUCKETS"
+      | "MAX_AUTHOR_AFFILIATIONS"
+      | "MAX_BUCKET_WEIGHT"
+      | "MAX_CONFLICT_IDS"
+      | "MAX_PROFILE_DIMENSIONS"
+      | "MAX_TOP_K"
+      | "MIN_PROFILE_DIMENSIONS"
+      | "PARENT_DISCIPLINE_WEIGHT"
+      | "PUBLICATION_CAP"
+      | "REVIEWER_ROLE"
+      | "SIBLING_DISCIPLINE_WEIGHT"
+      | "SIMILARITY_CAP"
+      | "addEncryptedReviewer"
+      | "addProfileVersion"
+      | "assignEditor"
+      | "availabilityWindows"
+      | "completeReview"
+      | "continueMatching"
+      | "currentProfileVersion"
+      | "deregisterReviewer"
+      | "encryptedPapers"
+      | "encryptedReviewers"
+      | "finalizeReveal"
+      | "getDecryptionRequest"
+      | "getInvitationStatus"
+      | "getInvitations"
+      | "getMatchCount"
+      | "getMatches"
+      | "getMatchingProgress"
+      | "getPaperConflicts"
+      | "getPaperVector"
+      | "getReviewerAvailability"
+      | "getReviewerIds"
+      | "getReviewerVector"
+      | "grantRole"
+      | "hasRole"
+      | "inviteReviewer"
+      | "maxConcurrentReviews"
+      | "paperCount"
+      | "processMatching"
+      | "profileDimensions"
+      | "protocolId"
+      | "recordDecision"
+      | "requestMatchingReviewers"
+      | "respondToInvitation"
+      | "revealMatchedReviewer"
+      | "reviewerCount"
+      | "revokeRole"
+      | "setAvailability"
+      | "setEncryptedAvailability"
+      | "setMaxConcurrentReviews"
+      | "setReviewerPaused"
+      | "startReview"
+      | "submitEncryptedPaper"
+      | "updateEncryptedReviewer"
+      | "withdrawPaper"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AvailabilityChanged"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "EditorAssigned"
+      | "InvitationAnswered"
+      | "MatchRevealed"
+      | "MatchingCompleted"
+      | "MatchingProgress"
+      | "MatchingRequested"
+      | "MaxConcurrentReviewsUpdated"
+      | "PaperStatusChanged"
+      | "PaperSubmitted"
+      | "ProfileVersionAdded"
+      | "ReviewCompleted"
+      | "ReviewerAdded"
+      | "ReviewerInvited"
+      | "ReviewerStatusChanged"
+      | "ReviewerUpdated"
+      | "RoleGranted"
+      | "RoleRevoked"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "AUTHOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DISCIPLINE_FIELD_MASK",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DISCIPLINE_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "EDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "LOAD_PENALTY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MATCH_BATCH_BUCKETS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_AUTHOR_AFFILIATIONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BUCKET_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CONFLICT_IDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PROFILE_DIMENSIONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "MAX_TOP_K", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MIN_PROFILE_DIMENSIONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PARENT_DISCIPLINE_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PUBLICATION_CAP",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REVIEWER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SIBLING_DISCIPLINE_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SIMILARITY_CAP",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addEncryptedReviewer",
+    values: [
+      BytesLike[],
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProfileVersion",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assignEditor",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "availabilityWindows",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "completeReview",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "continueMatching",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentProfileVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deregisterReviewer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedPapers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedReviewers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeReveal",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptionRequest",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInvitationStatus",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInvitations",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMatchCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMatches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMatchingProgress",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPaperConflicts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPaperVector",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReviewerAvailability",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReviewerIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReviewerVector",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "inviteReviewer",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxConcurrentReviews",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "paperCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processMatching",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "profileDimensions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordDecision",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestMatchingReviewers",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "respondToInvitation",
+    values: [BigNumberish, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealMatchedReviewer",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reviewerCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAvailability",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setEncryptedAvailability",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMaxConcurrentReviews",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReviewerPaused",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startReview",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedPaper",
+    values: [
+      BytesLike,
+      BytesLike,
+      BytesLike[],
+      BytesLike,
+      BytesLike[],
+      BytesLike[],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateEncryptedReviewer",
+    values: [
+      BigNumberish,
+      BytesLike[],
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawPaper",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "AUTHOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DISCIPLINE_FIELD_MASK",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DISCIPLINE_WEIGHT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "EDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "LOAD_PENALTY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MATCH_BATCH_BUCKETS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_AUTHOR_AFFILIATIONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BUCKET_WEIGHT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CONFLICT_IDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PROFILE_DIMENSIONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_TOP_K", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_PROFILE_DIMENSIONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PARENT_DISCIPLINE_WEIGHT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PUBLICATION_CAP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REVIEWER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SIBLING_DISCIPLINE_WEIGHT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SIMILARITY_CAP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addEncryptedReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProfileVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "assignEditor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "availabilityWindows",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "completeReview",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "continueMatching",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentProfileVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deregisterReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedPapers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedReviewers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptionRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInvitationStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInvitations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMatchCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getMatches", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getMatchingProgress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPaperConflicts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPaperVector",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReviewerAvailability",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReviewerIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReviewerVector",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "inviteReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxConcurrentReviews",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "paperCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "processMatching",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "profileDimensions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordDecision",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestMatchingReviewers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "respondToInvitation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealMatchedReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reviewerCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setAvailability",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setEncryptedAvailability",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxConcurrentReviews",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReviewerPaused",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startReview",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedPaper",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateEncryptedReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawPaper",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AvailabilityChangedEvent {
+  export type InputTuple = [
+    reviewerId: BigNumberish,
+    encrypted: boolean,
+    from: BigNumberish,
+    until: BigNumberish
+  ];
+  export type OutputTuple = [
+    reviewerId: bigint,
+    encrypted: boolean,
+    from: bigint,
+    until: bigint
+  ];
+  export interface OutputObject {
+    reviewerId: bigint;
+    encrypted: boolean;
+    from: bigint;
+    until: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    paperId: BigNumberish,
+    requestId: BigNumberish,
+    kind: BigNumberish
+  ];
+  export type OutputTuple = [paperId: bigint, requestId: bigint, kind: bigint];
+  export interface OutputObject {
+    paperId: bigint;
+    requestId: bigint;
+    kind: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EditorAssignedEvent {
+  export type InputTuple = [paperId: BigNumberish, editor: AddressLike];
+  export type OutputTuple = [paperId: bigint, editor: string];
+  export interface OutputObject {
+    paperId: bigint;
+    editor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InvitationAnsweredEvent {
+  export type InputTuple = [
+    paperId: BigNumberish,
+    reviewerId: BigNumberish,
+    accepted: boolean
+  ];
+  export type OutputTuple = [
+    paperId: bigint,
+    reviewerId: bigint,
+    accepted: boolean
+  ];
+  export interface OutputObject {
+    paperId: bigint;
+    reviewerId: bigint;
+    accepted: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MatchRevealedEvent {
+  export type InputTuple = [
+    paperId: BigNumberish,
+    reviewerId: BigNumberish,
+    rank: BigNumberish,
+    score: BigNumberish
+  ];
+  export type OutputTuple = [
+    paperId: bigint,
+    reviewerId: bigint,
+    rank: bigint,
+    score: bigint
+  ];
+  export interface OutputObject {
+    paperId: bigint;
+    reviewerId: bigint;
+    rank: bigint;
+    score: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MatchingCompletedEvent {
+  export type InputTuple = [paperId: BigNumberish, matchCount: BigNumberish];
+  export type OutputTuple = [paperId: bigint, matchCount: bigint];
+  export interface OutputObject {
+    paperId: bigint;
+    matchCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MatchingProgressEvent {
+  export type InputTuple = [
+    paperId: BigNumberish,
+    scoredReviewers: BigNumberish
+  ];
+  export type OutputTuple = [paperId: bigint, scoredReviewers: bigint];
+  export interface OutputObject {
+    paperId: bigint;
+    scoredReviewers: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MatchingRequestedEvent {
+  export type InputTuple = [paperId: BigNumberish];
+  export type OutputTuple = [paperId: bigint];
+  export interface OutputObject {
+    paperId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MaxConcurrentReviewsUpdatedEvent {
+  export type InputTuple = [cap: BigNumberish];
+  export type OutputTuple = [cap: bigint];
+  export interface OutputObject {
+    cap: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaperStatusChangedEvent {
+  export type InputTuple = [
+    paperId: BigNumberish,
+    status: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    paperId: bigint,
+    status: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    paperId: bigint;
+    status: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaperSubmittedEvent {
+  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [id: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProfileVersionAddedEvent {
+  export type InputTuple = [version: BigNumberish, dimensions: BigNumberish];
+  export type OutputTuple = [version: bigint, dimensions: bigint];
+  export interface OutputObject {
+    version: bigint;
+    dimensions: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewCompletedEvent {
+  export type InputTuple = [paperId: BigNumberish, reviewerId: BigNumberish];
+  export type OutputTuple = [paperId: bigint, reviewerId: bigint];
+  export interface OutputObject {
+    paperId: bigint;
+    reviewerId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewerAddedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewerInvitedEvent {
+  export type InputTuple = [paperId: BigNumberish, reviewerId: BigNumberish];
+  export type OutputTuple = [paperId: bigint, reviewerId: bigint];
+  export interface OutputObject {
+    paperId: bigint;
+    reviewerId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewerStatusChangedEvent {
+  export type InputTuple = [id: BigNumberish, status: BigNumberish];
+  export type OutputTuple = [id: bigint, status: bigint];
+  export interface OutputObject {
+    id: bigint;
+    status: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewerUpdatedEvent {
+  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [id: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ReviewerRecFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): ReviewerRecFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReviewerRecFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  AUTHOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DISCIPLINE_FIELD_MASK: TypedContractMethod<[], [bigint], "view">;
+
+  DISCIPLINE_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  EDITOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  LOAD_PENALTY: TypedContractMethod<[], [bigint], "view">;
+
+  MATCH_BATCH_BUCKETS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_AUTHOR_AFFILIATIONS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BUCKET_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CONFLICT_IDS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PROFILE_DIMENSIONS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TOP_K: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_PROFILE_DIMENSIONS: TypedContractMethod<[], [bigint], "view">;
+
+  PARENT_DISCIPLINE_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  PUBLICATION_CAP: TypedContractMethod<[], [bigint], "view">;
+
+  REVIEWER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  SIBLING_DISCIPLINE_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  SIMILARITY_CAP: TypedContractMethod<[], [bigint], "view">;
+
+  addEncryptedReviewer: TypedContractMethod<
+    [
+      expertiseVector: BytesLike[],
+      encryptedDiscipline: BytesLike,
+      encryptedAffiliation: BytesLike,
+      encryptedScholarId: BytesLike,
+      encryptedPublicationCount: BytesLike,
+      encryptedReviewCount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  addProfileVersion: TypedContractMethod<
+    [dimensions: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  assignEditor: TypedContractMethod<
+    [paperId: BigNumberish, editor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  availabilityWindows: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, bigint, bigint, string, string] & {
+        encrypted: boolean;
+        from: bigint;
+        until: bigint;
+        encryptedFrom: string;
+        encryptedUntil: string;
+      }
+    ],
+    "view"
+  >;
+
+  completeReview: TypedContractMethod<
+    [paperId: BigNumberish, reviewerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  continueMatching: TypedContractMethod<
+    [paperId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  currentProfileVersion: TypedContractMethod<[], [bigint], "view">;
+
+  deregisterReviewer: TypedContractMethod<
+    [reviewerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  encryptedPapers: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        string,
+        bigint,
+        bigint
+      ] & {
+        id: bigint;
+        encryptedTitle: string;
+        encryptedAbstract: string;
+        encryptedDiscipline: string;
+        profileVersion: bigint;
+        timestamp: bigint;
+        author: string;
+        editor: string;
+        status: bigint;
+        statusUpdatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  encryptedReviewers: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        id: bigint;
+        profileVersion: bigint;
+        encryptedDiscipline: string;
+        encryptedAffiliation: string;
+        encryptedScholarId: string;
+        encryptedPublicationCount: string;
+        encryptedReviewCount: string;
+        encryptedActiveReviews: string;
+        account: string;
+        status: bigint;
+        updatedAt: bigint;
+        lastActiveAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  finalizeReveal: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getDecryptionRequest: TypedContractMethod<
+    [paperId: BigNumberish, kind: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        requestId: bigint;
+        status: bigint;
+        requestedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getInvitationStatus: TypedContractMethod<
+    [paperId: BigNumberish, reviewerId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getInvitations: TypedContractMethod<
+    [reviewerId: BigNumberish],
+    [[bigint[], bigint[]] & { paperIds: bigint[]; statuses: bigint[] }],
+    "view"
+  >;
+
+  getMatchCount: TypedContractMethod<[paperId: BigNumberish], [bigint], "view">;
+
+  getMatches: TypedContractMethod<
+    [paperId: BigNumberish],
+    [ReviewerRecFHE.MatchResultStructOutput[]],
+    "view"
+  >;
+
+  getMatchingProgress: TypedContractMethod<
+    [paperId: BigNumberish],
+    [[boolean, bigint] & { active: boolean; scoredReviewers: bigint }],
+    "view"
+  >;
+
+  getPaperConflicts: TypedContractMethod<
+    [paperId: BigNumberish],
+    [[string[], string[]] & { affiliations: string[]; scholarIds: string[] }],
+    "view"
+  >;
+
+  getPaperVector: TypedContractMethod<
+    [paperId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getReviewerAvailability: TypedContractMethod<
+    [reviewerIds: BigNumberish[]],
+    [[bigint[], bigint[]] & { availability: bigint[]; lastActiveAt: bigint[] }],
+    "view"
+  >;
+
+  getReviewerIds: TypedContractMethod<
+    [account: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getReviewerVector: TypedContractMethod<
+    [reviewerId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  inviteReviewer: TypedContractMethod<
+    [paperId: BigNumberish, reviewerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  maxConcurrentReviews: TypedContractMethod<[], [bigint], "view">;
+
+  paperCount: TypedContractMethod<[], [bigint], "view">;
+
+  processMatching: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  profileDimensions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  recordDecision: TypedContractMethod<
+    [paperId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestMatchingReviewers: TypedContractMethod<
+    [paperId: BigNumberish, k: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  respondToInvitation: TypedContractMethod<
+    [paperId: BigNumberish, reviewerId: BigNumberish, accept: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  revealMatchedReviewer: TypedContractMethod<
+    [paperId: BigNumberish, rank: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reviewerCount: TypedContractMethod<[], [bigint], "view">;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setAvailability: TypedContractMethod<
+    [reviewerId: BigNumberish, from: BigNumberish, until: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setEncryptedAvailability: TypedContractMethod<
+    [
+      reviewerId: BigNumberish,
+      encryptedFrom: BytesLike,
+      encryptedUntil: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setMaxConcurrentReviews: TypedContractMethod<
+    [cap: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setReviewerPaused: TypedContractMethod<
+    [reviewerId: BigNumberish, paused: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  startReview: TypedContractMethod<
+    [paperId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedPaper: TypedContractMethod<
+    [
+      encryptedTitle: BytesLike,
+      encryptedAbstract: BytesLike,
+      keywordVector: BytesLike[],
+      encryptedDiscipline: BytesLike,
+      authorAffiliations: BytesLike[],
+      conflictIds: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateEncryptedReviewer: TypedContractMethod<
+    [
+      reviewerId: BigNumberish,
+      expertiseVector: BytesLike[],
+      encryptedDiscipline: BytesLike,
+      encryptedAffiliation: BytesLike,
+      encryptedScholarId: BytesLike,
+      encryptedPublicationCount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawPaper: TypedContractMethod<
+    [paperId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "AUTHOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DISCIPLINE_FIELD_MASK"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DISCIPLINE_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "EDITOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "LOAD_PENALTY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MATCH_BATCH_BUCKETS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_AUTHOR_AFFILIATIONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BUCKET_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CONFLICT_IDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PROFILE_DIMENSIONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TOP_K"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_PROFILE_DIMENSIONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PARENT_DISCIPLINE_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PUBLICATION_CAP"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "REVIEWER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "SIBLING_DISCIPLINE_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SIMILARITY_CAP"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addEncryptedReviewer"
+  ): TypedContractMethod<
+    [
+      expertiseVector: BytesLike[],
+      encryptedDiscipline: BytesLike,
+      encryptedAffiliation: BytesLike,
+      encryptedScholarId: BytesLike,
+      encryptedPublicationCount: BytesLike,
+      encryptedReviewCount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "addProfileVersion"
+  ): TypedContractMethod<[dimensions: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "assignEditor"
+  ): TypedContractMethod<
+    [paperId: BigNumberish, editor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "availabilityWindows"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, bigint, bigint, string, string] & {
+        encrypted: boolean;
+        from: bigint;
+        until: bigint;
+        encryptedFrom: string;
+        encryptedUntil: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "completeReview"
+  ): TypedContractMethod<
+    [paperId: BigNumberish, reviewerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "continueMatching"
+  ): TypedContractMethod<[paperId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "currentProfileVersion"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "deregisterReviewer"
+  ): TypedContractMethod<[reviewerId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "encryptedPapers"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        string,
+        bigint,
+        bigint
+      ] & {
+        id: bigint;
+        encryptedTitle: string;
+        encryptedAbstract: string;
+        encryptedDiscipline: string;
+        profileVersion: bigint;
+        timestamp: bigint;
+        author: string;
+        editor: string;
+        status: bigint;
+        statusUpdatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedReviewers"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        id: bigint;
+        profileVersion: bigint;
+        encryptedDiscipline: string;
+        encryptedAffiliation: string;
+        encryptedScholarId: string;
+        encryptedPublicationCount: string;
+        encryptedReviewCount: string;
+        encryptedActiveReviews: string;
+        account: string;
+        status: bigint;
+        updatedAt: bigint;
+        lastActiveAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeReveal"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptionRequest"
+  ): TypedContractMethod<
+    [paperId: BigNumberish, kind: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        requestId: bigint;
+        status: bigint;
+        requestedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getInvitationStatus"
+  ): TypedContractMethod<
+    [paperId: BigNumberish, reviewerId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getInvitations"
+  ): TypedContractMethod<
+    [reviewerId: BigNumberish],
+    [[bigint[], bigint[]] & { paperIds: bigint[]; statuses: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMatchCount"
+  ): TypedContractMethod<[paperId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getMatches"
+  ): TypedContractMethod<
+    [paperId: BigNumberish],
+    [ReviewerRecFHE.MatchResultStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMatchingProgress"
+  ): TypedContractMethod<
+    [paperId: BigNumberish],
+    [[boolean, bigint] & { active: boolean; scoredReviewers: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPaperConflicts"
+  ): TypedContractMethod<
+    [paperId: BigNumberish],
+    [[string[], string[]] & { affiliations: string[]; scholarIds: string[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPaperVector"
+  ): TypedContractMethod<[paperId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getReviewerAvailability"
+  ): TypedContractMethod<
+    [reviewerIds: BigNumberish[]],
+    [[bigint[], bigint[]] & { availability: bigint[]; lastActiveAt: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getReviewerIds"
+  ): TypedContractMethod<[account: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getReviewerVector"
+  ): TypedContractMethod<[reviewerId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "inviteReviewer"
+  ): TypedContractMethod<
+    [paperId: BigNumberish, reviewerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "maxConcurrentReviews"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "paperCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "processMatching"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "profileDimensions"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordDecision"
+  ): TypedContractMethod<[paperId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestMatchingReviewers"
+  ): TypedContractMethod<
+    [paperId: BigNumberish, k: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "respondToInvitation"
+  ): TypedContractMethod<
+    [paperId: BigNumberish, reviewerId: BigNumberish, accept: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealMatchedReviewer"
+  ): TypedContractMethod<
+    [paperId: BigNumberish, rank: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reviewerCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setAvailability"
+  ): TypedContractMethod<
+    [reviewerId: BigNumberish, from: BigNumberish, until: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setEncryptedAvailability"
+  ): TypedContractMethod<
+    [
+      reviewerId: BigNumberish,
+      encryptedFrom: BytesLike,
+      encryptedUntil: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMaxConcurrentReviews"
+  ): TypedContractMethod<[cap: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setReviewerPaused"
+  ): TypedContractMethod<
+    [reviewerId: BigNumberish, paused: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "startReview"
+  ): TypedContractMethod<[paperId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedPaper"
+  ): TypedContractMethod<
+    [
+      encryptedTitle: BytesLike,
+      encryptedAbstract: BytesLike,
+      keywordVector: BytesLike[],
+      encryptedDiscipline: BytesLike,
+      authorAffiliations: BytesLike[],
+      conflictIds: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateEncryptedReviewer"
+  ): TypedContractMethod<
+    [
+      reviewerId: BigNumberish,
+      expertiseVector: BytesLike[],
+      encryptedDiscipline: BytesLike,
+      encryptedAffiliation: BytesLike,
+      encryptedScholarId: BytesLike,
+      encryptedPublicationCount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawPaper"
+  ): TypedContractMethod<[paperId: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "AvailabilityChanged"
+  ): TypedContractEvent<
+    AvailabilityChangedEvent.InputTuple,
+    AvailabilityChangedEvent.OutputTuple,
+    AvailabilityChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EditorAssigned"
+  ): TypedContractEvent<
+    EditorAssignedEvent.InputTuple,
+    EditorAssignedEvent.OutputTuple,
+    EditorAssignedEvent.OutputObject
+  >;
+  getEvent(
+    key: "InvitationAnswered"
+  ): TypedContractEvent<
+    InvitationAnsweredEvent.InputTuple,
+    InvitationAnsweredEvent.OutputTuple,
+    InvitationAnsweredEvent.OutputObject
+  >;
+  getEvent(
+    key: "MatchRevealed"
+  ): TypedContractEvent<
+    MatchRevealedEvent.InputTuple,
+    MatchRevealedEvent.OutputTuple,
+    MatchRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MatchingCompleted"
+  ): TypedContractEvent<
+    MatchingCompletedEvent.InputTuple,
+    MatchingCompletedEvent.OutputTuple,
+    MatchingCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MatchingProgress"
+  ): TypedContractEvent<
+    MatchingProgressEvent.InputTuple,
+    MatchingProgressEvent.OutputTuple,
+    MatchingProgressEvent.OutputObject
+  >;
+  getEvent(
+    key: "MatchingRequested"
+  ): TypedContractEvent<
+    MatchingRequestedEvent.InputTuple,
+    MatchingRequestedEvent.OutputTuple,
+    MatchingRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MaxConcurrentReviewsUpdated"
+  ): TypedContractEvent<
+    MaxConcurrentReviewsUpdatedEvent.InputTuple,
+    MaxConcurrentReviewsUpdatedEvent.OutputTuple,
+    MaxConcurrentReviewsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaperStatusChanged"
+  ): TypedContractEvent<
+    PaperStatusChangedEvent.InputTuple,
+    PaperStatusChangedEvent.OutputTuple,
+    PaperStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaperSubmitted"
+  ): TypedContractEvent<
+    PaperSubmittedEvent.InputTuple,
+    PaperSubmittedEvent.OutputTuple,
+    PaperSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProfileVersionAdded"
+  ): TypedContractEvent<
+    ProfileVersionAddedEvent.InputTuple,
+    ProfileVersionAddedEvent.OutputTuple,
+    ProfileVersionAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewCompleted"
+  ): TypedContractEvent<
+    ReviewCompletedEvent.InputTuple,
+    ReviewCompletedEvent.OutputTuple,
+    ReviewCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewerAdded"
+  ): TypedContractEvent<
+    ReviewerAddedEvent.InputTuple,
+    ReviewerAddedEvent.OutputTuple,
+    ReviewerAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewerInvited"
+  ): TypedContractEvent<
+    ReviewerInvitedEvent.InputTuple,
+    ReviewerInvitedEvent.OutputTuple,
+    ReviewerInvitedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewerStatusChanged"
+  ): TypedContractEvent<
+    ReviewerStatusChangedEvent.InputTuple,
+    ReviewerStatusChangedEvent.OutputTuple,
+    ReviewerStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewerUpdated"
+  ): TypedContractEvent<
+    ReviewerUpdatedEvent.InputTuple,
+    ReviewerUpdatedEvent.OutputTuple,
+    ReviewerUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+
+  filters: {
+    "AvailabilityChanged(uint256,bool,uint64,uint64)": TypedContractEvent<
+      AvailabilityChangedEvent.InputTuple,
+      AvailabilityChangedEvent.OutputTuple,
+      AvailabilityChangedEvent.OutputObject
+    >;
+    AvailabilityChanged: TypedContractEvent<
+      AvailabilityChangedEvent.InputTuple,
+      AvailabilityChangedEvent.OutputTuple,
+      AvailabilityChangedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,uint8)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "EditorAssigned(uint256,address)": TypedContractEvent<
+      EditorAssignedEvent.InputTuple,
+      EditorAssignedEvent.OutputTuple,
+      EditorAssignedEvent.OutputObject
+    >;
+    EditorAssigned: TypedContractEvent<
+      EditorAssignedEvent.InputTuple,
+      EditorAssignedEvent.OutputTuple,
+      EditorAssignedEvent.OutputObject
+    >;
+
+    "InvitationAnswered(uint256,uint256,bool)": TypedContractEvent<
+      InvitationAnsweredEvent.InputTuple,
+      InvitationAnsweredEvent.OutputTuple,
+      InvitationAnsweredEvent.OutputObject
+    >;
+    InvitationAnswered: TypedContractEvent<
+      InvitationAnsweredEvent.InputTuple,
+      InvitationAnsweredEvent.OutputTuple,
+      InvitationAnsweredEvent.OutputObject
+    >;
+
+    "MatchRevealed(uint256,uint256,uint256,uint32)": TypedContractEvent<
+      MatchRevealedEvent.InputTuple,
+      MatchRevealedEvent.OutputTuple,
+      MatchRevealedEvent.OutputObject
+    >;
+    MatchRevealed: TypedContractEvent<
+      MatchRevealedEvent.InputTuple,
+      MatchRevealedEvent.OutputTuple,
+      MatchRevealedEvent.OutputObject
+    >;
+
+    "MatchingCompleted(uint256,uint256)": TypedContractEvent<
+      MatchingCompletedEvent.InputTuple,
+      MatchingCompletedEvent.OutputTuple,
+      MatchingCompletedEvent.OutputObject
+    >;
+    MatchingCompleted: TypedContractEvent<
+      MatchingCompletedEvent.InputTuple,
+      MatchingCompletedEvent.OutputTuple,
+      MatchingCompletedEvent.OutputObject
+    >;
+
+    "MatchingProgress(uint256,uint256)": TypedContractEvent<
+      MatchingProgressEvent.InputTuple,
+      MatchingProgressEvent.OutputTuple,
+      MatchingProgressEvent.OutputObject
+    >;
+    MatchingProgress: TypedContractEvent<
+      MatchingProgressEvent.InputTuple,
+      MatchingProgressEvent.OutputTuple,
+      MatchingProgressEvent.OutputObject
+    >;
+
+    "MatchingRequested(uint256)": TypedContractEvent<
+      MatchingRequestedEvent.InputTuple,
+      MatchingRequestedEvent.OutputTuple,
+      MatchingRequestedEvent.OutputObject
+    >;
+    MatchingRequested: TypedContractEvent<
+      MatchingRequestedEvent.InputTuple,
+      MatchingRequestedEvent.OutputTuple,
+      MatchingRequestedEvent.OutputObject
+    >;
+
+    "MaxConcurrentReviewsUpdated(uint32)": TypedContractEvent<
+      MaxConcurrentReviewsUpdatedEvent.InputTuple,
+      MaxConcurrentReviewsUpdatedEvent.OutputTuple,
+      MaxConcurrentReviewsUpdatedEvent.OutputObject
+    >;
+    MaxConcurrentReviewsUpdated: TypedContractEvent<
+      MaxConcurrentReviewsUpdatedEvent.InputTuple,
+      MaxConcurrentReviewsUpdatedEvent.OutputTuple,
+      MaxConcurrentReviewsUpdatedEvent.OutputObject
+    >;
+
+    "PaperStatusChanged(uint256,uint8,uint256)": TypedContractEvent<
+      PaperStatusChangedEvent.InputTuple,
+      PaperStatusChangedEvent.OutputTuple,
+      PaperStatusChangedEvent.OutputObject
+    >;
+    PaperStatusChanged: TypedContractEvent<
+      PaperStatusChangedEvent.InputTuple,
+      PaperStatusChangedEvent.OutputTuple,
+      PaperStatusChangedEvent.OutputObject
+    >;
+
+    "PaperSubmitted(uint256,uint256)": TypedContractEvent<
+      PaperSubmittedEvent.InputTuple,
+      PaperSubmittedEvent.OutputTuple,
+      PaperSubmittedEvent.OutputObject
+    >;
+    PaperSubmitted: TypedContractEvent<
+      PaperSubmittedEvent.InputTuple,
+      PaperSubmittedEvent.OutputTuple,
+      PaperSubmittedEvent.OutputObject
+    >;
+
+    "ProfileVersionAdded(uint16,uint8)": TypedContractEvent<
+      ProfileVersionAddedEvent.InputTuple,
+      ProfileVersionAddedEvent.OutputTuple,
+      ProfileVersionAddedEvent.OutputObject
+    >;
+    ProfileVersionAdded: TypedContractEvent<
+      ProfileVersionAddedEvent.InputTuple,
+      ProfileVersionAddedEvent.OutputTuple,
+      ProfileVersionAddedEvent.OutputObject
+    >;
+
+    "ReviewCompleted(uint256,uint256)": TypedContractEvent<
+      ReviewCompletedEvent.InputTuple,
+      ReviewCompletedEvent.OutputTuple,
+      ReviewCompletedEvent.OutputObject
+    >;
+    ReviewCompleted: TypedContractEvent<
+      ReviewCompletedEvent.InputTuple,
+      ReviewCompletedEvent.OutputTuple,
+      ReviewCompletedEvent.OutputObject
+    >;
+
+    "ReviewerAdded(uint256)": TypedContractEvent<
+      ReviewerAddedEvent.InputTuple,
+      ReviewerAddedEvent.OutputTuple,
+      ReviewerAddedEvent.OutputObject
+    >;
+    ReviewerAdded: TypedContractEvent<
+      ReviewerAddedEvent.InputTuple,
+      ReviewerAddedEvent.OutputTuple,
+      ReviewerAddedEvent.OutputObject
+    >;
+
+    "ReviewerInvited(uint256,uint256)": TypedContractEvent<
+      ReviewerInvitedEvent.InputTuple,
+      ReviewerInvitedEvent.OutputTuple,
+      ReviewerInvitedEvent.OutputObject
+    >;
+    ReviewerInvited: TypedContractEvent<
+      ReviewerInvitedEvent.InputTuple,
+      ReviewerInvitedEvent.OutputTuple,
+      ReviewerInvitedEvent.OutputObject
+    >;
+
+    "ReviewerStatusChanged(uint256,uint8)": TypedContractEvent<
+      ReviewerStatusChangedEvent.InputTuple,
+      ReviewerStatusChangedEvent.OutputTuple,
+      ReviewerStatusChangedEvent.OutputObject
+    >;
+    ReviewerStatusChanged: TypedContractEvent<
+      ReviewerStatusChangedEvent.InputTuple,
+      ReviewerStatusChangedEvent.OutputTuple,
+      ReviewerStatusChangedEvent.OutputObject
+    >;
+
+    "ReviewerUpdated(uint256,uint256)": TypedContractEvent<
+      ReviewerUpdatedEvent.InputTuple,
+      ReviewerUpdatedEvent.OutputTuple,
+      ReviewerUpdatedEvent.OutputObject
+    >;
+    ReviewerUpdated: TypedContractEvent<
+      ReviewerUpdatedEvent.InputTuple,
+      ReviewerUpdatedEvent.OutputTuple,
+      ReviewerUpdatedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+export type { ReviewerRecFHE } from "./ReviewerRecFHE";
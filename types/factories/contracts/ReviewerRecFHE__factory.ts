@@ -0,0 +1,1776 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ReviewerRecFHE,
+  ReviewerRecFHEInterface,
+} from "../../contracts/ReviewerRecFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "encrypted",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "from",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "until",
+        type: "uint64",
+      },
+    ],
+    name: "AvailabilityChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum ReviewerRecFHE.DecryptionKind",
+        name: "kind",
+        type: "uint8",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "editor",
+        type: "address",
+      },
+    ],
+    name: "EditorAssigned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "accepted",
+        type: "bool",
+      },
+    ],
+    name: "InvitationAnswered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "rank",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "score",
+        type: "uint32",
+      },
+    ],
+    name: "MatchRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "matchCount",
+        type: "uint256",
+      },
+    ],
+    name: "MatchingCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "scoredReviewers",
+        type: "uint256",
+      },
+    ],
+    name: "MatchingProgress",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+    ],
+    name: "MatchingRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "cap",
+        type: "uint32",
+      },
+    ],
+    name: "MaxConcurrentReviewsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum ReviewerRecFHE.PaperStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "PaperStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "PaperSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint16",
+        name: "version",
+        type: "uint16",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "dimensions",
+        type: "uint8",
+      },
+    ],
+    name: "ProfileVersionAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+    ],
+    name: "ReviewCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "ReviewerAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+    ],
+    name: "ReviewerInvited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum ReviewerRecFHE.ReviewerStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "ReviewerStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ReviewerUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "AUTHOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DISCIPLINE_FIELD_MASK",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DISCIPLINE_WEIGHT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "EDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "LOAD_PENALTY",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MATCH_BATCH_BUCKETS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_AUTHOR_AFFILIATIONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BUCKET_WEIGHT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CONFLICT_IDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PROFILE_DIMENSIONS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TOP_K",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_PROFILE_DIMENSIONS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PARENT_DISCIPLINE_WEIGHT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PUBLICATION_CAP",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "REVIEWER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SIBLING_DISCIPLINE_WEIGHT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SIMILARITY_CAP",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8[]",
+        name: "expertiseVector",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedDiscipline",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAffiliation",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedScholarId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPublicationCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedReviewCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "addEncryptedReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "dimensions",
+        type: "uint8",
+      },
+    ],
+    name: "addProfileVersion",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "editor",
+        type: "address",
+      },
+    ],
+    name: "assignEditor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "availabilityWindows",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "encrypted",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "from",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "until",
+        type: "uint64",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedFrom",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedUntil",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+    ],
+    name: "completeReview",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+    ],
+    name: "continueMatching",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentProfileVersion",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+    ],
+    name: "deregisterReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedPapers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedTitle",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAbstract",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedDiscipline",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint16",
+        name: "profileVersion",
+        type: "uint16",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "author",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "editor",
+        type: "address",
+      },
+      {
+        internalType: "enum ReviewerRecFHE.PaperStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "statusUpdatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedReviewers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint16",
+        name: "profileVersion",
+        type: "uint16",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedDiscipline",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAffiliation",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedScholarId",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedPublicationCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedReviewCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedActiveReviews",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "enum ReviewerRecFHE.ReviewerStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastActiveAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "finalizeReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum ReviewerRecFHE.DecryptionKind",
+        name: "kind",
+        type: "uint8",
+      },
+    ],
+    name: "getDecryptionRequest",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum ReviewerRecFHE.DecryptionStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "requestedAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+    ],
+    name: "getInvitationStatus",
+    outputs: [
+      {
+        internalType: "enum ReviewerRecFHE.InvitationStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+    ],
+    name: "getInvitations",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "paperIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "enum ReviewerRecFHE.InvitationStatus[]",
+        name: "statuses",
+        type: "uint8[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+    ],
+    name: "getMatchCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+    ],
+    name: "getMatches",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "paperId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "reviewerId",
+            type: "uint256",
+          },
+          {
+            internalType: "euint32",
+            name: "matchScore",
+            type: "bytes32",
+          },
+          {
+            internalType: "bool",
+            name: "isRevealed",
+            type: "bool",
+          },
+          {
+            internalType: "uint32",
+            name: "revealedScore",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct ReviewerRecFHE.MatchResult[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+    ],
+    name: "getMatchingProgress",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "scoredReviewers",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+    ],
+    name: "getPaperConflicts",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "affiliations",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "scholarIds",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+    ],
+    name: "getPaperVector",
+    outputs: [
+      {
+        internalType: "euint8[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "reviewerIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "getReviewerAvailability",
+    outputs: [
+      {
+        internalType: "enum ReviewerRecFHE.Availability[]",
+        name: "availability",
+        type: "uint8[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "lastActiveAt",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "getReviewerIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+    ],
+    name: "getReviewerVector",
+    outputs: [
+      {
+        internalType: "euint8[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+    ],
+    name: "inviteReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxConcurrentReviews",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paperCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "processMatching",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    name: "profileDimensions",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+    ],
+    name: "recordDecision",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "k",
+        type: "uint256",
+      },
+    ],
+    name: "requestMatchingReviewers",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "accept",
+        type: "bool",
+      },
+    ],
+    name: "respondToInvitation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "rank",
+        type: "uint256",
+      },
+    ],
+    name: "revealMatchedReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reviewerCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "from",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "until",
+        type: "uint64",
+      },
+    ],
+    name: "setAvailability",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedFrom",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedUntil",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setEncryptedAvailability",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "cap",
+        type: "uint32",
+      },
+    ],
+    name: "setMaxConcurrentReviews",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "paused",
+        type: "bool",
+      },
+    ],
+    name: "setReviewerPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+    ],
+    name: "startReview",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedTitle",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAbstract",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8[]",
+        name: "keywordVector",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedDiscipline",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "authorAffiliations",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "conflictIds",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedPaper",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reviewerId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8[]",
+        name: "expertiseVector",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedDiscipline",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAffiliation",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedScholarId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPublicationCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateEncryptedReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "paperId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawPaper",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620001eb575f606062000018620002a2565b8281528260208201528284820152015262000032620002a2565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918286820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055600363ffffffff1960045416176004556200016433620001ef565b60025461ffff90600182821601828111620001d7578216809161ffff1916176002555f526003602052815f20601060ff19825416179055600254167f25b743bef2375af49eaa3c9e501fbd1371df183abc50e88c17c77a17fc1e98fa6020835160108152a251615ff89081620002d78239f35b634e487b7160e01b5f52601160045260245ffd5b5f80fd5b6001600160a01b03165f8181527f0aff7cefb2ce146fd1cbd74cad231288f4db990e9cc645efb7895300a0b5ba4d60205260409020547fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775919060ff1615156001146200029e57815f52601160205260405f20815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4565b5050565b60405190608082016001600160401b03811183821017620002c257604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063072eb496146103e05780630bb042d8146103db5780630bedccd2146102f55780630d3db462146103d6578063124c4d0f146103d15780631a3034cd146103cc5780631aff2348146103c75780631b2ae374146103c25780631d067f95146103bd5780632731693e146103b85780632f2ff15d146103b357806331c2ee9a146103ae5780633b129a56146103a95780633ec85e7d146103a45780633ef6bcac1461039f57806340cce2d41461039a57806341d032301461031857806346b020011461034f5780634e75af411461039557806356da77f1146103905780635ca605e91461038b5780635e6189e7146103865780635ed7e7a31461038157806361a4e41a1461037c57806366fc78021461037757806375b238fc1461037257806376b79a1e1461036d57806379af1719146103685780638330979d1461033b5780638415877f14610363578063884de1f81461035e5780638fb251f61461035957806390028b631461035457806390a274061461034f57806391d148541461034a578063952cf946146103455780639ce3b2cb146103405780639f9e48d61461033b578063a09621c714610336578063a263ffac14610331578063a56c2cb91461032c578063a853211a14610327578063a85e4c3a14610322578063af6d71421461031d578063bc32e2a814610318578063be8c91fb14610313578063bfccdd431461030e578063c116939714610309578063c3271a6414610304578063c36802e5146102ff578063c7eeb183146102fa578063cb44c000146102f5578063cfbaaac3146102f0578063d37aec81146102eb578063d547741f146102e6578063d57bc277146102e1578063da1f12ab146102dc578063e60d585a146102d7578063ea7c39b6146102d2578063ef559eaf146102cd578063f0112a14146102c85763f836f581146102c3575f80fd5b612a46565b612a06565b61295c565b612909565b612855565b6127c9565b6127a8565b6126f3565b6125d1565b61258a565b6105da565b612514565b612308565b6122ed565b61226b565b61212b565b612087565b610bb3565b61201f565b611f95565b611f5b565b611f3f565b611bf8565b611b25565b611354565b611a7c565b611a61565b611a13565b610bce565b61194a565b61183d565b611690565b611379565b6112e0565b61127b565b611241565b611124565b6110c8565b610fba565b610f0e565b610e59565b610d02565b610be9565b610b55565b610b32565b610ab0565b610a05565b610922565b6108f6565b610846565b61082a565b610798565b6106d7565b610648565b61062d565b6105f4565b610410565b6103f3565b5f9103126103ef57565b5f80fd5b346103ef575f3660031901126103ef576020600154604051908152f35b346103ef5760403660031901126103ef5760043560243561042f613998565b811515806105cf575b61044190612b8c565b801515806105c4575b61045390612bcb565b6001916104636001541515612c03565b60ff6007610479835f52600560205260405f2090565b0180546001600160a01b039161049c91831615610589575b549182163314612c48565b60a01c16916104aa836124ad565b6104b76002841115612c8d565b6104c082613a46565b6104d2825f52600b60205260405f2090565b926104dc816124ad565b1561057b575b60028301805460ff191660011790558060018401556105018360019055565b60088301600384015f5b838110610543576105418686807f87945d97968473d5e05683f28d2b9291347eccb3a170b092b348ea151c945b825f80a2613c4a565b005b8690610560610550614782565b61055a8386612ced565b90612d01565b61057561056b614782565b61055a8387612ced565b0161050b565b61058482613aec565b6104e2565b80546001600160a01b0319163317815533857f0942673912a275ef90a0e24063de2998b854c15903f7b07ea9d88d1d09f0192b5f80a3610491565b50600581111561044a565b505f54821115610438565b346103ef575f3660031901126103ef576020604051818152f35b346103ef5760203660031901126103ef5760043561ffff81168091036103ef575f526003602052602060ff60405f205416604051908152f35b346103ef575f3660031901126103ef57602060405160088152f35b346103ef5760203660031901126103ef5760043561066581613ec3565b805f52600560205260ff600760405f20015460a01c1660068110156106d2576002036106945761054190613b32565b60405162461bcd60e51b815260206004820152601660248201527514995d9a595dd95c9cc81b9bdd08185cdcda59db995960521b6044820152606490fd5b610a2c565b346103ef5760203660031901126103ef576004355f52600a60205260a060405f208054906001600160401b039060026001820154910154916040519360ff811615158552818160081c16602086015260481c16604084015260608301526080820152f35b9181601f840112156103ef578235916001600160401b0383116103ef576020808501948460051b0101116103ef57565b9181601f840112156103ef578235916001600160401b0383116103ef57602083818601950101116103ef57565b346103ef5760e03660031901126103ef576001600160401b036044358181116103ef576107c990369060040161073b565b6084358381116103ef576107e190369060040161073b565b9060a4358581116103ef576107fa90369060040161073b565b92909160c4359687116103ef5761081861054197369060040161076b565b96909560643591602435600435612d1e565b346103ef575f3660031901126103ef57602060405161ffff8152f35b346103ef5760203660031901126103ef5760043561086381613ec3565b805f52600b60205260405f2060ff600282015416156108855761054191613c4a565b60405162461bcd60e51b815260206004820152601760248201527f4e6f206d61746368696e6720696e2070726f67726573730000000000000000006044820152606490fd5b602435906001600160a01b03821682036103ef57565b600435906001600160a01b03821682036103ef57565b346103ef5760403660031901126103ef576105416109126108ca565b61091a6139d4565b600435614088565b346103ef5760803660031901126103ef576004356064356001600160401b0381116103ef576109c461095b6109cc92369060040161076b565b6109678593929361418b565b60026109b76109af610978886141ea565b80546001600160881b0319166001178155956109a06109983687846115ea565b602435614f74565b946001880195865536916115ea565b604435614f74565b9301928355543390613ee4565b339054613ee4565b7f21953f9da7519a3d19c41ab2179fa3809575771774e6fef45782fa51a11a1eef6060604051600181525f60208201525f6040820152a2005b346103ef575f3660031901126103ef5760206040515f80516020615fac8339815191528152f35b634e487b7160e01b5f52602160045260245ffd5b600311156106d257565b98959261ffff6101609b9895929e9d9c9996936101808c019f8c521660208b015260408a01526060890152608088015260a087015260c086015260e085015260018060a01b0316610100840152610aa081610a40565b6101208301526101408201520152565b346103ef5760203660031901126103ef576004355f52600660205260405f208054610b2e61ffff6001840154169160028401549360038101549160048201549060058301546006840154600785015491600886015494600a6009880154970154976040519b8c9b60ff8960a01c169860018060a01b0316978d610a4a565b0390f35b346103ef575f3660031901126103ef57602063ffffffff60045416604051908152f35b346103ef5760203660031901126103ef576004355f52600b60205260405f2060ff60028201541690549081155f14610b9b57604091505f5b825191151582526020820152f35b5f198201918211610bae57604091610b8d565b613036565b346103ef575f3660031901126103ef57602060405160058152f35b346103ef575f3660031901126103ef576020604051600f8152f35b346103ef5760403660031901126103ef57602435600435610c0981613ec3565b805f526012602052610c446002610c35610c2e8560405f20905f5260205260405f2090565b5460ff1690565b610c3e81611ab6565b146131bd565b610c77610c6a83610c5d845f52601260205260405f2090565b905f5260205260405f2090565b805460ff19166004179055565b610cdc610c8c835f52600660205260405f2090565b610cc760078201610c9d8154614223565b8155610ccd60086006850192610cb384546142b4565b845554940180549094906001600160a01b03165b90613ee4565b5491546001600160a01b031690565b7fb389ae8814638c1b4372b4841418ca0262f4e9b76e3b4a73234cf197392288e65f80a3005b346103ef5760403660031901126103ef57600435610d1e6108ca565b610d266139d4565b81151580610e4e575b610d3890612b8c565b7f21d1167972f621f75904fb065136bc8b53c7ba1c60ccd3a7758fbee465851e9c5f526011602052610da6610da1610c2e837f81a806f15e5b33d8b55069b2dfda074d62f87cab9eaff92856c35e7dfbc718325b9060018060a01b03165f5260205260405f2090565b61321a565b610dde816007610dbe855f52600560205260405f2090565b0180546001600160a01b0319166001600160a01b03909216919091179055565b610df0825f52600c60205260405f2090565b5f5b8154811015610e1c5780610e16846002610e0e60019587613256565b50015461512f565b01610df2565b50506001600160a01b0316907f0942673912a275ef90a0e24063de2998b854c15903f7b07ea9d88d1d09f0192b5f80a3005b505f54821115610d2f565b346103ef5760203660031901126103ef576004355f818152600560205260409020600601546001600160a01b03163303610ed05780610ea9610ea4610ea06105419461432c565b1590565b61326f565b610ecb6002610ec0835f52600b60205260405f2090565b01805460ff19169055565b613b78565b60405162461bcd60e51b81526020600482015260166024820152752737ba103a3432903830b832b913b99030baba3437b960511b6044820152606490fd5b346103ef575f3660031901126103ef576020604051600a8152f35b9081518082526020808093019301915f5b828110610f48575050505090565b835185529381019392810192600101610f3a565b909291604082019160408152845180935260608101926020809601905f5b818110610f9a57505050610f979394506020818403910152610f29565b90565b90919487806001928851610fad81610a40565b8152019601929101610f7a565b346103ef5760203660031901126103ef576004356001600160401b0381116103ef57610fea90369060040161073b565b90610ff4826132c1565b90610ffe836132c1565b925f5b81811061101a57505050610b2e60405192839283610f5c565b80600a61103c61102d6001948688613152565b355f52600660205260405f2090565b01546110488288613300565b52611060610ea061105a838688613152565b35614361565b15611078575f6110708287613300565b525b01611001565b611098610c2e611089838688613152565b355f52600a60205260405f2090565b156110b5576110b06110aa8287613300565b60029052565b611072565b6110b06110c28287613300565b60019052565b346103ef5760203660031901126103ef576004355f52600760205261111660405f20610b2e61110260016110fb84613314565b9301613314565b604051938493604085526040850190610f29565b908382036020850152610f29565b346103ef5760203660031901126103ef5760043560ff81168082036103ef5761114b6139d4565b60088110159081611235575b508061121b575b611167906143f2565b61119161117f61117a60025461ffff1690565b614433565b61ffff1661ffff196002541617600255565b6111c6816111b76111a560025461ffff1690565b61ffff165f52600360205260405f2090565b9060ff1660ff19825416179055565b7f25b743bef2375af49eaa3c9e501fbd1371df183abc50e88c17c77a17fc1e98fa6112166112016111fa60025461ffff1690565b61ffff1690565b60405160ff9094168452929081906020820190565b0390a2005b5061116760ff61122a836143e0565b83161615905061115e565b6020915011155f611157565b346103ef575f3660031901126103ef5760206040517fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c217758152f35b346103ef5760203660031901126103ef576004355f52600c602052602060405f2054604051908152f35b60209060206040818301928281528551809452019301915f5b8281106112cc575050505090565b8351855293810193928101926001016112be565b346103ef576020806003193601126103ef576004355f52600860205260405f20906040519081602084549182815201935f5260205f20915f905b82821061133d57610b2e856113318189038261156d565b604051918291826112a5565b83548652948501946001938401939091019061131a565b346103ef575f3660031901126103ef576020604051601e8152f35b801515036103ef57565b346103ef5760603660031901126103ef576024356004357f96cfb7047997c347904993c016696593e80609bc62d0502e6e55cc5741713dd761148d6044356113c08161136f565b6113d2855f52600660205260405f2090565b6008810180546114379060029060ff906114236001611414610c2e8e610c5d8f6114066001600160a01b0389163314613362565b5f52601260205260405f2090565b61141d81611ab6565b146133ae565b60a01c1661143081610a40565b14156133f2565b611446610ea4610ea08861432c565b42600a8301558215611500578261147460025b61146f8a610c5d8b5f52601260205260405f2090565b613202565b611492575b505060405190151581529081906020820190565b0390a3005b610cc760076114b89301916114a783546142b4565b92839055546001600160a01b031690565b60016114dc60076114d1875f52600560205260405f2090565b015460a01c60ff1690565b6114e5816124ad565b146114f2575b5f80611479565b6114fb84613bbe565b6114eb565b826114746003611459565b634e487b7160e01b5f52604160045260245ffd5b60a081019081106001600160401b0382111761153a57604052565b61150b565b604081019081106001600160401b0382111761153a57604052565b6001600160401b03811161153a57604052565b90601f801991011681019081106001600160401b0382111761153a57604052565b6040519061159b8261151f565b565b6040519061159b8261153f565b6040519061014082018281106001600160401b0382111761153a57604052565b6040519061018082018281106001600160401b0382111761153a57604052565b9291926001600160401b03821161153a5760405191611613601f8201601f19166020018461156d565b8294818452818301116103ef578281602093845f960137010152565b9080601f830112156103ef57816020610f97933591016115ea565b60606003198201126103ef57600435916001600160401b036024358181116103ef57836116799160040161162f565b926044359182116103ef57610f979160040161162f565b346103ef576116f56116a13661164a565b816116b7849593945f52600d60205260405f2090565b54946116c4861515613435565b5f818152600d60205260408120556116e4865f52601060205260405f2090565b6116ee81546131af565b9055614446565b611707825f52600b60205260405f2090565b9061172d600761171f855f52600560205260405f2090565b01546001600160a01b031690565b91611748611743855f52600c60205260405f2090565b613473565b6001915f916003810191908401845b6117a4575b867f01bb6fe414013aab28df20ba6a9b85fec4c8d52bc97314bf233d146cf7022abc611216611793835f52600c60205260405f2090565b546040519081529081906020820190565b8054841015611838576117b78483614576565b8015611832578461182b8796926117e58a6117e06117d68b978b612ced565b90549060031b1c90565b61512f565b6117f78b5f52600c60205260405f2090565b6118046117d6858a612ced565b61180c61158e565b928d8452602084015260408301525f60608301525f60808301526134cc565b0193611757565b5061175c565b61175c565b346103ef5760403660031901126103ef5761054160243560043561186081613ec3565b61186981613a46565b61188661187e825f52600c60205260405f2090565b541515613563565b6118a361189b825f52600c60205260405f2090565b5483106135a0565b6119456119106118c4846118bf855f52600c60205260405f2090565b613256565b506118de6118d9610ea0600384015460ff1690565b6135db565b6118f46118ef6001830154866145a8565b61361a565b60026118fe613666565b91015461190a826132f3565b5261537b565b9261191961159d565b908382526020820152611934845f52600e60205260405f2090565b906020600191805184550151910155565b6145ea565b346103ef5760403660031901126103ef576004357fa9b458024b3617d27b56ba91a60677d4ada0fd331c3419e2bc891e1d0ba9df666112166119f26024356119918161136f565b61199a8561418b565b845f5260066020526119f760405f20916008830160ff815460a01c16916119c083610a40565b6119cd60028414156133f2565b15611a09576001948580935b6119e282610a40565b6119eb81610a40565b1415613680565b6136bf565b600a42910155604051918291826136e6565b5f948580936119d9565b346103ef5760403660031901126103ef57602060ff611a55611a336108ca565b6004355f526011845260405f209060018060a01b03165f5260205260405f2090565b54166040519015158152f35b346103ef575f3660031901126103ef57602060405160198152f35b346103ef575f3660031901126103ef5760206040517f518c0194402466e4c42f66eff36bbae4f19f671b0111691aa796b0a70054d12e8152f35b600511156106d257565b9060058210156106d25752565b90611ae090604083526040830190610f29565b8181036020928301528251808252908201928201915f5b828110611b05575050505090565b90919293828082611b196001948951611ac0565b01950193929101611af7565b346103ef576020806003193601126103ef5760043590815f52601360205260405f209060405180928391602082549182815201915f5260205f20935f905b828210611bde57505050611b799250038261156d565b611b8381516132c1565b915f5b8251811015611bcd5780611bc7611bb8610c2e85610c5d611ba96001978a613300565b515f52601260205260405f2090565b611bc28388613300565b6136f9565b01611b86565b5050610b2e60405192839283611acd565b855484526001958601958795509381019390910190611b63565b346103ef5760e03660031901126103ef576001600160401b036004358181116103ef57611c2990369060040161073b565b60c4929192359182116103ef57611e2f611c4a611e5b93369060040161076b565b335f9081527f81a806f15e5b33d8b55069b2dfda074d62f87cab9eaff92856c35e7dfbc718326020526040902090939190611c8490610c2e565b8015611ef2575b611c9490613705565b611cba611cb3611cad610c2e6111a560025461ffff1690565b60ff1690565b8314612ff4565b611ccd611cc860015461304a565b600155565b60015495611cdf6109983687856115ea565b92611d4e611cf16109af3689876115ea565b96611d08611d003683886115ea565b606435614f74565b94611d1f611d173684846115ea565b608435614f74565b93611d36611d2e3685856115ea565b60a435614f74565b95611d498d5f52600960205260405f2090565b613ef3565b611d583385613ee4565b611d623387613ee4565b611d6c3384613ee4565b611d763382613ee4565b611d803383613ee4565b611d88614782565b92611d933385613ee4565b60025461ffff165f80516020615fac8339815191525f52601160205296611ddd610c2e337f7b14f9e5133cb7fac4a26b9053856a69014b48146ab85959b8cbe45d628ad5b7610d8c565b15611eeb5733955b611e00611df06115ca565b8c815261ffff909a1660208b0152565b60408901526060880152608087015260a086015260c085015260e08401526001600160a01b0316610100830152565b5f6101208201524261014082015242610160820152611e56835f52600660205260405f2090565b613740565b5f80516020615fac8339815191525f526011602052611e9d610c2e337f7b14f9e5133cb7fac4a26b9053856a69014b48146ab85959b8cbe45d628ad5b7610d8c565b611ec8575b7fa8950d330123ed1f1a2ba893d267ac43675dae4fcbfbeb6e4d3f565e47547d485f80a2005b335f908152601460205260409020611ee6908290613177565b613177565b611ea2565b5f95611de5565b505f80516020615fac8339815191525f526011602052611c94611f38610c2e337f7b14f9e5133cb7fac4a26b9053856a69014b48146ab85959b8cbe45d628ad5b7610d8c565b9050611c8b565b346103ef575f3660031901126103ef5760205f54604051908152f35b346103ef575f3660031901126103ef5760206040517f21d1167972f621f75904fb065136bc8b53c7ba1c60ccd3a7758fbee465851e9c8152f35b346103ef5760203660031901126103ef57600435611fb281613ec3565b805f52600560205260ff600760405f20015460a01c1660068110156106d257600303611fe15761054190613c04565b60405162461bcd60e51b81526020600482015260166024820152755061706572206e6f7420756e6465722072657669657760501b6044820152606490fd5b346103ef576020806003193601126103ef576004355f52600960205260405f20906040519081602084549182815201935f5260205f20915f905b82821061207057610b2e856113318189038261156d565b835486529485019460019384019390910190612059565b346103ef5760203660031901126103ef576004356120a48161418b565b805f52600660205260405f206008810180546120cb600260ff8360a01c1661143081610a40565b60ff60a01b1916600160a11b17905542600a91909101555f8181526009602052604090206120f8906137f1565b604051600281527fa9b458024b3617d27b56ba91a60677d4ada0fd331c3419e2bc891e1d0ba9df66908060208101611216565b346103ef5761219461213c3661164a565b825f94929452600e6020528361215460405f20613821565b9361216185511515613435565b612181612176825f52600e60205260405f2090565b60015f918281550155565b6116e485515f52601060205260405f2090565b7f7705e9618207ff00e3c4b120f38e39e3e1d9f80ab2565fd1dd7bb72a11d7b2596121c882515f52600c60205260405f2090565b9261223d60016121de6020860196875190613256565b509461222961220d61220460038901966121ff88600160ff19825416179055565b61452a565b63ffffffff1690565b855464ffffffff00191660089190911b64ffffffff0016178555565b519401549451915460081c63ffffffff1690565b6040805192835263ffffffff90911660208301528190810161148d565b906020610f97928181520190610f29565b346103ef576020806003193601126103ef576001600160a01b0361228d6108e0565b165f52601460205260405f20906040519081602084549182815201935f5260205f20915f905b8282106122d657610b2e856122ca8189038261156d565b6040519182918261225a565b8354865294850194600193840193909101906122b3565b346103ef575f3660031901126103ef57602060405160288152f35b346103ef5760e03660031901126103ef576004356001600160401b036024358181116103ef5761233c90369060040161073b565b60c4929192359182116103ef5761235a61244892369060040161076b565b916123648661418b565b612376865f52600660205260405f2090565b94612397600261238e600889015460ff9060a01c1690565b61143081610a40565b6123b0611cb3611cad610c2e6111a560025461ffff1690565b61241c866109c4866109c46123c96109af36848b6115ea565b600285019081556109c46123e1611d0036868d6115ea565b9160038701928355600561240f611d2e8d612400611d17368b846115ea565b9860048c01998a5536916115ea565b9701968755543390613ee4565b612436612431885f52600960205260405f2090565b6137f1565b611d49875f52600960205260405f2090565b61246d61245860025461ffff1690565b600183019061ffff1661ffff19825416179055565b426009820155600a429101557f1600379e357f2c0f1b6de6f95370d38091066571f1414a30b13530eb1ddd35106040518061121642829190602083019252565b600611156106d257565b969593909a99989794919261ffff9361014089019c895260208901526040880152606087015216608085015260a084015260018060a01b0380921660c08401521660e082015260068210156106d257610120916101008201520152565b346103ef5760203660031901126103ef576004355f52600560205260405f208054610b2e60018301549260028101549060038101549361ffff60048301541694600583015460018060a01b0396876006860154169260086007870154960154966040519a8b9a60ff8960a01c169816968b6124b7565b346103ef575f3660031901126103ef57602060405160038152f35b602435906001600160401b03821682036103ef57565b604435906001600160401b03821682036103ef57565b346103ef5760603660031901126103ef576004356125ed6125a5565b6125f56125bb565b6125fe8361418b565b6001600160401b0380821680159182156126e6575b5050156126b0577f21953f9da7519a3d19c41ab2179fa3809575771774e6fef45782fa51a11a1eef9161268782612649866141ea565b80546001600160881b03191668ffffffffffffffff00600886901b161760489290921b70ffffffffffffffff00000000000000000016919091179055565b604080515f81526001600160401b03928316602082015292909116908201528060608101611216565b60405162461bcd60e51b815260206004820152600e60248201526d496e76616c69642077696e646f7760901b6044820152606490fd5b8416111590505f80612613565b346103ef5760403660031901126103ef5760043561270f6108ca565b6127176139d4565b7fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c217758214801590612795575b156127505761054191614111565b60405162461bcd60e51b815260206004820152601c60248201527f43616e6e6f74207265766f6b65206f776e2061646d696e20726f6c65000000006044820152606490fd5b506001600160a01b038116331415612742565b346103ef575f3660031901126103ef57602061ffff60025416604051908152f35b346103ef575f3660031901126103ef5760206040516127118152f35b60208082019080835283518092528060408094019401925f905b83821061280e57505050505090565b8451805187528084015187850152808201518783015260608082015115159088015260809081015163ffffffff169087015260a090950194938201936001909101906127ff565b346103ef576020806003193601126103ef576004906004355f52600c815260409160405f20805492612886846132aa565b94612894604051968761156d565b8486525f928352818320908287015b8685106128b85760405180610b2e8a826127e5565b858460019284516128c88161151f565b86548152848701548382015260028701548682015263ffffffff600388015460ff81161515606084015260081c1660808201528152019301940193916128a3565b346103ef5760403660031901126103ef5760243560028110156103ef576001600160401b0361293c60609260043561383f565b9060409392935193845261294f81610a40565b6020840152166040820152f35b346103ef5760203660031901126103ef5760043563ffffffff81168082036103ef576129866139d4565b80156129d3576004805463ffffffff191691909117905560405163ffffffff9190911681527f7eda9d5e2e3089f53a62e3500c7fa8002e28a10dbaa23e98209388e2635a4c3690602090a1005b60405162461bcd60e51b815260206004820152600b60248201526a0496e76616c6964206361760ac1b6044820152606490fd5b346103ef5760403660031901126103ef576004355f52601260205260405f206024355f52602052602060ff60405f205416612a446040518092611ac0565bf35b346103ef5760403660031901126103ef57602435600435612a6681613ec3565b612a78612a728261432c565b1561326f565b612a82828261471f565b15612b4e57612ab060018060a01b03612aa8600861171f865f52600660205260405f2090565b1615156138c9565b612ac1612abc83614361565b613915565b612aec612add610c2e84610c5d855f52601260205260405f2090565b612ae681611ab6565b1561395a565b612b12612b0583610c5d845f52601260205260405f2090565b805460ff19166001179055565b612b2881611ee1845f52601360205260405f2090565b7f1cf9f91c5385216e4068d726ab4e8796b6b6235aa4b370fdd70d36a786eb01dd5f80a3005b60405162461bcd60e51b81526020600482015260166024820152752737ba10309036b0ba31b432b2103932bb34b2bbb2b960511b6044820152606490fd5b15612b9357565b60405162461bcd60e51b815260206004820152601060248201526f125b9d985b1a59081c185c195c88125160821b6044820152606490fd5b15612bd257565b60405162461bcd60e51b8152602060048201526009602482015268496e76616c6964206b60b81b6044820152606490fd5b15612c0a57565b60405162461bcd60e51b81526020600482015260166024820152754e6f2072657669657765727320617661696c61626c6560501b6044820152606490fd5b15612c4f57565b60405162461bcd60e51b81526020600482015260166024820152752737ba103a3432903830b832b913b99032b234ba37b960511b6044820152606490fd5b15612c9457565b60405162461bcd60e51b815260206004820152601b60248201527f5061706572206e6f74206f70656e20666f72206d61746368696e6700000000006044820152606490fd5b634e487b7160e01b5f52603260045260245ffd5b6005821015612cfc5701905f90565b612cd9565b91612d1a9183549060031b91821b915f19901b19161790565b9055565b999598949391979697929092612d32613a0d565b612d3f60038b1115612f6c565b612d4c6005891115612fb0565b60025461ffff165f90815260036020526040902054612d6f9060ff168314612ff4565b86865f54612d7c9061304a565b9c8d5f5536612d8c9084846115ea565b612d9591614f74565b95612da13684846115ea565b612daa91614f74565b94612db63684846115ea565b612dbf91614f74565b93612dca3388613ee4565b612dd43387613ee4565b8d612ddf3387613ee4565b612df1905f52600860205260405f2090565b93612dfb94613ef3565b60025461ffff1691612e0b6115aa565b8b815260208101949094526040840152606083015261ffff1660808201524260a08201523360c082015260e081015f905261010081015f905242610120820152612e5d885f52600560205260405f2090565b90612e6791613089565b612e79875f52600760205260405f2090565b955f5b818110612f30575050505f926001809601935b818110612ef55750505050505050807feb140266f51281ef96c9d87d41114a04ab626d3597e3381bbe46ba175551b56760405180612ed242829190602083019252565b0390a2604080515f81524260208201525f80516020615f8c8339815191529190a2565b80612f2a612f1a612f088a94868b613152565b35612f143689896115ea565b90614f74565b612f243382613ee4565b87613177565b01612e8f565b80612f63612f53612f4760019486889c9b9c613152565b35612f14368a8a6115ea565b612f5d3382613ee4565b8a613177565b01959495612e7c565b15612f7357565b60405162461bcd60e51b8152602060048201526015602482015274546f6f206d616e7920616666696c696174696f6e7360581b6044820152606490fd5b15612fb757565b60405162461bcd60e51b8152602060048201526015602482015274546f6f206d616e7920636f6e666c6963742049447360581b6044820152606490fd5b15612ffb57565b60405162461bcd60e51b81526020600482015260136024820152720aee4dedcce40eccac6e8dee440d8cadccee8d606b1b6044820152606490fd5b634e487b7160e01b5f52601160045260245ffd5b9060018201809211610bae57565b91908201809211610bae57565b9060068110156106d257815460ff60a01b191660a09190911b60ff60a01b16179055565b90610120600891805184556020810151600185015560408101516002850155606081015160038501556130d96130c4608083015161ffff1690565b600486019061ffff1661ffff19825416179055565b60a0810151600585015560c08101516006850180546001600160a01b0319166001600160a01b0392831617905560e082015161314b91600787019161313691165b82546001600160a01b0319166001600160a01b03909116178255565b61010083015190613146826124ad565b613065565b0151910155565b9190811015612cfc5760051b0190565b8054821015612cfc575f5260205f2001905f90565b805490600160401b82101561153a5781613199916001612d1a94018155613162565b819391549060031b91821b915f19901b19161790565b5f19810191908211610bae57565b156131c457565b60405162461bcd60e51b8152602060048201526016602482015275526576696577206e6f7420696e2070726f677265737360501b6044820152606490fd5b9060058110156106d25760ff80198354169116179055565b1561322157565b60405162461bcd60e51b815260206004820152600d60248201526c2737ba1030b71032b234ba37b960991b6044820152606490fd5b8054821015612cfc575f5260205f209060021b01905f90565b1561327657565b60405162461bcd60e51b815260206004820152600c60248201526b14185c195c8818db1bdcd95960a21b6044820152606490fd5b6001600160401b03811161153a5760051b60200190565b906132cb826132aa565b6132d8604051918261156d565b82815280926132e9601f19916132aa565b0190602036910137565b805115612cfc5760200190565b8051821015612cfc5760209160051b010190565b90604051918281549182825260209260208301915f5260205f20935f905b8282106133485750505061159b9250038361156d565b855484526001958601958895509381019390910190613332565b1561336957565b60405162461bcd60e51b815260206004820152601860248201527f4e6f742074686520696e766974656420726576696577657200000000000000006044820152606490fd5b156133b557565b60405162461bcd60e51b81526020600482015260156024820152742737903832b73234b7339034b73b34ba30ba34b7b760591b6044820152606490fd5b156133f957565b60405162461bcd60e51b8152602060048201526014602482015273141c9bd99a5b194819195c9959da5cdd195c995960621b6044820152606490fd5b1561343c57565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b8054905f815581613482575050565b6002906001600160fe1b0383168303610bae575f5260205f209160021b8201915b8281106134af57505050565b805f600492555f60018201555f838201555f6003820155016134a3565b8054600160401b81101561153a576134e991600182018155613256565b9190916135505763ffffffff6080600361159b94845181556020850151600182015560408501516002820155019261353360608201511515859060ff801983541691151516179055565b0151825464ffffffff001916911660081b64ffffffff0016179055565b634e487b7160e01b5f525f60045260245ffd5b1561356a57565b60405162461bcd60e51b815260206004820152600e60248201526d139bc81b585d18da08199bdd5b9960921b6044820152606490fd5b156135a757565b60405162461bcd60e51b815260206004820152600c60248201526b496e76616c69642072616e6b60a01b6044820152606490fd5b156135e257565b60405162461bcd60e51b815260206004820152601060248201526f105b1c9958591e481c995d99585b195960821b6044820152606490fd5b1561362157565b60405162461bcd60e51b815260206004820152601a60248201527f526576696577657220686173206e6f7420636f6e73656e7465640000000000006044820152606490fd5b604051906136738261153f565b6001825260203681840137565b1561368757565b60405162461bcd60e51b815260206004820152601060248201526f14dd185d1d5cc81d5b98da185b99d95960821b6044820152606490fd5b90612d1a906136cd81610a40565b825460ff60a01b191660a09190911b60ff60a01b161790565b919060208301926136f682610a40565b52565b60058210156106d25752565b1561370c57565b60405162461bcd60e51b815260206004820152600c60248201526b4d697373696e6720726f6c6560a01b6044820152606490fd5b90610160600a918051845561377261375d602083015161ffff1690565b600186019061ffff1661ffff19825416179055565b60408101516002850155606081015160038501556080810151600485015560a0810151600585015560c0810151600685015560e081015160078501556101008101516137df9060088601906137cf906001600160a01b031661311a565b610120830151906119f282610a40565b61014081015160098501550151910155565b8054905f815581613800575050565b5f5260205f20908101905b818110613816575050565b5f815560010161380b565b9060405161382e8161153f565b602060018294805484520154910152565b5f52600f60205260405f2060028210156106d257815f5260205260405f20916001600160401b036001840154169182156138be576138a25761388a83545f52600d60205260405f2090565b541515925b54921561389c5760019190565b60029190565b6138b583545f52600e60205260405f2090565b5415159261388f565b505f92508291508190565b156138d057565b60405162461bcd60e51b815260206004820152601c60248201527f52657669657765722063616e6e6f7420626520636f6e746163746564000000006044820152606490fd5b1561391c57565b60405162461bcd60e51b81526020600482015260166024820152755265766965776572206e6f7420617661696c61626c6560501b6044820152606490fd5b1561396157565b60405162461bcd60e51b815260206004820152600f60248201526e105b1c9958591e481a5b9d9a5d1959608a1b6044820152606490fd5b335f9081527f81a806f15e5b33d8b55069b2dfda074d62f87cab9eaff92856c35e7dfbc718326020526040902061159b9060ff905b5416613705565b335f9081527f0aff7cefb2ce146fd1cbd74cad231288f4db990e9cc645efb7895300a0b5ba4d6020526040902061159b9060ff906139cd565b335f9081527f7df3edf990ff76937a6e45ede4fe014f85a42d30fc5b86f088d88be4edbb37c66020526040902061159b9060ff906139cd565b805f52600b60205260ff600260405f20015416613ab057613a6f905f52601060205260405f2090565b54613a7657565b60405162461bcd60e51b815260206004820152601260248201527144656372797074696f6e2070656e64696e6760701b6044820152606490fd5b60405162461bcd60e51b81526020600482015260146024820152734d61746368696e6720696e2070726f677265737360601b6044820152606490fd5b805f52600560205260405f2060078101600160a01b60ff60a01b198254161790556008429101555f80516020615f8c8339815191526040805160018152426020820152a2565b805f52600560205260405f2060078101600360a01b60ff60a01b198254161790556008429101555f80516020615f8c8339815191526040805160038152426020820152a2565b805f52600560205260405f2060078101600560a01b60ff60a01b198254161790556008429101555f80516020615f8c8339815191526040805160058152426020820152a2565b805f52600560205260405f2060078101600160a11b60ff60a01b198254161790556008429101555f80516020615f8c8339815191526040805160028152426020820152a2565b805f52600560205260405f2060078101600160a21b60ff60a01b198254161790556008429101555f80516020615f8c8339815191526040805160048152426020820152a2565b90613c5d825f52600560205260405f2090565b613c6f835f52600760205260405f2090565b90613c82845f52600860205260405f2090565b90600180938186015493613c9687546131af565b935f935b613da1575b50505050825f5b838110613d6c575050613cb88161304a565b845560405181815285907f43d60104a2e9a02d2048217242070121b02237895950410b23b9d29abbeceac990602090a2825414613cf6575b50505050565b60028301805460ff19169055613d0b816132c1565b925f5b828110613d49575050505090613d26613d40926154ce565b9080613d3a835f52600d60205260405f2090565b55614685565b5f808080613cf0565b80613d5b6117d6869360088601612ced565b613d658288613300565b5201613d0e565b613d84613d7f6117d68360038a01612ced565b614ec7565b50613d98613d7f6117d68360088a01612ced565b50018390613ca6565b909192938654811015613ebd5786613dc3610ea0613dbe8461304a565b614361565b613eac57613de1613dd38361304a565b5f52600960205260405f2090565b95845487548082115f14613ea45750905b80151580613e91575b613e8857613e22613e1b613e15613e6e94613e3b94613058565b9561304a565b98876149ff565b613e34895f52600660205260405f2090565b8887614ad7565b613e4d885f52600a60205260405f2090565b805460ff16613e78575b50613e6763ffffffff89166147d4565b908b614d4a565b9392919093613c9a565b90613e8291614c93565b5f613e57565b50505093613c9f565b506020613e9e8383613058565b11613dfb565b905090613df2565b9490613eb79061304a565b94613e6e565b93613c9f565b5f52600560205261159b60018060a01b03600760405f200154163314612c48565b9061159b916117e0308261512f565b93919290925f5b818110613f0957505050505050565b613f14818387613152565b35613f7b613f233687876115ea565b5f80516020615f6c83398151915254909290613f5590613f49906001600160a01b031681565b6001600160a01b031690565b6040938451809263196d0b9b60e01b8252815f81602098899660049933908b8501614f17565b03925af1928315614054575f93614059575b50505f80516020615fcc83398151915254613fb290613f49906001600160a01b031681565b92833b156103ef5751630f8e573b60e21b815290810182815233602082015290925f9184919082908490829060400103925af191821561405457613ffb9261403b575b50615063565b90614006308361512f565b614010338361512f565b865491600160401b83101561153a576140336131998460018096018b558a613162565b905501613efa565b8061404861404e9261155a565b806103e5565b5f613ff5565b614777565b614079929350803d10614081575b614071818361156d565b810190614768565b905f80613f8d565b503d614067565b805f526011602052600160ff6140b18460405f209060018060a01b03165f5260205260405f2090565b541615151461410d576140d082610d8c835f52601160205260405f2090565b805460ff1916600117905533916001600160a01b0316907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4565b5050565b5f8181526011602090815260408083206001600160a01b038616845290915290205460ff161561410d5761415182610d8c835f52601160205260405f2090565b805460ff1916905533916001600160a01b0316907ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4565b5f908152600660205260409020600801546001600160a01b031633036141ad57565b60405162461bcd60e51b81526020600482015260156024820152742737ba103a343290383937b334b6329037bbb732b960591b6044820152606490fd5b805f52600660205260405f2061420f600260ff600884015460a01c1661143081610a40565b600a429101555f52600a60205260405f2090565b80156142a0575b5f80516020615f6c833981519152546040516303056db360e31b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115614054575f91614287575090565b610f97915060203d60201161408157614071818361156d565b505f60206142ac614782565b91505061422a565b8015614318575b5f80516020615f6c8339815191525460405163022f65e760e31b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115614054575f91614287575090565b505f6020614324614782565b9150506142bb565b5f52600560205260ff600760405f20015460a01c1660068110156106d25760048114908115614359575090565b600591501490565b805f52600660205260ff600860405f20015460a01c1661438081610a40565b6143db57614396905f52600a60205260405f2090565b5460ff81166143d5576001600160401b0342818360081c16111591826143bb57505090565b60481c168015915081156143cd575090565b905042111590565b50600190565b505f90565b60ff5f199116019060ff8211610bae57565b156143f957565b60405162461bcd60e51b8152602060048201526012602482015271496e76616c69642064696d656e73696f6e7360701b6044820152606490fd5b90600161ffff80931601918211610bae57565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f20541561451857845f5260205260405f206040519182602083549182815201925f5260205f20915f905b828210614501575050505091816144c06144c59593610ea095038261156d565b615233565b6144ef577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b8354855293840193600193840193909101906144a0565b60405163d66ca67560e01b8152600490fd5b602081511061453a576020015190565b60405162461bcd60e51b81526020600482015260146024820152734d616c666f726d656420636c656172746578747360601b6044820152606490fd5b80516001830190818411610bae578160051b9180830460201490151715610bae571061453a5760209160051b01015190565b5f52601260205260405f20905f5260205260ff60405f20541660058110156106d257600281149081156145d9575090565b600491506145e681611ab6565b1490565b6040516001600160401b036145fe8261153f565b838252600160208301928242168452845f52600f60205260405f20825f5260205260405f2090518155019151166001600160401b031982541617905561464c815f52601060205260405f2090565b614656815461304a565b90557f08b76acf3289dd1d9d88d90971104d6f2df2f04899bf9a03ac2408c321868517602060405160018152a3565b6040516001600160401b036146998261153f565b838252600160208301928242168452845f52600f60205260405f205f805260205260405f2090518155019151166001600160401b03198254161790556146e7815f52601060205260405f2090565b6146f1815461304a565b90557f08b76acf3289dd1d9d88d90971104d6f2df2f04899bf9a03ac2408c32186851760206040515f8152a3565b5f52600c60205260405f20905f918054925b83811061474057505050505f90565b61474a8183613256565b5083600180920154146147605750600101614731565b935050505090565b908160209103126103ef575190565b6040513d5f823e3d90fd5b5f80516020615f6c83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115614054575f91614287575090565b60205f91604460018060a01b035f80516020615f6c8339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115614054575f91614287575090565b5f80516020615f6c83398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af1908115614054575f91614287575090565b5f80516020615f6c83398151915254604051639cd07acb60e01b81525f60048201819052600360248301529091602091839160449183916001600160a01b03165af1908115614054575f91614287575090565b5f602060018060a01b035f80516020615f6c8339815191525416604460405180948193639cd07acb60e01b835260196004840152600460248401525af1908115614054575f91614287575090565b5f602060018060a01b035f80516020615f6c8339815191525416604460405180948193639cd07acb60e01b8352600f6004840152600460248401525af1908115614054575f91614287575090565b5f602060018060a01b035f80516020615f6c8339815191525416604460405180948193639cd07acb60e01b835260286004840152600460248401525af1908115614054575f91614287575090565b5f602060018060a01b035f80516020615f6c8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115614054575f91614287575090565b8054825492939280821015614acf5750905b614a1a826132c1565b935f5b838110614a94575050505b600180821115614a845781811c5f5b818110614a495750505060011c614a28565b80614a73614a58859389613300565b51614a6c614a668685613058565b8a613300565b5190615691565b614a7d8289613300565b5201614a37565b505090614a90906132f3565b5190565b80614abe614ab9614aa887600195886155c2565b614ab38885886155c2565b90615662565b615cf1565b614ac88289613300565b5201614a1d565b905090614a11565b9091926003614ae4614782565b92015490600285015490614b09614afa84615d44565b614b0384615d44565b90615dbd565b614b24614b1585615a83565b614b1e85615a83565b90615e41565b906020614b2f6148c9565b6064614b39614917565b5f80516020615f6c83398151915254604051637702dcff60e01b8152600481019790975260248701939093526044860152849182905f906001600160a01b03165af194851561405457614bb4614c0795614bae614bc294614c4199614c02975f91614c74575b50614ba8614782565b91615ec5565b92615dbd565b614bbc614965565b90615ec5565b91614bfc614be0614bdb614bd5846156ba565b93615ca2565b615732565b91614bf7614bf160058c0154615732565b91615ca2565b6157aa565b926157d3565b6157d3565b82614ba86007870154614c3b614c2585614c20846157fc565b615874565b91614c3560045463ffffffff1690565b906158f8565b93615976565b9180541580614c68575b614c6157610f9793614c5c916159fa565b615ec5565b5050905090565b50600181015415614c4b565b614c8d915060203d60201161408157614071818361156d565b5f614b9f565b614cce602091614cbb63ffffffff42166002614cb3826001860154615afc565b9301546158f8565b908015614d3c575b8115614d2c57615f17565b916064614cd9614782565b5f80516020615f6c83398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182905f906001600160a01b03165af1908115614054575f91614287575090565b9050614d366149b3565b90615f17565b50614d456149b3565b614cc3565b9291905f905b6001850154821015614ec05760039081860191614d6d8484612ced565b9054911b1c9181928215614eb0575b8015614e9f575b5f9060018060a01b035f80516020615f6c833981519152541690604051956385362ee760e01b8752600487015260248601528160448601528460648160209485945af191821561405457859485925f94614e80575b5050614de48282612ced565b9054614df59160031b1c8585615ec5565b9060088a0193614e058486612ced565b9054614e169160031b1c8a83615ec5565b95614e218584612ced565b9054614e32929160031b1c83615ec5565b98614e3d8587612ced565b905460039190911b1c614e4f92615ec5565b96614e5991612ced565b614e639291612d01565b614e6c91612ced565b614e769291612d01565b6001019091614d50565b614e97929450803d1061408157614071818361156d565b915f80614dd8565b505f614ea9614782565b9050614d83565b9250614eba614782565b92614d7c565b5050509050565b610f97308261512f565b5f5b838110614ee25750505f910152565b8181015183820152602001614ed3565b90602091614f0b81518092818552858086019101614ed1565b601f01601f1916010190565b9392614f4390600293606093875260018060a01b03166020870152608060408701526080860190614ef2565b930152565b9392614f4390600493606093875260018060a01b03166020870152608060408701526080860190614ef2565b5f80516020615f6c83398151915254614fc193926020929091614fa190613f49906001600160a01b031681565b905f60405180978195829463196d0b9b60e01b8452339060048501614f48565b03925af1918215614054575f92615042575b505f80516020615fcc833981519152548290614ff990613f49906001600160a01b031681565b803b156103ef57604051630f8e573b60e21b815260048101929092523360248301525f908290604490829084905af18015614054576150355750565b8061404861159b9261155a565b61505c91925060203d60201161408157614071818361156d565b905f614fd3565b80156150c7575b5f80516020615f6c833981519152546040516304559f7160e01b81526004810192909252600f6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115614054575f91614287575090565b505f60206150d3614823565b91505061506a565b90602090606460018060a01b035f80516020615f6c8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115614054575f91614287575090565b5f80516020615fcc833981519152546001600160a01b031691823b156103ef57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156140545761518d5750565b61159b9061155a565b60209291906151ac849282815194859201614ed1565b019081520190565b908160209103126103ef5751610f978161136f565b9081518082526020808093019301915f5b8281106151e8575050505090565b8351855293810193928101926001016151da565b9161522590615217610f9795936060865260608601906151c9565b908482036020860152614ef2565b916040818403910152614ef2565b919080519160209383850193848611610bae57604001809411610bae576152ce93615278869461526a604051938492888401615196565b03601f19810183528261156d565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f906152b090613f49906001600160a01b031681565b92604051968795869485936378542ead60e01b8552600485016151fc565b03925af1918215614054575f926152e457505090565b610f979250803d10615303575b6152fb818361156d565b8101906151b4565b503d6152f1565b906020610f979281815201906151c9565b92916153349184526060602085015260608401906151c9565b91604063bfccdd4360e01b910152565b929161535d9184526060602085015260608401906151c9565b916040631109bc3f60e31b910152565b5f198114610bae5760010190565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f80516020615fcc8339815191525490939291906153c690613f49906001600160a01b031681565b803b156103ef575f6040518092637d6e912360e11b82528183816153ed896004830161530a565b03925af18015614054576154bb575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025461543390613f49906001600160a01b031681565b90813b156103ef575f6040518093633263b83b60e01b825281838161545c898c6004840161531b565b03925af180156140545761159b936154849361547e926154a8575b5086615b7a565b5461536d565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b806140486154b59261155a565b5f615477565b806140486154c89261155a565b5f6153fc565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f80516020615fcc83398151915254909392919061551990613f49906001600160a01b031681565b803b156103ef575f6040518092637d6e912360e11b8252818381615540896004830161530a565b03925af18015614054576155af575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025461558690613f49906001600160a01b031681565b90813b156103ef575f6040518093633263b83b60e01b825281838161545c898c60048401615344565b806140486155bc9261155a565b5f61554f565b82815414615658576155d48282613162565b91905460039260031b1c92848101809111610bae57925b815484101561564a5761561b906156028584613162565b905490851b1c90801561563c575b811561562c576150db565b92848101809111610bae57926155eb565b9050615636614823565b906150db565b50615645614823565b615610565b92505050610f979150615063565b6117d69250613162565b90610f97918015615683575b81615c4e57905061567d614823565b90615c4e565b5061568c614823565b61566e565b90610f979180156156ac575b816150db579050615636614876565b506156b5614876565b61569d565b801561571e575b5f80516020615f6c833981519152546040516336024b2f60e21b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af1908115614054575f91614287575090565b505f602061572a614876565b9150506156c1565b8015615796575b5f80516020615f6c833981519152546040516304559f7160e01b81526004810192909252601e6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115614054575f91614287575090565b505f60206157a2614782565b915050615739565b90610f979180156157c5575b81615c4e57905061567d614782565b506157ce614782565b6157b6565b90610f979180156157ee575b816150db579050615636614782565b506157f7614782565b6157df565b8015615860575b5f80516020615f6c83398151915254604051630afe14ad60e31b81526004810192909252600a6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115614054575f91614287575090565b505f602061586c614782565b915050615803565b9081156158e8575b80156158d6575b602090606460018060a01b035f80516020615f6c8339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af1908115614054575f91614287575090565b5060206158e1614782565b9050615883565b90506158f2614782565b9061587c565b63ffffffff916020918015615964575b5f80516020615f6c83398151915254604051631391547f60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115614054575f91614287575090565b50606461596f614782565b9050615908565b9081156159ea575b80156159d8575b602090606460018060a01b035f80516020615f6c8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115614054575f91614287575090565b5060206159e3614782565b9050615985565b90506159f4614782565b9061597e565b90615a036149b3565b915f925b8154841015615a3c57615a34600191614b1e615a238786613162565b905460039182890154921b1c615dbd565b930192615a07565b9250925f925b600185018054851015615a7b57615a71600192614b1e615a666117d6898796613162565b600488015490615dbd565b9401939050615a42565b509350915050565b8015615ae8575b5f80516020615f6c83398151915254604051631d44e90160e21b8152600481019290925261ffff6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115614054575f91614287575090565b505f6020615af4614782565b915050615a8a565b63ffffffff916020918015615b68575b5f80516020615f6c83398151915254604051631d44e90160e21b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115614054575f91614287575090565b506064615b73614782565b9050615b0c565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f2054615c3c575f5260205260405f20908251926001600160401b03841161153a57600160401b841161153a578254848455808510615c16575b506020615bf39101925f5260205f2090565b905f5b848110615c04575050505050565b83518382015592810192600101615bf6565b835f528460205f2091820191015b818110615c315750615be1565b5f8155600101615c24565b604051633f06d22b60e01b8152600490fd5b90602090606460018060a01b035f80516020615f6c8339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af1908115614054575f91614287575090565b60205f91604460018060a01b035f80516020615f6c83398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af1908115614054575f91614287575090565b5f80516020615f6c833981519152546040516307227b9160e21b8152600481019290925260036024830152602090829060449082905f906001600160a01b03165af1908115614054575f91614287575090565b8015615da9575b5f80516020615f6c8339815191525460405163d99882d560e01b8152600481019290925261ffff6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115614054575f91614287575090565b505f6020615db5614782565b915050615d4b565b908115615e31575b8015615e1f575b602090606460018060a01b035f80516020615f6c8339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af1908115614054575f91614287575090565b506020615e2a614782565b9050615dcc565b9050615e3b614782565b90615dc5565b908115615eb5575b8015615ea3575b602090606460018060a01b035f80516020615f6c8339815191525416935f60405195869485936363a2db2960e01b8552600485015260248401528160448401525af1908115614054575f91614287575090565b506020615eae6149b3565b9050615e50565b9050615ebf6149b3565b90615e49565b9060646020925f60018060a01b035f80516020615f6c83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115614054575f91614287575090565b90602090606460018060a01b035f80516020615f6c8339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af1908115614054575f9161428757509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701e225e021535f81f1648cf614b037fa4d0979fa459d2c1789ca528294d4cb5a83c10c77be35aff266144ed64c26a1fa104bae2f284ae99ac4a34203454704a1859e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type ReviewerRecFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ReviewerRecFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ReviewerRecFHE__factory extends ContractFactory {
+  constructor(...args: ReviewerRecFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      ReviewerRecFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ReviewerRecFHE__factory {
+    return super.connect(runner) as ReviewerRecFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ReviewerRecFHEInterface {
+    return new Interface(_abi) as ReviewerRecFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ReviewerRecFHE {
+    return new Contract(address, _abi, runner) as unknown as ReviewerRecFHE;
+  }
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\util.py
-// Generated at: 2025-10-16T06:41:25.386Z
\ No newline at end of file